@@ -0,0 +1,314 @@
+/**
+ * Chat Export Parser - Parses Slack, Discord and Microsoft Teams JSON exports.
+ *
+ * Supported shapes:
+ * 1. Slack (workspace export day files, conversations.history, slackdump):
+ *      [{ type: "message", user, user_profile: { real_name }, text, ts: "1705312800.000200", thread_ts? }]
+ *      (or the same messages under a top-level "messages" array)
+ * 2. Discord (DiscordChatExporter or the raw API):
+ *      { messages: [{ id, type, timestamp, author: { name, nickname }, content, reference?: { messageId } }] }
+ * 3. Teams (Microsoft Graph chatMessage lists):
+ *      { value: [{ id, messageType, createdDateTime, from: { user: { displayName } }, body: { content }, replyToId? }] }
+ *
+ * Each message becomes a turn timed in seconds from the first message, so logs spanning several
+ * days keep their real gaps instead of wrapping at midnight like "[HH:MM AM/PM]" text logs.
+ * The first message's absolute datetime is returned so timelines can show days and clock times.
+ * Threads and replies become turn-based codes: every message in a thread is coded "thread" and
+ * each reply "reply to: <speaker>", so the code list stays short however many threads there are.
+ */
+
+import { normalizeSpeakerName, splitIntoWordTokens } from './string-utils';
+import type { ParseResult, ParsedTurn } from './text-parser';
+import type { ParsedCodes, TurnCodeEntry } from './code-utils';
+
+export type ChatExportFormat = 'slack' | 'discord' | 'teams';
+
+export interface ChatExportResult {
+	format: ChatExportFormat;
+	parseResult: ParseResult;
+	codes: Extract<ParsedCodes, { type: 'turn' }>;
+	/** ISO datetime of the first message (transcript time 0) */
+	startDate: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface ChatMessage {
+	id: string;
+	speaker: string;
+	text: string;
+	/** Epoch milliseconds */
+	time: number;
+	/** Id of the thread's root message, for messages posted in a thread */
+	threadId: string | null;
+	/** Id of the message this one replies to */
+	replyToId: string | null;
+}
+
+/** Slack system events (joins, topic changes, ...) that are not part of the conversation */
+const SLACK_IGNORED_SUBTYPES = new Set([
+	'channel_join',
+	'channel_leave',
+	'channel_topic',
+	'channel_purpose',
+	'channel_name',
+	'channel_archive',
+	'channel_unarchive',
+	'group_join',
+	'group_leave',
+	'pinned_item',
+	'tombstone'
+]);
+
+/** Discord message types that carry user text; others are joins, pins, boosts, ... */
+const DISCORD_TEXT_TYPES = new Set(['Default', 'Reply', 0, 19]);
+
+const DEFAULT_SPEAKER = 'UNKNOWN';
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function readString(value: unknown): string | null {
+	return typeof value === 'string' && value.trim() ? value.trim() : null;
+}
+
+function decodeEntities(text: string): string {
+	return text
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&quot;/g, '"')
+		.replace(/&#39;|&apos;/g, "'")
+		.replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+		.replace(/&amp;/g, '&');
+}
+
+/** Top-level message array: the JSON itself (Slack day files) or its "messages"/"value" list */
+function getMessageList(data: unknown): unknown[] | null {
+	if (Array.isArray(data)) return data;
+	if (!isObject(data)) return null;
+	if (Array.isArray(data.messages)) return data.messages;
+	if (Array.isArray(data.value)) return data.value;
+	return null;
+}
+
+/**
+ * Detects which chat tool produced a JSON export, or null for other JSON (e.g. word timings).
+ */
+export function detectChatExportFormat(data: unknown): ChatExportFormat | null {
+	const sample = getMessageList(data)?.find(isObject);
+	if (!sample) return null;
+	if (typeof sample.ts === 'string' && ('text' in sample || 'user' in sample)) return 'slack';
+	if (typeof sample.createdDateTime === 'string' && ('from' in sample || 'body' in sample)) return 'teams';
+	if (typeof sample.timestamp === 'string' && isObject(sample.author)) return 'discord';
+	return null;
+}
+
+// ============ Slack ============
+
+/**
+ * Converts Slack mrkdwn to plain text: <@U123> mentions, <#C1|general> channels,
+ * <https://url|label> links and <!here> broadcasts.
+ */
+function cleanSlackText(text: string, userNames: Map<string, string>): string {
+	const plain = text.replace(/<([^<>]+)>/g, (_, inner: string) => {
+		const [target, label] = inner.split('|');
+		if (target.startsWith('@')) return `@${label ?? userNames.get(target.slice(1)) ?? 'user'}`;
+		if (target.startsWith('#')) return `#${label ?? 'channel'}`;
+		if (target.startsWith('!')) return `@${label ?? target.slice(1).split('^')[0]}`;
+		return label ?? target;
+	});
+	return decodeEntities(plain);
+}
+
+function readSlackName(message: JsonObject): string | null {
+	const profile = isObject(message.user_profile) ? message.user_profile : {};
+	return (
+		readString(profile.real_name) ??
+		readString(profile.display_name) ??
+		readString(message.user_name) ??
+		readString(message.username) ??
+		readString(profile.name)
+	);
+}
+
+function parseSlackMessages(list: unknown[]): ChatMessage[] {
+	const messages = list.filter(isObject);
+
+	// Not every message carries a profile; resolve user ids from the ones that do
+	const userNames = new Map<string, string>();
+	for (const message of messages) {
+		const id = readString(message.user);
+		const name = readSlackName(message);
+		if (id && name && !userNames.has(id)) userNames.set(id, name);
+	}
+
+	const result: ChatMessage[] = [];
+	for (const message of messages) {
+		if (message.type !== undefined && message.type !== 'message') continue;
+		if (typeof message.subtype === 'string' && SLACK_IGNORED_SUBTYPES.has(message.subtype)) continue;
+		const ts = readString(message.ts);
+		const seconds = ts ? Number(ts) : NaN;
+		if (!ts || !Number.isFinite(seconds)) continue;
+
+		const userId = readString(message.user);
+		const threadTs = readString(message.thread_ts);
+		const isReply = threadTs !== null && threadTs !== ts;
+		result.push({
+			id: ts,
+			speaker: readSlackName(message) ?? (userId ? userNames.get(userId) : undefined) ?? userId ?? DEFAULT_SPEAKER,
+			text: cleanSlackText(typeof message.text === 'string' ? message.text : '', userNames),
+			time: Math.round(seconds * 1000),
+			threadId: threadTs,
+			replyToId: isReply ? threadTs : null
+		});
+	}
+	return result;
+}
+
+// ============ Discord ============
+
+function parseDiscordMessages(list: unknown[]): ChatMessage[] {
+	const result: ChatMessage[] = [];
+	for (const message of list) {
+		if (!isObject(message) || !isObject(message.author)) continue;
+		if (message.type !== undefined && !DISCORD_TEXT_TYPES.has(message.type as string | number)) continue;
+		const time = typeof message.timestamp === 'string' ? Date.parse(message.timestamp) : NaN;
+		if (!Number.isFinite(time)) continue;
+
+		const author = message.author;
+		// DiscordChatExporter uses reference.messageId; the API uses message_reference.message_id
+		const reference = isObject(message.reference)
+			? message.reference.messageId
+			: isObject(message.message_reference)
+				? message.message_reference.message_id
+				: null;
+		result.push({
+			id: String(message.id ?? result.length),
+			speaker:
+				readString(author.nickname) ?? readString(author.global_name) ?? readString(author.name) ?? readString(author.username) ?? DEFAULT_SPEAKER,
+			text: typeof message.content === 'string' ? message.content : '',
+			time,
+			threadId: null,
+			replyToId: reference != null ? String(reference) : null
+		});
+	}
+	return result;
+}
+
+// ============ Teams ============
+
+/** Teams bodies are usually HTML: keep @mention and link text, drop tags and attachments */
+function cleanTeamsHTML(html: string): string {
+	return decodeEntities(
+		html
+			.replace(/<attachment\b[^>]*>[\s\S]*?<\/attachment>/gi, ' ')
+			.replace(/<(?:br|\/p|\/div|\/li)\b[^>]*>/gi, ' ')
+			.replace(/<[^>]+>/g, '')
+	);
+}
+
+function readTeamsName(message: JsonObject): string | null {
+	if (!isObject(message.from)) return null;
+	for (const key of ['user', 'application', 'device']) {
+		const identity = message.from[key];
+		if (isObject(identity) && readString(identity.displayName)) return readString(identity.displayName);
+	}
+	return null;
+}
+
+function parseTeamsMessages(list: unknown[]): ChatMessage[] {
+	const result: ChatMessage[] = [];
+	const visit = (message: unknown, parentId: string | null) => {
+		if (!isObject(message)) return;
+		const id = String(message.id ?? `teams-${result.length}`);
+		const replyToId = readString(message.replyToId) ?? parentId;
+		const time = typeof message.createdDateTime === 'string' ? Date.parse(message.createdDateTime) : NaN;
+		const isText = message.messageType === undefined || message.messageType === 'message';
+
+		if (isText && !message.deletedDateTime && Number.isFinite(time)) {
+			const body = isObject(message.body) ? message.body : {};
+			const content = typeof body.content === 'string' ? body.content : '';
+			result.push({
+				id,
+				speaker: readTeamsName(message) ?? DEFAULT_SPEAKER,
+				text: body.contentType === 'text' ? content : cleanTeamsHTML(content),
+				time,
+				threadId: replyToId,
+				replyToId
+			});
+		}
+		// Channel messages fetched with $expand=replies nest their replies
+		if (Array.isArray(message.replies)) {
+			for (const reply of message.replies) visit(reply, id);
+		}
+	};
+	for (const message of list) visit(message, null);
+	return result;
+}
+
+// ============ Shared ============
+
+/**
+ * Parses a Slack, Discord or Teams JSON export into turns and thread/reply codes.
+ * Returns null when the JSON is not a recognised chat export.
+ */
+export function parseChatExportJSON(data: unknown): ChatExportResult | null {
+	const format = detectChatExportFormat(data);
+	const list = getMessageList(data);
+	if (!format || !list) return null;
+
+	const parsed = format === 'slack' ? parseSlackMessages(list) : format === 'discord' ? parseDiscordMessages(list) : parseTeamsMessages(list);
+	// Messages without words (attachments, stickers) would be dropped by the transcript factory,
+	// shifting turn numbers away from the codes collected here
+	const messages = parsed
+		.map((message) => ({ ...message, text: message.text.replace(/\s+/g, ' ').trim() }))
+		.filter((message) => splitIntoWordTokens(message.text).length > 0)
+		.sort((a, b) => a.time - b.time);
+
+	const startTime = messages[0]?.time ?? 0;
+	const byId = new Map(messages.map((message) => [message.id, message]));
+	const threadRoots = new Set(messages.filter((m) => m.threadId && m.threadId !== m.id).map((m) => m.threadId!));
+
+	const turns: ParsedTurn[] = [];
+	const codeTurns = new Map<string, number[]>();
+	const addCode = (code: string, turnNumber: number) => {
+		if (!codeTurns.has(code)) codeTurns.set(code, []);
+		codeTurns.get(code)!.push(turnNumber);
+	};
+
+	for (const message of messages) {
+		const turnNumber = turns.length;
+		turns.push({
+			speaker: normalizeSpeakerName(message.speaker),
+			content: message.text,
+			startTime: (message.time - startTime) / 1000,
+			endTime: null
+		});
+
+		const threadId = threadRoots.has(message.id) ? message.id : message.threadId;
+		if (threadId && threadRoots.has(threadId)) addCode('thread', turnNumber);
+		if (message.replyToId) {
+			const target = byId.get(message.replyToId);
+			addCode(target ? `reply to: ${normalizeSpeakerName(target.speaker)}` : 'reply', turnNumber);
+		}
+	}
+
+	const entries: TurnCodeEntry[] = [...codeTurns].map(([code, turnNumbers]) => ({ code, turns: turnNumbers }));
+
+	return {
+		format,
+		parseResult: {
+			turns,
+			detectedFormat: 'chat-log',
+			hasTimestamps: turns.length > 0,
+			speakers: [...new Set(turns.map((t) => t.speaker))],
+			continuationLineCount: 0,
+			totalLineCount: list.length,
+			detectedTimingMode: 'startOnly'
+		},
+		codes: { type: 'turn', entries },
+		startDate: new Date(startTime).toISOString()
+	};
+}
@@ -0,0 +1,209 @@
+/**
+ * CHAT Parser - Parses CLAN CHAT (.cha, CHILDES/TalkBank) transcripts.
+ *
+ * CHAT structure:
+ *   @Begin
+ *   @Participants:	CHI Ruth Target_Child, MOT Mother
+ *   *MOT:	do you want <the ball> [/] the ball ? ·1200_2950·
+ *   %com:	points to toy box
+ *   *CHI:	&-um ball . ·3100_3900·
+ *   @End
+ *
+ * Main lines (*SPK:) become turns; a line starting with a tab continues the previous line.
+ * Media bullets (ms, delimited by U+0015 or shown as ·) give start/end times. CHAT
+ * transcription codes are stripped from the content so only spoken words remain.
+ * Dependent tiers become turn-based codes: each item on a coding tier (%cod: $QUE $POS) is a
+ * code, while free-text tiers such as %com and %act give one code per tier ("%com"), so comments
+ * don't each become a code. Linguistic analysis tiers such as %mor and %gra are ignored.
+ */
+
+import { estimateDuration } from './timing-utils';
+import { normalizeSpeakerName, splitIntoWordTokens } from './string-utils';
+import type { ParseResult, ParsedTurn } from './text-parser';
+import type { ParsedCodes, TurnCodeEntry } from './code-utils';
+
+export interface ChatImportResult {
+	parseResult: ParseResult;
+	codes: Extract<ParsedCodes, { type: 'turn' }>;
+}
+
+/** Morphology, grammar, phonology and alignment tiers - per-word analyses, not useful as codes */
+const IGNORED_DEPENDENT_TIERS = new Set(['mor', 'gra', 'pho', 'mod', 'wor', 'xpho', 'xmod', 'xmor', 'umor', 'trn', 'grt', 'ort', 'snd']);
+/** General and speech act coding tiers, whose values are space-separated codes */
+const CODING_TIERS = new Set(['cod', 'spa']);
+
+/** Bullets are delimited by the NAK control character (U+0015); some exports show it as a middle dot */
+const BULLET_DELIMITER = `[${String.fromCharCode(0x15)}·]`;
+const BULLET_PATTERN = new RegExp(`${BULLET_DELIMITER}(\\d+)_(\\d+)${BULLET_DELIMITER}`);
+const BULLET_CLEANUP_PATTERN = new RegExp(`${BULLET_PATTERN.source}|${BULLET_DELIMITER}`, 'g');
+
+/**
+ * Detects CHAT content (e.g. a .cha file saved as .txt) from its @UTF8/@Begin header
+ * or from *SPK: main lines, which the "Speaker: content" TXT parser would garble.
+ */
+export function isCHATText(text: string): boolean {
+	const lines = text.replace(/^\uFEFF/, '').split(/\r?\n/, 20);
+	const first = lines.find((line) => line.trim())?.trim() ?? '';
+	if (first === '@UTF8' || first === '@Begin') return true;
+	return lines.some((line) => /^\*[A-Z0-9]{2,4}:\t/.test(line)) && lines.some((line) => line.startsWith('@'));
+}
+
+/**
+ * Removes CHAT transcription codes, keeping only the spoken words and utterance terminators.
+ */
+export function stripCHATCodes(content: string): string {
+	return (
+		content
+			// Bracketed codes: [/] retracing, [= explanation], [: replacement], [% comment], [*] errors, [>] overlap
+			.replace(/\[[^\]]*\]/g, ' ')
+			// Scope markers around retraced/overlapped words
+			.replace(/[<>]/g, ' ')
+			// Pauses: (.), (..), (...), (1.5)
+			.replace(/\((?:\.{1,3}|\d+(?:[.:]\d+)*)\)/g, ' ')
+			// Utterance linkers and special terminators: +..., +/., +//?, +", +<, +^
+			.replace(/(^|\s)\+\S*/g, ' ')
+			.split(/\s+/)
+			.filter((token) => {
+				if (!token) return false;
+				// Fillers (&-um), fragments (&+fr), events (&=laughs), omitted words (0is)
+				if (/^[&0]/.test(token)) return false;
+				// Unintelligible and untranscribed material
+				if (/^(xxx|yyy|www)$/i.test(token)) return false;
+				return true;
+			})
+			.map((token) =>
+				token
+					// Special form markers: word@s:eng, word@b
+					.replace(/@\S*$/, '')
+					// Shortenings: (be)cause -> because
+					.replace(/[()]/g, '')
+					// Prosody inside words: lengthening (no:), pauses (ba^na^na), pitch arrows, CA markers
+					.replace(/[:^↑↓≠≈‡„∬∙]/g, '')
+			)
+			.filter(Boolean)
+			.join(' ')
+			// Keep terminators attached to the previous word
+			.replace(/\s+([.?!])/g, '$1')
+			.trim()
+	);
+}
+
+/** Maps participant codes to display names from "@Participants: CHI Ruth Target_Child, MOT Mother" */
+function parseParticipants(value: string): Map<string, string> {
+	const names = new Map<string, string>();
+	for (const entry of value.split(',')) {
+		const parts = entry.trim().split(/\s+/);
+		if (parts.length === 0 || !parts[0]) continue;
+		// Three parts: code, name, role; two parts: code, role - fall back to the code
+		names.set(parts[0], parts.length >= 3 ? parts.slice(1, -1).join(' ').replace(/_/g, ' ') : parts[0]);
+	}
+	return names;
+}
+
+interface RawUtterance {
+	code: string;
+	text: string;
+	dependents: { tier: string; value: string }[];
+}
+
+/** Joins continuation lines (leading tab) onto their header, main or dependent tier line */
+function joinLines(text: string): string[] {
+	const joined: string[] = [];
+	for (const line of text.replace(/^\uFEFF/, '').split(/\r?\n/)) {
+		if (/^\s/.test(line) && joined.length > 0) {
+			if (line.trim()) joined[joined.length - 1] += ' ' + line.trim();
+		} else if (line.trim()) {
+			joined.push(line);
+		}
+	}
+	return joined;
+}
+
+/**
+ * Parses CHAT text into turns and turn-based codes.
+ * Turns are timed from media bullets when the transcript has any; untimed turns in a
+ * timed transcript continue from the previous turn with an estimated duration.
+ */
+export function parseCHATText(text: string, speechRateWordsPerSecond: number = 3): ChatImportResult {
+	const participants = new Map<string, string>();
+	const utterances: RawUtterance[] = [];
+
+	for (const line of joinLines(text)) {
+		const header = line.match(/^@Participants:\s*(.*)$/);
+		if (header) {
+			for (const [code, name] of parseParticipants(header[1])) participants.set(code, name);
+			continue;
+		}
+
+		const main = line.match(/^\*([^:\s]+):\s*(.*)$/);
+		if (main) {
+			utterances.push({ code: main[1], text: main[2], dependents: [] });
+			continue;
+		}
+
+		const dependent = line.match(/^%([^:\s]+):\s*(.*)$/);
+		if (dependent && utterances.length > 0) {
+			utterances[utterances.length - 1].dependents.push({ tier: dependent[1], value: dependent[2].trim() });
+		}
+	}
+
+	const hasTimestamps = utterances.some((u) => BULLET_PATTERN.test(u.text));
+	const turns: ParsedTurn[] = [];
+	const codeTurns = new Map<string, number[]>();
+	let lastEndTime = 0;
+
+	for (const utterance of utterances) {
+		const bullet = utterance.text.match(BULLET_PATTERN);
+		const content = stripCHATCodes(utterance.text.replace(BULLET_CLEANUP_PATTERN, ' '));
+		// Turns without spoken words (e.g. only "xxx .") would be dropped by the transcript factory,
+		// shifting turn numbers away from the codes collected here
+		const wordCount = splitIntoWordTokens(content).length;
+		if (wordCount === 0) continue;
+
+		let startTime: number | null = null;
+		let endTime: number | null = null;
+		if (bullet) {
+			startTime = Number(bullet[1]) / 1000;
+			endTime = Math.max(startTime, Number(bullet[2]) / 1000);
+			lastEndTime = endTime;
+		} else if (hasTimestamps) {
+			startTime = lastEndTime;
+			endTime = startTime + estimateDuration(wordCount, speechRateWordsPerSecond);
+			lastEndTime = endTime;
+		}
+
+		const turnNumber = turns.length;
+		turns.push({
+			speaker: normalizeSpeakerName(participants.get(utterance.code) ?? utterance.code),
+			content,
+			startTime,
+			endTime
+		});
+
+		for (const { tier, value } of utterance.dependents) {
+			const tierName = tier.toLowerCase();
+			if (IGNORED_DEPENDENT_TIERS.has(tierName) || !value) continue;
+			const tierCodes = CODING_TIERS.has(tierName) ? value.split(/\s+/) : [`%${tier}`];
+			for (const code of new Set(tierCodes)) {
+				if (!codeTurns.has(code)) codeTurns.set(code, []);
+				const turnNumbers = codeTurns.get(code)!;
+				if (turnNumbers[turnNumbers.length - 1] !== turnNumber) turnNumbers.push(turnNumber);
+			}
+		}
+	}
+
+	const entries: TurnCodeEntry[] = [...codeTurns].map(([code, turnNumbers]) => ({ code, turns: turnNumbers }));
+
+	return {
+		parseResult: {
+			turns,
+			detectedFormat: hasTimestamps ? 'timestamped' : 'colon',
+			hasTimestamps,
+			speakers: [...new Set(turns.map((t) => t.speaker))],
+			continuationLineCount: 0,
+			totalLineCount: utterances.length,
+			detectedTimingMode: hasTimestamps ? 'startEnd' : 'untimed'
+		},
+		codes: { type: 'turn', entries }
+	};
+}
@@ -14,18 +14,18 @@ interface PapaParseResults {
 
 // ============ Code File Format Types ============
 
-interface TurnCodeEntry {
+export interface TurnCodeEntry {
 	code: string;
 	turns: number[];
 }
 
-interface TimeCodeEntry {
+export interface TimeCodeEntry {
 	code: string;
 	startTime: number;
 	endTime: number;
 }
 
-type ParsedCodes = { type: 'turn'; entries: TurnCodeEntry[] } | { type: 'time'; entries: TimeCodeEntry[] };
+export type ParsedCodes = { type: 'turn'; entries: TurnCodeEntry[] } | { type: 'time'; entries: TimeCodeEntry[] };
 
 // ============ Detection ============
 
@@ -209,14 +209,19 @@ export function applyCodesByTurn(wordArray: DataPoint[], parsedCodes: ParsedCode
 
 /**
  * Apply time-based codes to word array. Each DataPoint gets codes[] populated
- * based on which code time ranges overlap its time range.
+ * based on which code time ranges overlap its time range. Zero-length entries
+ * (instants, e.g. Praat point tiers) code the words whose span contains them.
  */
 export function applyCodesByTime(wordArray: DataPoint[], parsedCodes: ParsedCodes): void {
 	if (parsedCodes.type !== 'time') return;
 
 	for (const dp of wordArray) {
 		for (const entry of parsedCodes.entries) {
-			if (dp.startTime < entry.endTime && dp.endTime > entry.startTime) {
+			const overlaps =
+				entry.endTime > entry.startTime
+					? dp.startTime < entry.endTime && dp.endTime > entry.startTime
+					: dp.startTime <= entry.startTime && dp.endTime > entry.startTime;
+			if (overlaps) {
 				if (!dp.codes.includes(entry.code)) {
 					dp.codes.push(entry.code);
 				}
@@ -225,6 +230,104 @@ export function applyCodesByTime(wordArray: DataPoint[], parsedCodes: ParsedCode
 	}
 }
 
+// ============ Export ============
+
+export type CodeExportLayout = 'turn' | 'turn-range' | 'time';
+
+export interface CodeExportTable {
+	columns: string[];
+	rows: Record<string, string | number>[];
+}
+
+/** Codes per turn, in turn order, using the transcript's turn numbers as applyCodesByTurn reads them */
+function collectTurnCodes(wordArray: DataPoint[]): Map<number, Set<string>> {
+	const turnCodes = new Map<number, Set<string>>();
+	for (const dp of wordArray) {
+		if (!turnCodes.has(dp.turnNumber)) turnCodes.set(dp.turnNumber, new Set());
+		for (const code of dp.codes) turnCodes.get(dp.turnNumber)!.add(code);
+	}
+	return new Map([...turnCodes].sort((a, b) => a[0] - b[0]));
+}
+
+/** One row per coded turn and code: turn, code */
+function buildTurnCodeRows(wordArray: DataPoint[]): CodeExportTable {
+	const rows: Record<string, string | number>[] = [];
+	for (const [turn, codes] of collectTurnCodes(wordArray)) {
+		for (const code of codes) rows.push({ turn, code });
+	}
+	return { columns: ['turn', 'code'], rows };
+}
+
+/** One row per run of consecutive coded turns: turn_start, turn_end, code */
+function buildTurnRangeCodeRows(wordArray: DataPoint[]): CodeExportTable {
+	const open = new Map<string, { turn_start: number; turn_end: number; code: string }>();
+	const rows: { turn_start: number; turn_end: number; code: string }[] = [];
+
+	for (const [turn, codes] of collectTurnCodes(wordArray)) {
+		// Close ranges of codes missing from this turn
+		for (const [code, range] of open) {
+			if (!codes.has(code)) open.delete(code);
+			else if (range.turn_end === turn - 1) range.turn_end = turn;
+		}
+		for (const code of codes) {
+			if (open.get(code)?.turn_end === turn) continue;
+			const range = { turn_start: turn, turn_end: turn, code };
+			open.set(code, range);
+			rows.push(range);
+		}
+	}
+	return { columns: ['turn_start', 'turn_end', 'code'], rows };
+}
+
+/**
+ * Time spans covered by each code, in time order. Spans of coded words that touch or overlap are merged.
+ */
+export function getCodeSpans(wordArray: Pick<DataPoint, 'codes' | 'startTime' | 'endTime'>[]): Map<string, { start: number; end: number }[]> {
+	const spansByCode = new Map<string, { start: number; end: number }[]>();
+	for (const dp of wordArray) {
+		for (const code of dp.codes) {
+			if (!spansByCode.has(code)) spansByCode.set(code, []);
+			spansByCode.get(code)!.push({ start: dp.startTime, end: dp.endTime });
+		}
+	}
+
+	const merged = new Map<string, { start: number; end: number }[]>();
+	for (const [code, spans] of spansByCode) {
+		spans.sort((a, b) => a.start - b.start);
+		const codeSpans: { start: number; end: number }[] = [];
+		for (const span of spans) {
+			const current = codeSpans[codeSpans.length - 1];
+			if (current && span.start <= current.end) current.end = Math.max(current.end, span.end);
+			else codeSpans.push({ ...span });
+		}
+		merged.set(code, codeSpans);
+	}
+	return merged;
+}
+
+/**
+ * One row per time span: start, end, code.
+ * Times are seconds with millisecond precision so re-imported spans cover the same words.
+ */
+function buildTimeCodeRows(wordArray: DataPoint[]): CodeExportTable {
+	const round = (seconds: number) => Math.round(seconds * 1000) / 1000;
+	const rows = [...getCodeSpans(wordArray)].flatMap(([code, spans]) =>
+		spans.map((span) => ({ start: round(span.start), end: round(span.end), code }))
+	);
+	rows.sort((a, b) => a.start - b.start || a.end - b.end);
+	return { columns: ['start', 'end', 'code'], rows };
+}
+
+/**
+ * Builds code file rows from the codes on each word, using the columns parseCodeFile reads.
+ * Turn layouts code whole turns, so a turn is exported with every code any of its words has.
+ */
+export function buildCodeExportTable(wordArray: DataPoint[], layout: CodeExportLayout): CodeExportTable {
+	if (layout === 'turn') return buildTurnCodeRows(wordArray);
+	if (layout === 'turn-range') return buildTurnRangeCodeRows(wordArray);
+	return buildTimeCodeRows(wordArray);
+}
+
 // ============ Clear ============
 
 /**
@@ -241,8 +344,9 @@ export function clearAllCodes(wordArray: DataPoint[]): void {
 
 /**
  * Update CodeStore with newly discovered codes, assigning colors from USER_COLORS.
+ * @param preferredColors - Colors carried by the source file (e.g. a REFI-QDA code book), used instead of the palette
  */
-export function updateCodeStoreWithNewCodes(parsedCodes: ParsedCodes): void {
+export function updateCodeStoreWithNewCodes(parsedCodes: ParsedCodes, preferredColors?: Map<string, string>): void {
 	const currentCodes = get(CodeStore);
 	const existingCodeNames = new Set(currentCodes.map((c) => c.code));
 
@@ -262,6 +366,11 @@ export function updateCodeStoreWithNewCodes(parsedCodes: ParsedCodes): void {
 	let colorIndex = 0;
 
 	const newEntries: CodeEntry[] = newCodeNames.map((code) => {
+		const preferred = preferredColors?.get(code);
+		if (preferred) {
+			usedColors.add(preferred);
+			return { code, color: preferred, enabled: true };
+		}
 		// Find next unused color
 		while (colorIndex < userColors.length && usedColors.has(userColors[colorIndex])) {
 			colorIndex++;
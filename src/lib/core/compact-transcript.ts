@@ -0,0 +1,208 @@
+/**
+ * Compact Transcript - Storage encoding for autosaved transcripts.
+ *
+ * A persisted transcript repeats the speaker name and field names for every word. The compact
+ * form keeps speakers, distinct words and codes in string tables, stores each word as an index
+ * into them, and run-length encodes turns as (turn number, speaker, word count) triples. The
+ * result is gzipped where the browser supports CompressionStream. Encoding is lossless:
+ * decoding gives back the same persisted transcript.
+ *
+ * The project library splits the words into parts of whole turns and stores each part under a
+ * hash of its contents. Part boundaries are chosen from the turns' text and turn numbers are
+ * stored relative to the part's first turn, so adding, deleting or renumbering turns changes only
+ * the parts around the edited turns; the manifest lists the parts in order with their first turn.
+ */
+
+import type { PersistedDataPoint, PersistedTranscript } from './persistence';
+
+export const COMPACT_TRANSCRIPT_VERSION = 1;
+export const TURNS_PER_PART = 200;
+
+export interface CompactWords {
+	version: typeof COMPACT_TRANSCRIPT_VERSION;
+	speakers: string[];
+	words: string[];
+	codes: string[];
+	/** Flat triples of [turnNumber, speaker index, word count], one per run of words in a turn */
+	turns: number[];
+	/** Index into `words` for each word, in order */
+	wordIds: number[];
+	startTimes: number[];
+	endTimes: number[];
+	counts: number[];
+	/** Coded words only, as [word position, ...code indices] */
+	wordCodes: number[][];
+}
+
+/** Compact JSON as stored: gzipped, or plain text where the browser cannot compress */
+export type PackedJSON = { encoding: 'compact-gzip'; bytes: Uint8Array<ArrayBuffer> } | { encoding: 'compact-json'; json: string };
+
+/** A part of a stored transcript: the hash its record is stored under and the turn number it starts at */
+export interface TranscriptPartRef {
+	key: string;
+	firstTurn: number;
+}
+
+/** The transcript record of a project stored in parts; the parts are separate records */
+export interface TranscriptManifest {
+	encoding: 'compact-parts';
+	parts: TranscriptPartRef[];
+	/** The rest of the transcript: statistics, timing mode, sessions, start date */
+	meta: Omit<PersistedTranscript, 'wordArray'>;
+}
+
+function indexer() {
+	const table: string[] = [];
+	const ids = new Map<string, number>();
+	return {
+		table,
+		id(value: string): number {
+			let id = ids.get(value);
+			if (id === undefined) {
+				id = table.length;
+				ids.set(value, id);
+				table.push(value);
+			}
+			return id;
+		}
+	};
+}
+
+/** Encodes words compactly, storing turn numbers relative to `firstTurn` */
+export function encodeCompactWords(wordArray: PersistedDataPoint[], firstTurn = 0): CompactWords {
+	const speakers = indexer();
+	const words = indexer();
+	const codes = indexer();
+	const turns: number[] = [];
+	const wordIds: number[] = [];
+	const wordCodes: number[][] = [];
+
+	wordArray.forEach((dp, i) => {
+		wordIds.push(words.id(dp.word));
+		const speaker = speakers.id(dp.speaker);
+		const turnNumber = dp.turnNumber - firstTurn;
+		const last = turns.length - 3;
+		if (last >= 0 && turns[last] === turnNumber && turns[last + 1] === speaker) {
+			turns[last + 2]++;
+		} else {
+			turns.push(turnNumber, speaker, 1);
+		}
+		if (dp.codes && dp.codes.length > 0) wordCodes.push([i, ...dp.codes.map(codes.id)]);
+	});
+
+	return {
+		version: COMPACT_TRANSCRIPT_VERSION,
+		speakers: speakers.table,
+		words: words.table,
+		codes: codes.table,
+		turns,
+		wordIds,
+		startTimes: wordArray.map((dp) => dp.startTime),
+		endTimes: wordArray.map((dp) => dp.endTime),
+		counts: wordArray.map((dp) => dp.count),
+		wordCodes
+	};
+}
+
+/** Decodes compact words, adding `firstTurn` back to their turn numbers */
+export function decodeCompactWords(compact: CompactWords, firstTurn = 0): PersistedDataPoint[] {
+	if (compact.version !== COMPACT_TRANSCRIPT_VERSION) throw new Error('Saved transcript uses an unknown storage encoding.');
+
+	const codesByWord = new Map(compact.wordCodes.map(([position, ...codeIds]) => [position, codeIds.map((id) => compact.codes[id])]));
+	const wordArray: PersistedDataPoint[] = [];
+	for (let t = 0; t < compact.turns.length; t += 3) {
+		const [turnNumber, speakerId, length] = compact.turns.slice(t, t + 3);
+		for (let k = 0; k < length; k++) {
+			const i = wordArray.length;
+			wordArray.push({
+				speaker: compact.speakers[speakerId],
+				turnNumber: turnNumber + firstTurn,
+				startTime: compact.startTimes[i],
+				endTime: compact.endTimes[i],
+				word: compact.words[compact.wordIds[i]],
+				count: compact.counts[i],
+				codes: codesByWord.get(i)
+			});
+		}
+	}
+	return wordArray;
+}
+
+/** 64-bit FNV-1a hash of a string as 16 hex digits, from two 32-bit hashes with different offsets */
+export function contentHash(text: string): string {
+	let a = 0x811c9dc5;
+	let b = 0x050c5d1f;
+	for (let i = 0; i < text.length; i++) {
+		const c = text.charCodeAt(i);
+		a = Math.imul(a ^ c, 0x01000193) >>> 0;
+		b = Math.imul(b ^ c, 0x01000193) >>> 0;
+	}
+	return a.toString(16).padStart(8, '0') + b.toString(16).padStart(8, '0');
+}
+
+/**
+ * Splits a word array into parts of whole turns. A part ends after a turn whose text, together with
+ * the turn before it, hashes to a boundary (one turn in `turnsPerPart` on average), or once it holds
+ * four times that many turns. Boundaries depend on the turns' text rather than their position.
+ */
+export function splitTranscriptParts(wordArray: PersistedDataPoint[], turnsPerPart = TURNS_PER_PART): PersistedDataPoint[][] {
+	const parts: PersistedDataPoint[][] = [[]];
+	let turns = 0;
+	let turnText = '';
+	let previousText = '';
+	wordArray.forEach((dp, i) => {
+		parts[parts.length - 1].push(dp);
+		turnText += `${dp.word} `;
+		if (wordArray[i + 1]?.turnNumber === dp.turnNumber) return;
+
+		turns++;
+		const text = `${dp.speaker}: ${turnText}`;
+		const boundary = parseInt(contentHash(previousText + text).slice(0, 8), 16) % turnsPerPart === 0;
+		if ((boundary || turns >= turnsPerPart * 4) && i < wordArray.length - 1) {
+			parts.push([]);
+			turns = 0;
+		}
+		previousText = text;
+		turnText = '';
+	});
+	return parts[0].length > 0 ? parts : [];
+}
+
+async function pipeBytes(bytes: Uint8Array<ArrayBuffer>, stream: CompressionStream | DecompressionStream): Promise<Uint8Array<ArrayBuffer>> {
+	const output = new Blob([bytes]).stream().pipeThrough(stream);
+	return new Uint8Array(await new Response(output).arrayBuffer());
+}
+
+/** Gzips the JSON of a compact part for the library, or keeps it as text where the browser cannot */
+export async function packTranscriptJSON(json: string): Promise<PackedJSON> {
+	if (typeof CompressionStream === 'undefined') return { encoding: 'compact-json', json };
+	return { encoding: 'compact-gzip', bytes: await pipeBytes(new TextEncoder().encode(json), new CompressionStream('gzip')) };
+}
+
+async function unpackJSON(packed: PackedJSON): Promise<string> {
+	if (packed.encoding === 'compact-json') return packed.json;
+	return new TextDecoder().decode(await pipeBytes(packed.bytes, new DecompressionStream('gzip')));
+}
+
+/**
+ * Reads a stored transcript back from its manifest and its parts by key, or returns a plain
+ * record saved before compact storage as it is.
+ */
+export async function unpackTranscript(
+	stored: TranscriptManifest | PersistedTranscript | undefined,
+	parts: ReadonlyMap<string, PackedJSON> = new Map()
+): Promise<PersistedTranscript | undefined> {
+	if (!stored || !('encoding' in stored)) return stored;
+	const wordArrays = await Promise.all(
+		stored.parts.map(async ({ key, firstTurn }) => {
+			const part = parts.get(key);
+			if (!part) throw new Error(`Saved transcript is missing part ${key}.`);
+			return decodeCompactWords(JSON.parse(await unpackJSON(part)), firstTurn);
+		})
+	);
+	return { wordArray: wordArrays.flat(), ...stored.meta };
+}
+
+export function storedTranscriptSize(stored: PackedJSON): number {
+	return stored.encoding === 'compact-gzip' ? stored.bytes.byteLength : stored.json.length;
+}
@@ -78,10 +78,10 @@ export class Core {
 	}
 
 	/**
-	 * Load video from a local file URL.
+	 * Load video from a local file URL. The file name is kept so project files can refer to it.
 	 */
-	prepVideoFromFile(fileLocation: string) {
-		loadVideo({ type: 'file', fileUrl: fileLocation });
+	prepVideoFromFile(fileLocation: string, fileName?: string) {
+		loadVideo({ type: 'file', fileUrl: fileLocation, fileName });
 	}
 
 	/**
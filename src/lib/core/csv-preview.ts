@@ -0,0 +1,82 @@
+/**
+ * CSV Preview - Builds the column-mapping preview shown before a CSV or spreadsheet import.
+ *
+ * A preview is rebuilt from scratch whenever its source changes (another sheet, another text
+ * encoding); only the source fields carry over from the previous preview.
+ */
+
+import Papa from 'papaparse';
+import type { CSVPreview } from '../../models/csv-preview';
+import { mapColumns, allRequiredMapped, buildFinalMapping, remapData } from './column-mapper';
+import { parseCSVRows } from './csv-txt-parser';
+import { splitIntoWords } from './string-utils';
+
+export const PREVIEW_ROW_COUNT = 10;
+
+export type CSVPreviewSource = Pick<CSVPreview, 'sheetNames' | 'selectedSheet' | 'encoding' | 'detectedEncoding'>;
+
+const emptyStats = { parseResult: null, speakerCount: 0, turnCount: 0, wordCount: 0, timingMode: null, error: null } as const;
+
+export function parseCSVText(text: string): Papa.ParseResult<Record<string, unknown>> {
+	return Papa.parse<Record<string, unknown>>(text, {
+		dynamicTyping: true,
+		skipEmptyLines: 'greedy',
+		header: true,
+		transformHeader: (h: string) => h.trim().toLowerCase()
+	});
+}
+
+/** Re-parses the mapped rows after the column mapping changes */
+export function recomputePreviewStats(preview: CSVPreview, speechRate: number): CSVPreview {
+	if (!allRequiredMapped(preview.columnMatches, preview.columnOverrides)) {
+		return { ...preview, ...emptyStats };
+	}
+	const mapping = buildFinalMapping(preview.columnMatches, preview.columnOverrides);
+	const remapped = remapData(preview.rawData, mapping);
+	const parseResult = parseCSVRows(remapped, speechRate);
+	if (parseResult.turns.length === 0) {
+		return { ...preview, ...emptyStats, error: 'No valid turns found after mapping columns.' };
+	}
+	return {
+		...preview,
+		parseResult,
+		speakerCount: parseResult.speakers.length,
+		turnCount: parseResult.turns.length,
+		wordCount: parseResult.turns.reduce((sum, t) => sum + splitIntoWords(t.content).length, 0),
+		timingMode: parseResult.detectedTimingMode ?? null,
+		error: null
+	};
+}
+
+export function createCSVPreview(
+	fileName: string,
+	results: Papa.ParseResult<Record<string, unknown>>,
+	source: CSVPreviewSource,
+	speechRate: number
+): CSVPreview {
+	const allColumns = results.meta.fields || [];
+	const rawData = results.data as Record<string, unknown>[];
+	return recomputePreviewStats(
+		{
+			...source,
+			fileName,
+			rawRows: rawData.slice(0, PREVIEW_ROW_COUNT),
+			allColumns,
+			columnMatches: mapColumns(allColumns),
+			columnOverrides: {},
+			rawData,
+			parseResult: null,
+			speakerCount: 0,
+			turnCount: 0,
+			wordCount: 0,
+			timingMode: null,
+			error: null
+		},
+		speechRate
+	);
+}
+
+/** The source fields of a preview, for rebuilding it from another sheet or encoding */
+export function getPreviewSource({ sheetNames, selectedSheet, encoding, detectedEncoding }: CSVPreview): CSVPreviewSource {
+	return { sheetNames, selectedSheet, encoding, detectedEncoding };
+}
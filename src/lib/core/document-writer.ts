@@ -0,0 +1,322 @@
+/**
+ * Document Writer - Writes the transcript as a formatted, human-readable document (.html or .docx).
+ *
+ * The document opens with the transcript statistics shown in the Data panel and a legend of
+ * the codes, followed by one paragraph per turn: optional turn number and timestamp, the
+ * speaker name in the speaker's color, and the turn's words with coded spans highlighted in a
+ * light tint of the code color. Words with several codes take the color of the first of their
+ * codes in code list order. The DOCX output is a minimal WordprocessingML package that Word,
+ * LibreOffice and Google Docs open without repair.
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+import type { Transcript } from '../../models/transcript';
+import type { User } from '../../models/user';
+import type { CodeEntry } from '../../stores/codeStore';
+import type { ZipFileInput } from './zip-utils';
+import { formatTime } from './time-utils';
+
+export type DocumentFormat = 'html' | 'docx';
+
+export interface DocumentOptions {
+	includeTimestamps: boolean;
+	includeTurnNumbers: boolean;
+	highlightCodes: boolean;
+}
+
+export const DEFAULT_DOCUMENT_OPTIONS: DocumentOptions = {
+	includeTimestamps: true,
+	includeTurnNumbers: false,
+	highlightCodes: true
+};
+
+export interface DocumentInput {
+	transcript: Transcript;
+	users: User[];
+	codes: CodeEntry[];
+	options: DocumentOptions;
+	title: string;
+}
+
+interface DocumentSegment {
+	text: string;
+	/** Codes on the segment's words, in code list order */
+	codes: string[];
+}
+
+interface DocumentTurn {
+	turnNumber: number;
+	speaker: string;
+	startTime: number;
+	segments: DocumentSegment[];
+}
+
+const FALLBACK_COLOR = '#000000';
+/** Share of the code color mixed into white for highlights, so text stays readable */
+const HIGHLIGHT_STRENGTH = 0.4;
+
+function toHex(color: string | undefined): string {
+	const hex = color?.trim().match(/^#?([0-9a-f]{3}|[0-9a-f]{6})(?:[0-9a-f]{2})?$/i)?.[1];
+	if (!hex) return FALLBACK_COLOR;
+	return `#${hex.length === 3 ? [...hex].map((c) => c + c).join('') : hex}`.toLowerCase();
+}
+
+function tint(color: string | undefined): string {
+	const hex = toHex(color);
+	const channels = [1, 3, 5].map((i) => parseInt(hex.slice(i, i + 2), 16));
+	const mixed = channels.map((c) => Math.round(255 - (255 - c) * HIGHLIGHT_STRENGTH));
+	return `#${mixed.map((c) => c.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Groups the words into turns, and each turn's words into runs that share the same codes.
+ * Only codes in `codeOrder` count; an empty order gives one plain segment per turn.
+ */
+function buildDocumentTurns(wordArray: DataPoint[], codeOrder: string[]): DocumentTurn[] {
+	const rank = new Map(codeOrder.map((code, i) => [code, i]));
+	const turns: DocumentTurn[] = [];
+	let turn: DocumentTurn | null = null;
+	let segmentKey = '';
+
+	for (const dp of wordArray) {
+		if (!turn || dp.turnNumber !== turn.turnNumber) {
+			turn = { turnNumber: dp.turnNumber, speaker: dp.speaker, startTime: dp.startTime, segments: [] };
+			turns.push(turn);
+			segmentKey = '';
+		}
+		const codes = dp.codes.filter((code) => rank.has(code)).sort((a, b) => rank.get(a)! - rank.get(b)!);
+		const key = codes.join('\u0000');
+		const last = turn.segments[turn.segments.length - 1];
+		if (last && key === segmentKey) {
+			last.text += ` ${dp.word}`;
+		} else {
+			turn.segments.push({ text: dp.word, codes });
+			segmentKey = key;
+		}
+	}
+	return turns;
+}
+
+/** The statistics the Data panel shows, as label/value pairs */
+function getDocumentStats(transcript: Transcript, speakerCount: number): { label: string; value: string }[] {
+	return [
+		{ label: 'Speakers', value: String(speakerCount) },
+		{ label: 'Total Words', value: String(transcript.totalNumOfWords) },
+		{ label: 'Total Turns', value: String(transcript.totalConversationTurns) },
+		transcript.timingMode === 'untimed'
+			? { label: 'Total Word Count', value: String(Math.round(transcript.totalTimeInSeconds)) }
+			: { label: 'Total Time', value: formatTime(transcript.totalTimeInSeconds) },
+		{ label: 'Largest Turn', value: `${transcript.largestTurnLength} words` },
+		{ label: 'Most Frequent Word', value: `"${transcript.mostFrequentWord}" (${transcript.maxCountOfMostRepeatedWord})` }
+	];
+}
+
+/** What every format needs: turns, colors, stats and the codes that actually appear */
+function prepareDocument({ transcript, users, codes, options }: DocumentInput) {
+	const speakerColors = new Map(users.map((user) => [user.name, toHex(user.color)]));
+	const highlighted = options.highlightCodes ? codes : [];
+	const turns = buildDocumentTurns(
+		transcript.wordArray,
+		highlighted.map((c) => c.code)
+	);
+	const usedCodes = new Set(turns.flatMap((turn) => turn.segments.flatMap((segment) => segment.codes)));
+	return {
+		turns,
+		speakerColors,
+		codeColors: new Map(highlighted.map((c) => [c.code, tint(c.color)])),
+		legend: highlighted.filter((c) => usedCodes.has(c.code)),
+		stats: getDocumentStats(transcript, new Set(turns.map((turn) => turn.speaker)).size),
+		showTimestamps: options.includeTimestamps && transcript.timingMode !== 'untimed'
+	};
+}
+
+// ============ HTML ============
+
+function escapeHtml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+const HTML_STYLE = `
+	body { font-family: Georgia, 'Times New Roman', serif; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; line-height: 1.6; color: #1f2937; }
+	h1 { font-size: 1.5rem; margin-bottom: 0.25rem; }
+	.meta { color: #6b7280; font-size: 0.875rem; margin-top: 0; }
+	.stats { display: grid; grid-template-columns: max-content 1fr; gap: 0.125rem 1rem; font-size: 0.875rem; }
+	.stats dt { font-weight: bold; }
+	.stats dd { margin: 0; }
+	.legend { list-style: none; padding: 0; display: flex; flex-wrap: wrap; gap: 0.5rem 1rem; font-size: 0.875rem; }
+	.legend span { display: inline-block; width: 0.9em; height: 0.9em; margin-right: 0.35em; vertical-align: -0.1em; border: 1px solid #9ca3af; }
+	.turn { margin: 0 0 0.75rem; }
+	.turn-meta { color: #6b7280; font-family: ui-monospace, monospace; font-size: 0.8rem; }
+	.speaker { font-weight: bold; }
+	mark { padding: 0 0.1em; border-radius: 2px; color: inherit; }
+	@media print { body { margin: 0; max-width: none; } }
+`;
+
+export function buildTranscriptHTML(input: DocumentInput): string {
+	const { turns, speakerColors, codeColors, legend, stats, showTimestamps } = prepareDocument(input);
+	const { includeTurnNumbers } = input.options;
+
+	const statRows = stats.map((stat) => `\t\t<dt>${escapeHtml(stat.label)}</dt><dd>${escapeHtml(stat.value)}</dd>`);
+	const legendItems = legend.map((code) => `\t\t<li><span style="background:${codeColors.get(code.code)}"></span>${escapeHtml(code.code)}</li>`);
+	const turnParagraphs = turns.map((turn) => {
+		const meta = [...(includeTurnNumbers ? [`#${turn.turnNumber}`] : []), ...(showTimestamps ? [`[${formatTime(turn.startTime)}]`] : [])];
+		const text = turn.segments
+			.map((segment) =>
+				segment.codes.length > 0
+					? `<mark style="background:${codeColors.get(segment.codes[0])}" title="${escapeHtml(segment.codes.join(', '))}">${escapeHtml(segment.text)}</mark>`
+					: escapeHtml(segment.text)
+			)
+			.join(' ');
+		return [
+			'\t<p class="turn">',
+			meta.length > 0 ? `<span class="turn-meta">${meta.join(' ')}</span> ` : '',
+			`<span class="speaker" style="color:${speakerColors.get(turn.speaker) ?? FALLBACK_COLOR}">${escapeHtml(turn.speaker)}:</span> `,
+			text,
+			'</p>'
+		].join('');
+	});
+
+	return [
+		'<!DOCTYPE html>',
+		'<html lang="en">',
+		'<head>',
+		'\t<meta charset="utf-8">',
+		`\t<title>${escapeHtml(input.title)}</title>`,
+		`\t<style>${HTML_STYLE}\t</style>`,
+		'</head>',
+		'<body>',
+		`\t<h1>${escapeHtml(input.title)}</h1>`,
+		`\t<p class="meta">Exported ${escapeHtml(new Date().toLocaleString())}</p>`,
+		'\t<dl class="stats">',
+		...statRows,
+		'\t</dl>',
+		...(legendItems.length > 0 ? ['\t<h2>Codes</h2>', '\t<ul class="legend">', ...legendItems, '\t</ul>'] : []),
+		'\t<h2>Transcript</h2>',
+		...turnParagraphs,
+		'</body>',
+		'</html>',
+		''
+	].join('\n');
+}
+
+// ============ DOCX ============
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const XML_HEADER = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>';
+
+/** Control characters other than tab and newlines are not allowed in XML and make Word reject the file */
+function isXmlChar(char: string): boolean {
+	const code = char.charCodeAt(0);
+	return code >= 0x20 || code === 0x09 || code === 0x0a || code === 0x0d;
+}
+
+function escapeXml(value: string): string {
+	return [...value].filter(isXmlChar).join('').replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+interface RunStyle {
+	bold?: boolean;
+	color?: string;
+	shading?: string;
+	size?: number;
+	mono?: boolean;
+}
+
+/** One run of text; xml:space="preserve" keeps the spaces between runs */
+function docxRun(text: string, style: RunStyle = {}): string {
+	const props = [
+		style.mono ? '<w:rFonts w:ascii="Consolas" w:hAnsi="Consolas"/>' : '',
+		style.bold ? '<w:b/>' : '',
+		style.color ? `<w:color w:val="${style.color.slice(1).toUpperCase()}"/>` : '',
+		style.size ? `<w:sz w:val="${style.size}"/>` : '',
+		style.shading ? `<w:shd w:val="clear" w:color="auto" w:fill="${style.shading.slice(1).toUpperCase()}"/>` : ''
+	].join('');
+	return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function docxParagraph(runs: string[], style?: string): string {
+	return `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}${runs.join('')}</w:p>`;
+}
+
+const DOCX_STYLES = [
+	XML_HEADER,
+	`<w:styles xmlns:w="${WORD_NAMESPACE}">`,
+	'<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/><w:sz w:val="22"/><w:szCs w:val="22"/><w:lang w:val="en-US"/></w:rPr></w:rPrDefault>',
+	'<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>',
+	'<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>',
+	'<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:rPr><w:b/><w:sz w:val="40"/></w:rPr></w:style>',
+	'<w:style w:type="paragraph" w:styleId="Heading1"><w:name w:val="heading 1"/><w:basedOn w:val="Normal"/><w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/><w:spacing w:before="240" w:after="120"/><w:outlineLvl w:val="0"/></w:pPr><w:rPr><w:b/><w:sz w:val="28"/></w:rPr></w:style>',
+	'</w:styles>'
+].join('');
+
+const DOCX_CONTENT_TYPES = [
+	XML_HEADER,
+	'<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">',
+	'<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>',
+	'<Default Extension="xml" ContentType="application/xml"/>',
+	'<Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>',
+	'<Override PartName="/word/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml"/>',
+	'</Types>'
+].join('');
+
+const DOCX_PACKAGE_RELS = [
+	XML_HEADER,
+	'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+	'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>',
+	'</Relationships>'
+].join('');
+
+const DOCX_DOCUMENT_RELS = [
+	XML_HEADER,
+	'<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">',
+	'<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles" Target="styles.xml"/>',
+	'</Relationships>'
+].join('');
+
+/** The word/document.xml part */
+export function buildDocxDocument(input: DocumentInput): string {
+	const { turns, speakerColors, codeColors, legend, stats, showTimestamps } = prepareDocument(input);
+	const { includeTurnNumbers } = input.options;
+	const grey = '#6B7280';
+
+	const body = [
+		docxParagraph([docxRun(input.title)], 'Title'),
+		docxParagraph([docxRun(`Exported ${new Date().toLocaleString()}`, { color: grey, size: 18 })]),
+		...stats.map((stat) => docxParagraph([docxRun(`${stat.label}: `, { bold: true }), docxRun(stat.value)])),
+		...(legend.length > 0
+			? [
+					docxParagraph([docxRun('Codes')], 'Heading1'),
+					...legend.map((code) => docxParagraph([docxRun('  ', { shading: codeColors.get(code.code) }), docxRun(` ${code.code}`)]))
+				]
+			: []),
+		docxParagraph([docxRun('Transcript')], 'Heading1'),
+		...turns.map((turn) => {
+			const meta = [...(includeTurnNumbers ? [`#${turn.turnNumber}`] : []), ...(showTimestamps ? [`[${formatTime(turn.startTime)}]`] : [])];
+			const words = turn.segments.flatMap((segment, i) => [
+				...(i > 0 ? [docxRun(' ')] : []),
+				docxRun(segment.text, segment.codes.length > 0 ? { shading: codeColors.get(segment.codes[0]) } : {})
+			]);
+			return docxParagraph([
+				...(meta.length > 0 ? [docxRun(`${meta.join(' ')} `, { color: grey, size: 18, mono: true })] : []),
+				docxRun(`${turn.speaker}: `, { bold: true, color: speakerColors.get(turn.speaker) ?? FALLBACK_COLOR }),
+				...words
+			]);
+		})
+	];
+
+	// US Letter with 1" margins
+	const section =
+		'<w:sectPr><w:pgSz w:w="12240" w:h="15840"/><w:pgMar w:top="1440" w:right="1440" w:bottom="1440" w:left="1440" w:header="720" w:footer="720" w:gutter="0"/></w:sectPr>';
+	return `${XML_HEADER}<w:document xmlns:w="${WORD_NAMESPACE}"><w:body>${body.join('')}${section}</w:body></w:document>`;
+}
+
+/** All parts of the .docx package, ready for createZip */
+export function buildTranscriptDocx(input: DocumentInput): ZipFileInput[] {
+	return [
+		{ name: '[Content_Types].xml', data: DOCX_CONTENT_TYPES },
+		{ name: '_rels/.rels', data: DOCX_PACKAGE_RELS },
+		{ name: 'word/_rels/document.xml.rels', data: DOCX_DOCUMENT_RELS },
+		{ name: 'word/styles.xml', data: DOCX_STYLES },
+		{ name: 'word/document.xml', data: buildDocxDocument(input) }
+	];
+}
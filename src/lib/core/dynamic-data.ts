@@ -10,6 +10,7 @@ import { clearScalingCache, clearCloudBuffer } from '../draw/contribution-cloud'
 import { registerVizCacheReset } from '../draw/viz-cache-registry';
 import { normalizeWord } from './string-utils';
 import type { NetworkData } from '../draw/turn-network';
+import { buildTransitionMatrix, type TransitionCell } from './transition-matrix';
 
 // --- Question Flow Types ---
 
@@ -38,6 +39,20 @@ export interface WordOccurrence {
 	turnContent: string;
 }
 
+// --- Turn Classification Types ---
+
+export interface TurnClassification {
+	turnNumber: number;
+	speaker: string;
+	startTime: number;
+	endTime: number;
+	wordCount: number;
+	content: string;
+	isQuestion: boolean;
+	isInterruption: boolean;
+	isConsecutive: boolean;
+}
+
 // --- Speaker Fingerprint Types ---
 
 export interface SpeakerFingerprintData {
@@ -71,62 +86,6 @@ export interface SpeakerFingerprintData {
 // Safe division helper - returns 0 when denominator is 0
 const ratio = (num: number, denom: number): number => (denom > 0 ? num / denom : 0);
 
-/**
- * Computes adjusted residuals (z-scores) for every (from, to) cell of a
- * transition matrix built as a nested Map<from, Map<to, {count}>>. Keys are
- * "from→to". See `getDynamicArrayForTurnNetwork` for the formula.
- *
- * Observed counts come from `count` on each inner map entry. Row sums, column
- * sums, and grand total are computed across the union of all speakers that
- * appear as source or target so the contingency table is square-ish.
- */
-function computeAdjustedResiduals(
-	transitions: Map<string, Map<string, { count: number; wordCount: number; turnStartPoints: DataPoint[] }>>
-): Map<string, number> {
-	const result = new Map<string, number>();
-
-	// Collect all speakers that appear on either axis.
-	const speakers = new Set<string>();
-	for (const [from, targets] of transitions) {
-		speakers.add(from);
-		for (const to of targets.keys()) speakers.add(to);
-	}
-
-	// Build observed matrix + sums.
-	const rowSum = new Map<string, number>();
-	const colSum = new Map<string, number>();
-	let grandTotal = 0;
-	for (const [from, targets] of transitions) {
-		for (const [to, entry] of targets) {
-			const count = entry.count;
-			rowSum.set(from, (rowSum.get(from) ?? 0) + count);
-			colSum.set(to, (colSum.get(to) ?? 0) + count);
-			grandTotal += count;
-		}
-	}
-
-	if (grandTotal === 0) return result;
-
-	for (const from of speakers) {
-		for (const to of speakers) {
-			const observed = transitions.get(from)?.get(to)?.count ?? 0;
-			const ri = rowSum.get(from) ?? 0;
-			const cj = colSum.get(to) ?? 0;
-			const expected = (ri * cj) / grandTotal;
-			if (expected <= 0) {
-				result.set(`${from}→${to}`, 0);
-				continue;
-			}
-			const residual = observed - expected;
-			const denom = Math.sqrt(expected * (1 - ri / grandTotal) * (1 - cj / grandTotal));
-			const z = denom > 0 ? residual / denom : 0;
-			result.set(`${from}→${to}`, z);
-		}
-	}
-
-	return result;
-}
-
 // Interrogative words for question detection
 const QUESTION_STARTERS = new Set(
 	'what who where when why how is are was were am do does did can could will would should shall may might have has had'.split(' ')
@@ -301,6 +260,45 @@ export class DynamicData {
 		return QUESTION_STARTERS.has(normalizeWord(firstWord));
 	}
 
+	/** Turns whose content contains the search term, or null when no search is active. */
+	private getSearchMatchingTurns(turnData: Map<number, TurnData>): Set<number> | null {
+		if (!config.wordToSearch) return null;
+		const searchTerm = normalizeWord(config.wordToSearch);
+		const matchingTurnNumbers = new Set<number>();
+		for (const [turnNum, turn] of turnData) {
+			if (normalizeWord(turn.content).includes(searchTerm)) {
+				matchingTurnNumbers.add(turnNum);
+			}
+		}
+		return matchingTurnNumbers;
+	}
+
+	/**
+	 * Detects interruptions (a turn starting before the previous speaker's turn ends)
+	 * and consecutive turns (same speaker twice in a row), in start-time order.
+	 */
+	private findTurnTransitions(
+		turnData: Map<number, TurnData>,
+		hasTiming: boolean
+	): { interruptingTurns: Set<number>; consecutiveTurns: Set<number> } {
+		const turnOrder = Array.from(turnData.entries())
+			.map(([turnNumber, t]) => ({ turnNumber, speaker: t.speaker, startTime: t.startTime, endTime: t.endTime }))
+			.sort((a, b) => a.startTime - b.startTime);
+
+		const interruptingTurns = new Set<number>();
+		const consecutiveTurns = new Set<number>();
+		for (let i = 1; i < turnOrder.length; i++) {
+			const prev = turnOrder[i - 1],
+				curr = turnOrder[i];
+			if (curr.speaker === prev.speaker) {
+				consecutiveTurns.add(curr.turnNumber);
+			} else if (hasTiming && curr.startTime < prev.endTime) {
+				interruptingTurns.add(curr.turnNumber);
+			}
+		}
+		return { interruptingTurns, consecutiveTurns };
+	}
+
 	private getEnabledSpeakers(): Set<string> {
 		return new Set(
 			get(UserStore)
@@ -519,6 +517,36 @@ export class DynamicData {
 		}));
 	}
 
+	/**
+	 * Visible turns of enabled speakers with the question, interruption and consecutive-turn
+	 * flags that the speaker fingerprints count. Respects the search term like the fingerprints.
+	 */
+	getTurnClassifications(): TurnClassification[] {
+		const turnData = this.buildTurnData(this.getProcessedWords(true));
+		const matchingTurnNumbers = this.getSearchMatchingTurns(turnData);
+		const enabledSpeakers = this.getEnabledSpeakers();
+		const hasTiming = get(TranscriptStore).timingMode !== 'untimed';
+		const { interruptingTurns, consecutiveTurns } = this.findTurnTransitions(turnData, hasTiming);
+
+		const turns: TurnClassification[] = [];
+		for (const [turnNumber, turn] of turnData) {
+			if (!enabledSpeakers.has(turn.speaker)) continue;
+			if (matchingTurnNumbers && !matchingTurnNumbers.has(turnNumber)) continue;
+			turns.push({
+				turnNumber,
+				speaker: turn.speaker,
+				startTime: turn.startTime,
+				endTime: turn.endTime,
+				wordCount: turn.wordCount,
+				content: turn.content,
+				isQuestion: this.isQuestionTurn(turn),
+				isInterruption: interruptingTurns.has(turnNumber),
+				isConsecutive: consecutiveTurns.has(turnNumber)
+			});
+		}
+		return turns;
+	}
+
 	getDynamicArrayForTurnNetwork(): NetworkData {
 		const words = this.getProcessedWords(true);
 
@@ -581,15 +609,22 @@ export class DynamicData {
 		const sortedStats = new Map(statsEntries);
 
 		// Lag-sequential adjusted residuals (z-scores) per transition cell, over
-		// the full pre-filter matrix. Contingency-table formula; |z|>=1.96 ~ p<0.05:
-		//   expected[i][j] = rowSum[i] * colSum[j] / grandTotal
-		//   adjRes[i][j]   = (observed - expected) /
-		//                    sqrt(expected * (1 - rowSum/grandTotal) * (1 - colSum/grandTotal))
-		const adjustedResiduals = computeAdjustedResiduals(transitions);
+		// the full pre-filter matrix (see transition-matrix.ts); |z|>=1.96 ~ p<0.05.
+		const adjustedResiduals = new Map(buildTransitionMatrix(transitions).map((cell) => [`${cell.from}→${cell.to}`, cell.z]));
 
 		return { transitions, speakerStats: sortedStats, searchMatchingTurns, turnWordCounts, adjustedResiduals };
 	}
 
+	/**
+	 * The full speaker-by-speaker transition matrix behind the turn network, with expected
+	 * counts, word-weighted counts, z-scores and p-values. Speakers follow the speaker sort
+	 * order. Like the network's residuals it ignores the search term.
+	 */
+	getTransitionMatrix(): TransitionCell[] {
+		const { transitions, speakerStats } = this.getDynamicArrayForTurnNetwork();
+		return buildTransitionMatrix(transitions, [...speakerStats.keys()]);
+	}
+
 	/**
 	 * Computes speaker fingerprint data for radar chart visualization.
 	 *
@@ -613,16 +648,7 @@ export class DynamicData {
 		const turnData = this.buildTurnData(visibleWords);
 
 		// Filter turns by search term if active
-		let matchingTurnNumbers: Set<number> | null = null;
-		if (config.wordToSearch) {
-			const searchTerm = normalizeWord(config.wordToSearch);
-			matchingTurnNumbers = new Set<number>();
-			for (const [turnNum, turn] of turnData) {
-				if (normalizeWord(turn.content).includes(searchTerm)) {
-					matchingTurnNumbers.add(turnNum);
-				}
-			}
-		}
+		const matchingTurnNumbers = this.getSearchMatchingTurns(turnData);
 
 		// Aggregate per-speaker stats from turn data
 		const speakerTurns = new Map<string, { wordCount: number; turnNumbers: Set<number> }>();
@@ -637,22 +663,7 @@ export class DynamicData {
 			data.turnNumbers.add(turnNum);
 		}
 
-		// Detect interruptions and consecutive turns
-		const turnOrder = Array.from(turnData.entries())
-			.map(([turnNumber, t]) => ({ turnNumber, speaker: t.speaker, startTime: t.startTime, endTime: t.endTime }))
-			.sort((a, b) => a.startTime - b.startTime);
-
-		const interruptingTurns = new Set<number>();
-		const consecutiveTurns = new Set<number>();
-		for (let i = 1; i < turnOrder.length; i++) {
-			const prev = turnOrder[i - 1],
-				curr = turnOrder[i];
-			if (curr.speaker === prev.speaker) {
-				consecutiveTurns.add(curr.turnNumber);
-			} else if (hasTiming && curr.startTime < prev.endTime) {
-				interruptingTurns.add(curr.turnNumber);
-			}
-		}
+		const { interruptingTurns, consecutiveTurns } = this.findTurnTransitions(turnData, hasTiming);
 
 		const totalTurns = matchingTurnNumbers ? matchingTurnNumbers.size : turnData.size;
 
@@ -0,0 +1,143 @@
+/**
+ * EAF Parser - Parses ELAN annotation documents (.eaf XML) into annotation tiers.
+ *
+ * EAF structure:
+ *   <TIME_ORDER>
+ *     <TIME_SLOT TIME_SLOT_ID="ts1" TIME_VALUE="1200"/>
+ *   </TIME_ORDER>
+ *   <TIER TIER_ID="Alice" PARTICIPANT="Alice">
+ *     <ANNOTATION>
+ *       <ALIGNABLE_ANNOTATION ANNOTATION_ID="a1" TIME_SLOT_REF1="ts1" TIME_SLOT_REF2="ts2">
+ *         <ANNOTATION_VALUE>Hello there</ANNOTATION_VALUE>
+ *       </ALIGNABLE_ANNOTATION>
+ *     </ANNOTATION>
+ *   </TIER>
+ *   <TIER TIER_ID="gesture" PARENT_REF="Alice">
+ *     <ANNOTATION><REF_ANNOTATION ANNOTATION_ID="a2" ANNOTATION_REF="a1">...</REF_ANNOTATION></ANNOTATION>
+ *   </TIER>
+ *
+ * Time values are milliseconds. Unaligned time slots (no TIME_VALUE) are interpolated
+ * from their aligned neighbours; reference annotations inherit their parent's span.
+ */
+
+import type { AnnotationTier, TierAnnotation } from './tier-utils';
+
+interface RawAnnotation {
+	id: string;
+	startSlot: string | null;
+	endSlot: string | null;
+	ref: string | null;
+	value: string;
+}
+
+/**
+ * Resolves every time slot to seconds, interpolating unaligned slots linearly
+ * between the closest aligned slots in document order.
+ */
+function resolveTimeSlots(doc: Document): Map<string, number> {
+	const slots = Array.from(doc.getElementsByTagName('TIME_SLOT')).map((el) => {
+		const raw = el.getAttribute('TIME_VALUE');
+		const ms = raw !== null && raw.trim() !== '' ? Number(raw) : NaN;
+		return { id: el.getAttribute('TIME_SLOT_ID') ?? '', time: Number.isFinite(ms) ? ms / 1000 : null };
+	});
+
+	const times = new Map<string, number>();
+	for (let i = 0; i < slots.length; i++) {
+		const slot = slots[i];
+		if (slot.time !== null) {
+			times.set(slot.id, slot.time);
+			continue;
+		}
+
+		let prevIndex = i - 1;
+		while (prevIndex >= 0 && slots[prevIndex].time === null) prevIndex--;
+		let nextIndex = i + 1;
+		while (nextIndex < slots.length && slots[nextIndex].time === null) nextIndex++;
+
+		const prevTime = prevIndex >= 0 ? slots[prevIndex].time! : 0;
+		if (nextIndex >= slots.length) {
+			times.set(slot.id, prevTime);
+		} else {
+			const nextTime = slots[nextIndex].time!;
+			const fraction = (i - prevIndex) / (nextIndex - prevIndex);
+			times.set(slot.id, prevTime + (nextTime - prevTime) * fraction);
+		}
+	}
+	return times;
+}
+
+function readAnnotation(annotationEl: Element): RawAnnotation | null {
+	const inner = Array.from(annotationEl.childNodes).find((node): node is Element => node.nodeType === 1);
+	if (!inner) return null;
+
+	const value = inner.getElementsByTagName('ANNOTATION_VALUE')[0]?.textContent ?? '';
+	const id = inner.getAttribute('ANNOTATION_ID') ?? '';
+
+	if (inner.tagName === 'ALIGNABLE_ANNOTATION') {
+		return { id, startSlot: inner.getAttribute('TIME_SLOT_REF1'), endSlot: inner.getAttribute('TIME_SLOT_REF2'), ref: null, value };
+	}
+	if (inner.tagName === 'REF_ANNOTATION') {
+		return { id, startSlot: null, endSlot: null, ref: inner.getAttribute('ANNOTATION_REF'), value };
+	}
+	return null;
+}
+
+/**
+ * Parses EAF XML text into tiers with resolved start/end times (seconds).
+ * Throws if the text is not a well-formed ELAN document.
+ */
+export function parseEAFText(text: string): AnnotationTier[] {
+	const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.tagName !== 'ANNOTATION_DOCUMENT') {
+		throw new Error('Invalid ELAN file: expected an ANNOTATION_DOCUMENT XML root.');
+	}
+
+	const slotTimes = resolveTimeSlots(doc);
+	const tierElements = Array.from(doc.getElementsByTagName('TIER'));
+
+	// First pass: collect raw annotations so reference annotations can resolve across tiers
+	const rawByTier = new Map<Element, RawAnnotation[]>();
+	const rawById = new Map<string, RawAnnotation>();
+	for (const tierEl of tierElements) {
+		const raws: RawAnnotation[] = [];
+		for (const annotationEl of Array.from(tierEl.getElementsByTagName('ANNOTATION'))) {
+			const raw = readAnnotation(annotationEl);
+			if (!raw) continue;
+			raws.push(raw);
+			rawById.set(raw.id, raw);
+		}
+		rawByTier.set(tierEl, raws);
+	}
+
+	const resolveSpan = (raw: RawAnnotation, depth = 0): { start: number; end: number } | null => {
+		if (raw.ref !== null) {
+			const parent = rawById.get(raw.ref);
+			// Depth guard protects against malformed circular references
+			return parent && depth < 32 ? resolveSpan(parent, depth + 1) : null;
+		}
+		const start = raw.startSlot !== null ? slotTimes.get(raw.startSlot) : undefined;
+		const end = raw.endSlot !== null ? slotTimes.get(raw.endSlot) : undefined;
+		if (start === undefined || end === undefined) return null;
+		return { start, end: Math.max(start, end) };
+	};
+
+	return tierElements.map((tierEl) => {
+		const id = tierEl.getAttribute('TIER_ID') ?? '';
+		const participant = tierEl.getAttribute('PARTICIPANT')?.trim();
+
+		const annotations: TierAnnotation[] = [];
+		for (const raw of rawByTier.get(tierEl) ?? []) {
+			const span = resolveSpan(raw);
+			if (!span) continue;
+			annotations.push({ startTime: span.start, endTime: span.end, value: raw.value });
+		}
+		annotations.sort((a, b) => a.startTime - b.startTime);
+
+		return {
+			id,
+			speaker: participant || id,
+			parentId: tierEl.getAttribute('PARENT_REF'),
+			annotations
+		};
+	});
+}
@@ -1,9 +1,29 @@
 import Papa from 'papaparse';
 import { get } from 'svelte/store';
 import TranscriptStore from '../../stores/transcriptStore';
+import P5Store, { getDynamicData } from '../../stores/p5Store';
+import VideoStore from '../../stores/videoStore';
+import UserStore from '../../stores/userStore';
+import AppSettingsStore from '../../stores/appSettingsStore';
 import { getTurnsFromWordArray } from './turn-utils';
 import { formatTime } from './time-utils';
 import { toast } from '../../stores/toastStore';
+import CodeStore from '../../stores/codeStore';
+import { buildQDPX, buildQDC } from './refi-qda';
+import { splitSessions } from './session-utils';
+import { createZip } from './zip-utils';
+import { buildCodeExportTable, type CodeExportLayout } from './code-utils';
+import { buildSubtitles, DEFAULT_SUBTITLE_OPTIONS, type SubtitleFormat } from './subtitle-writer';
+import { buildExportTiers, buildEAF, buildTextGrid } from './tier-writer';
+import { renderFigure, type FigureOptions } from '../draw/figure-export';
+import { renderAnimation, type AnimationOptions } from '../draw/animation-export';
+import { buildProjectFile, PROJECT_FILE_EXTENSION } from './project-file';
+import { buildTidyWordTable, buildTidyTurnTable, buildTidySpeakerTable, type TidyTable } from './tidy-export';
+import { buildTransitionTable } from './transition-matrix';
+import { buildTranscriptHTML, buildTranscriptDocx, type DocumentFormat, type DocumentOptions } from './document-writer';
+import VizStore from '../../stores/vizStore';
+import type { DataPoint } from '../../models/dataPoint';
+import type { TimingMode } from '../../models/transcript';
 
 /**
  * Exports the current transcript to a CSV file and triggers download.
@@ -17,8 +37,251 @@ export function exportTranscriptToCSV(): void {
 		return;
 	}
 
-	const turns = getTurnsFromWordArray(transcript.wordArray);
-	const { timingMode } = transcript;
+	const csv = buildTranscriptCSV(transcript.wordArray, transcript.timingMode);
+	const filename = generateFilename('transcript-export', 'csv');
+	downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), filename);
+	toast.success('Transcript exported successfully.');
+}
+
+/**
+ * Saves the transcript, speakers, codes, settings, dashboard layout, timeline selection and
+ * video reference as a project file and triggers download.
+ */
+export function exportProjectFile(): void {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to save.');
+		return;
+	}
+
+	const json = JSON.stringify(buildProjectFile(), null, 2);
+	downloadBlob(new Blob([json], { type: 'application/json;charset=utf-8;' }), generateFilename('transcript-project', PROJECT_FILE_EXTENSION));
+	toast.success('Project saved.');
+}
+
+/**
+ * Downloads saved data that could not be opened exactly as it was read, so it can be
+ * repaired by hand or sent with a bug report.
+ */
+export function exportRawProjectData(data: unknown): void {
+	const json = typeof data === 'string' ? data : JSON.stringify(data, null, 2);
+	downloadBlob(new Blob([json ?? ''], { type: 'application/json;charset=utf-8;' }), generateFilename('transcript-recovery', 'json'));
+}
+
+/**
+ * Exports the current transcript as SRT or VTT subtitles with speaker labels and triggers download.
+ * Untimed transcripts get times estimated from the speech rate setting.
+ */
+export function exportTranscriptToSubtitles(format: SubtitleFormat): void {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to export.');
+		return;
+	}
+
+	const text = buildSubtitles(transcript.wordArray, transcript.timingMode, format, {
+		...DEFAULT_SUBTITLE_OPTIONS,
+		speechRateWordsPerSecond: get(AppSettingsStore).speechRateWordsPerSecond
+	});
+	const type = format === 'vtt' ? 'text/vtt;charset=utf-8;' : 'application/x-subrip;charset=utf-8;';
+	downloadBlob(new Blob([text], { type }), generateFilename('transcript-subtitles', format));
+	toast.success(
+		transcript.timingMode === 'untimed' ? 'Subtitles exported with times estimated from the speech rate.' : 'Subtitles exported successfully.'
+	);
+}
+
+/**
+ * Exports the current transcript as annotation tiers for ELAN (.eaf) or Praat (.TextGrid):
+ * one tier per speaker and one per code. Untimed transcripts get times estimated from the speech rate.
+ */
+export function exportTranscriptToTiers(format: 'eaf' | 'textgrid'): void {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to export.');
+		return;
+	}
+
+	const tiers = buildExportTiers(
+		transcript.wordArray,
+		transcript.timingMode,
+		get(UserStore),
+		get(CodeStore).map((c) => c.code),
+		get(AppSettingsStore).speechRateWordsPerSecond
+	);
+	const blob =
+		format === 'eaf'
+			? new Blob([buildEAF(tiers)], { type: 'application/xml;charset=utf-8;' })
+			: new Blob([buildTextGrid(tiers)], { type: 'text/plain;charset=utf-8;' });
+	downloadBlob(blob, generateFilename('transcript-tiers', format === 'eaf' ? 'eaf' : 'TextGrid'));
+	toast.success(transcript.timingMode === 'untimed' ? 'Tiers exported with times estimated from the speech rate.' : 'Tiers exported successfully.');
+}
+
+/**
+ * Exports the visualization on the canvas (or the dashboard) as an SVG or PNG figure and triggers download.
+ */
+export async function exportFigure(options: FigureOptions): Promise<void> {
+	const sk = get(P5Store);
+	const transcript = get(TranscriptStore);
+
+	if (!sk || !transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No visualization to export.');
+		return;
+	}
+
+	try {
+		const blob = await renderFigure(sk, options);
+		downloadBlob(blob, generateFilename('figure', options.format));
+		toast.success('Figure exported successfully.');
+	} catch (err) {
+		toast.error(err instanceof Error ? err.message : 'Failed to export figure.');
+	}
+}
+
+/**
+ * Exports playback of the timeline's selected range as a WebM video and triggers download.
+ * Frames are rendered one at a time, so the export does not depend on playback speed.
+ */
+export async function exportAnimation(options: AnimationOptions, onProgress: (fraction: number) => void, signal?: AbortSignal): Promise<void> {
+	const sk = get(P5Store);
+	const transcript = get(TranscriptStore);
+
+	if (!sk || !transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No visualization to export.');
+		return;
+	}
+
+	try {
+		const blob = await renderAnimation(sk, options, get(VideoStore), transcript.timingMode, onProgress, signal);
+		downloadBlob(blob, generateFilename('animation', 'webm'));
+		toast.success('Animation exported successfully.');
+	} catch (err) {
+		if (err instanceof DOMException && err.name === 'AbortError') {
+			toast.info('Animation export cancelled.');
+			return;
+		}
+		toast.error(err instanceof Error ? err.message : 'Failed to export animation.');
+	}
+}
+
+/**
+ * Exports the processed data as tidy word, turn and speaker tables bundled in a ZIP archive.
+ * Tables come from the same filtered data the visualizations draw, so counts match the canvas.
+ */
+export async function exportTidyData(): Promise<void> {
+	const dynamicData = getDynamicData();
+	const transcript = get(TranscriptStore);
+
+	if (!dynamicData || !transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to export.');
+		return;
+	}
+
+	const turns = dynamicData.getTurnClassifications();
+	if (turns.length === 0) {
+		toast.warning('No words match the current filters and selection.');
+		return;
+	}
+	const turnNumbers = new Set(turns.map((turn) => turn.turnNumber));
+	const words = dynamicData.getProcessedWords(true).filter((dp) => turnNumbers.has(dp.turnNumber));
+	const timed = transcript.timingMode !== 'untimed';
+
+	const tables: [string, TidyTable][] = [
+		['words.csv', buildTidyWordTable(words, timed, (word) => dynamicData.isStopWord(word))],
+		['turns.csv', buildTidyTurnTable(turns, words, timed)],
+		['speakers.csv', buildTidySpeakerTable(dynamicData.getSpeakerFingerprints(get(VizStore).scaleToVisibleData))]
+	];
+	const files = tables.map(([name, { columns, rows }]) => ({ name, data: Papa.unparse(rows, { header: true, columns }) }));
+
+	try {
+		downloadBlob(await createZip(files), generateFilename('transcript-tidy', 'zip'));
+		toast.success(`Exported ${words.length} words, ${turns.length} turns and ${tables[2][1].rows.length} speakers.`);
+	} catch (err) {
+		toast.error(err instanceof Error ? err.message : 'Failed to export tidy data.');
+	}
+}
+
+/**
+ * Exports the turn network's speaker-by-speaker transition matrix with expected counts,
+ * word-weighted counts, adjusted residuals and p-values as CSV and triggers download.
+ */
+export function exportTransitionMatrix(): void {
+	const cells = getDynamicData()?.getTransitionMatrix() ?? [];
+
+	if (cells.length === 0) {
+		toast.warning('No speaker transitions to export.');
+		return;
+	}
+
+	const { columns, rows } = buildTransitionTable(cells);
+	const csv = Papa.unparse(rows, { header: true, columns });
+	downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), generateFilename('transition-matrix', 'csv'));
+	toast.success(`Exported ${rows.length} transition cells.`);
+}
+
+const DOCX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.wordprocessingml.document';
+
+/**
+ * Exports the transcript as a formatted document (.html or .docx) with speaker colors,
+ * highlighted codes, a code legend and the transcript statistics, and triggers download.
+ */
+export async function exportTranscriptDocument(format: DocumentFormat, options: DocumentOptions): Promise<void> {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to export.');
+		return;
+	}
+
+	const input = { transcript, users: get(UserStore), codes: get(CodeStore), options, title: 'Transcript' };
+	try {
+		const blob =
+			format === 'html'
+				? new Blob([buildTranscriptHTML(input)], { type: 'text/html;charset=utf-8;' })
+				: new Blob([await createZip(buildTranscriptDocx(input))], { type: DOCX_MIME_TYPE });
+		downloadBlob(blob, generateFilename('transcript-document', format));
+		toast.success('Document exported successfully.');
+	} catch (err) {
+		toast.error(err instanceof Error ? err.message : 'Failed to export document.');
+	}
+}
+
+/**
+ * Exports each session of a combined multi-session transcript as its own CSV, with the
+ * session's original times, bundled in a ZIP archive.
+ */
+export async function exportSessionsToCSV(): Promise<void> {
+	const transcript = get(TranscriptStore);
+
+	if (transcript.sessions.length < 2) {
+		toast.warning('This transcript has no sessions to split.');
+		return;
+	}
+
+	const usedNames = new Set<string>();
+	const files = splitSessions(transcript).map(({ label, wordArray }) => {
+		const base = label.replace(/[\\/:*?"<>|]/g, '_') || 'session';
+		let name = `${base}.csv`;
+		for (let n = 2; usedNames.has(name); n++) name = `${base} (${n}).csv`;
+		usedNames.add(name);
+		return { name, data: buildTranscriptCSV(wordArray, transcript.timingMode) };
+	});
+
+	try {
+		downloadBlob(await createZip(files), generateFilename('transcript-sessions', 'zip'));
+		toast.success(`Exported ${files.length} sessions.`);
+	} catch (err) {
+		toast.error(err instanceof Error ? err.message : 'Failed to export sessions.');
+	}
+}
+
+/**
+ * Builds transcript CSV text, one row per turn.
+ */
+function buildTranscriptCSV(wordArray: DataPoint[], timingMode: TimingMode): string {
+	const turns = getTurnsFromWordArray(wordArray);
 	const includeStart = timingMode !== 'untimed';
 	const includeEnd = timingMode === 'startEnd';
 
@@ -31,27 +294,88 @@ export function exportTranscriptToCSV(): void {
 
 	const columns = ['speaker', 'content', ...(includeStart ? ['start'] : []), ...(includeEnd ? ['end'] : [])];
 
-	const csv = Papa.unparse(csvData, { header: true, columns });
-	const filename = generateFilename();
-	downloadCSV(csv, filename);
-	toast.success('Transcript exported successfully.');
+	return Papa.unparse(csvData, { header: true, columns });
+}
+
+/**
+ * Exports the transcript, code list and coded word spans as a REFI-QDA project (.qdpx)
+ * for ATLAS.ti, NVivo, MAXQDA and other QDA tools.
+ */
+export async function exportCodesToQDPX(): Promise<void> {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray || transcript.wordArray.length === 0) {
+		toast.warning('No transcript data to export.');
+		return;
+	}
+
+	try {
+		const filename = generateFilename('transcript-project', 'qdpx');
+		const blob = await buildQDPX(transcript, get(CodeStore), filename.replace(/\.qdpx$/, ''));
+		downloadBlob(blob, filename);
+		toast.success('Project exported successfully.');
+	} catch (err) {
+		toast.error(err instanceof Error ? err.message : 'Failed to export project.');
+	}
+}
+
+/**
+ * Exports the code list with colors as a REFI-QDA codebook (.qdc).
+ */
+export function exportCodebookToQDC(): void {
+	const codes = get(CodeStore);
+
+	if (codes.length === 0) {
+		toast.warning('No codes to export.');
+		return;
+	}
+
+	downloadBlob(new Blob([buildQDC(codes)], { type: 'application/xml;charset=utf-8;' }), generateFilename('codebook', 'qdc'));
+	toast.success('Codebook exported successfully.');
+}
+
+const CODE_EXPORT_PREFIXES: Record<CodeExportLayout, string> = {
+	turn: 'codes-by-turn',
+	'turn-range': 'codes-by-turn-range',
+	time: 'codes-by-time'
+};
+
+/**
+ * Exports the codes on the transcript's words as a code file that can be loaded again:
+ * one row per turn (turn, code), per run of turns (turn_start, turn_end, code) or per time span (start, end, code).
+ */
+export function exportCodesToCSV(layout: CodeExportLayout): void {
+	const transcript = get(TranscriptStore);
+
+	if (!transcript.wordArray.some((dp) => dp.codes.length > 0)) {
+		toast.warning('No coded words to export.');
+		return;
+	}
+	if (layout === 'time' && transcript.timingMode === 'untimed') {
+		toast.warning('Time-based code export requires a timed transcript. Export by turn instead.');
+		return;
+	}
+
+	const { columns, rows } = buildCodeExportTable(transcript.wordArray, layout);
+	const csv = Papa.unparse(rows, { header: true, columns });
+	downloadBlob(new Blob([csv], { type: 'text/csv;charset=utf-8;' }), generateFilename(CODE_EXPORT_PREFIXES[layout], 'csv'));
+	toast.success(`Exported ${rows.length} code rows.`);
 }
 
 /**
- * Generates a filename for the exported CSV.
+ * Generates a timestamped filename for an export.
  */
-function generateFilename(): string {
+function generateFilename(prefix: string, extension: string): string {
 	const date = new Date();
 	const dateStr = date.toISOString().split('T')[0];
 	const timeStr = date.toTimeString().split(' ')[0].replace(/:/g, '-');
-	return `transcript-export-${dateStr}-${timeStr}.csv`;
+	return `${prefix}-${dateStr}-${timeStr}.${extension}`;
 }
 
 /**
- * Triggers a download of the CSV content.
+ * Triggers a download of the file content.
  */
-function downloadCSV(csv: string, filename: string): void {
-	const blob = new Blob([csv], { type: 'text/csv;charset=utf-8;' });
+function downloadBlob(blob: Blob, filename: string): void {
 	const link = document.createElement('a');
 	const url = URL.createObjectURL(blob);
 
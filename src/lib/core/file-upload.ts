@@ -2,6 +2,8 @@
  * File Upload Utilities
  */
 
+import type { TextEncodingName } from './text-encoding';
+
 export type FileStatus = 'pending' | 'processing' | 'done' | 'error';
 
 export interface UploadedFile {
@@ -9,6 +11,10 @@ export interface UploadedFile {
 	type: string;
 	status: FileStatus;
 	error?: string;
+	file: File;
+	/** Encoding the file was read with, for transcripts read as text */
+	encoding?: TextEncodingName;
+	detectedEncoding?: TextEncodingName;
 }
 
 const FILE_TYPE_LABELS: Record<string, string> = {
@@ -16,7 +22,16 @@ const FILE_TYPE_LABELS: Record<string, string> = {
 	txt: 'Transcript (TXT)',
 	mp4: 'Video (MP4)',
 	srt: 'Subtitle (SRT)',
-	vtt: 'Subtitle (VTT)'
+	vtt: 'Subtitle (VTT)',
+	eaf: 'Transcript (ELAN)',
+	textgrid: 'Transcript (TextGrid)',
+	cha: 'Transcript (CHAT)',
+	json: 'Transcript (JSON)',
+	xlsx: 'Transcript (Excel)',
+	ods: 'Transcript (ODS)',
+	qdpx: 'Project (REFI-QDA)',
+	qdc: 'Codebook (REFI-QDA)',
+	tep: 'Project (Transcript Explorer)'
 };
 
 function getExtension(fileName: string): string {
@@ -45,6 +60,7 @@ export function createUploadEntries(files: File[]): UploadedFile[] {
 	return files.map((f) => ({
 		name: f.name,
 		type: getFileTypeLabel(f.name),
-		status: 'pending' as const
+		status: 'pending' as const,
+		file: f
 	}));
 }
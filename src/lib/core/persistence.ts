@@ -1,17 +1,39 @@
+/**
+ * Persistence - Autosaves the working transcript into the project library and serializes
+ * transcripts and speakers to plain JSON for the library and project files.
+ *
+ * Every loaded transcript becomes a library project. Loading new data detaches the active
+ * project (clearState), and the next autosave creates a new one under the name given by
+ * nameActiveProject. Earlier versions kept a single autosave in localStorage; it is moved
+ * into the library once by migrateLegacyAutosave. After each save the storage estimate is
+ * checked so the user is warned, while saving still works, that space is running out.
+ * Saves are announced to other tabs, and pause while another tab has the project (tab-sync.ts).
+ */
+
 import { browser } from '$app/environment';
 import { get } from 'svelte/store';
 import { DataPoint } from '../../models/dataPoint';
-import { Transcript, type TimingMode } from '../../models/transcript';
+import { Transcript, type TimingMode, type TranscriptSession } from '../../models/transcript';
 import type { User } from '../../models/user';
 import TranscriptStore from '../../stores/transcriptStore';
-import UserStore from '../../stores/userStore';
-import CodeStore, { type CodeEntry } from '../../stores/codeStore';
-import FiltersStore from '../../stores/filtersStore';
+import { activeProject, projectConflict } from '../../stores/projectLibraryStore';
 import { autosaveStatus } from '../../stores/autosaveStore';
+import { pushToast } from '../../stores/toastStore';
+import { buildProjectFile, normalizeProjectFile } from './project-file';
+import { ProjectDataError } from './project-schema';
+import { isLibraryAvailable, saveProject, renameProject, estimateStorage } from './project-library';
+import { formatBytes } from './string-utils';
+import { announceSave, claimProject, maySaveProject, noteProjectEdit, projectOpened } from './tab-sync';
 
-const STORAGE_KEY = 'transcript-explorer-autosave';
+/** Where earlier versions kept the single autosave and the recents labels */
+const LEGACY_STORAGE_KEY = 'transcript-explorer-autosave';
+const LEGACY_RECENTS_KEY = 'te:recents';
+const DEFAULT_PROJECT_NAME = 'Untitled transcript';
+/** Storage counts as low when it is this full, or when fewer than LOW_SPACE_SAVES more copies of the project would fit */
+const LOW_SPACE_FRACTION = 0.9;
+const LOW_SPACE_SAVES = 5;
 
-interface PersistedDataPoint {
+export interface PersistedDataPoint {
 	speaker: string;
 	turnNumber: number;
 	startTime: number;
@@ -21,7 +43,7 @@ interface PersistedDataPoint {
 	codes?: string[];
 }
 
-interface PersistedTranscript {
+export interface PersistedTranscript {
 	wordArray: PersistedDataPoint[];
 	totalTimeInSeconds: number;
 	totalConversationTurns: number;
@@ -32,84 +54,148 @@ interface PersistedTranscript {
 	maxCountOfMostRepeatedWord: number;
 	mostFrequentWord: string;
 	timingMode: TimingMode;
+	sessions?: TranscriptSession[];
+	startDate?: string;
 }
 
-interface PersistedUser {
+export interface PersistedUser {
 	enabled: boolean;
 	name: string;
 	color: string;
 }
 
-interface PersistedState {
-	transcript: PersistedTranscript;
-	users: PersistedUser[];
-	codes?: CodeEntry[];
-	codeColorMode?: boolean;
-	showUncoded?: boolean;
-	savedAt: number;
+export function serializeWordArray(wordArray: DataPoint[]): PersistedDataPoint[] {
+	return wordArray.map((dp) => ({
+		speaker: dp.speaker,
+		turnNumber: dp.turnNumber,
+		startTime: dp.startTime,
+		endTime: dp.endTime,
+		word: dp.word,
+		count: dp.count,
+		codes: dp.codes.length > 0 ? dp.codes : undefined
+	}));
 }
 
-let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+export function deserializeWordArray(persisted: PersistedDataPoint[]): DataPoint[] {
+	return persisted.map((dp) => {
+		const dataPoint = new DataPoint(dp.speaker, dp.turnNumber, dp.word, dp.startTime, dp.endTime);
+		dataPoint.count = dp.count;
+		dataPoint.codes = Array.isArray(dp.codes) ? dp.codes : [];
+		return dataPoint;
+	});
+}
+
+/** Plain-JSON form of a transcript, shared by autosave and project files */
+export function serializeTranscript(transcript: Transcript): PersistedTranscript {
+	return {
+		wordArray: serializeWordArray(transcript.wordArray),
+		totalTimeInSeconds: transcript.totalTimeInSeconds,
+		totalConversationTurns: transcript.totalConversationTurns,
+		totalNumOfWords: transcript.totalNumOfWords,
+		largestTurnLength: transcript.largestTurnLength,
+		largestNumOfWordsByASpeaker: transcript.largestNumOfWordsByASpeaker,
+		largestNumOfTurnsByASpeaker: transcript.largestNumOfTurnsByASpeaker,
+		maxCountOfMostRepeatedWord: transcript.maxCountOfMostRepeatedWord,
+		mostFrequentWord: transcript.mostFrequentWord,
+		timingMode: transcript.timingMode,
+		sessions: transcript.sessions.length > 0 ? transcript.sessions : undefined,
+		startDate: transcript.startDate ?? undefined
+	};
+}
+
+export function deserializeTranscript(persisted: PersistedTranscript): Transcript {
+	const transcript = new Transcript();
+	transcript.wordArray = deserializeWordArray(persisted.wordArray);
+	transcript.totalTimeInSeconds = persisted.totalTimeInSeconds;
+	transcript.totalConversationTurns = persisted.totalConversationTurns;
+	transcript.totalNumOfWords = persisted.totalNumOfWords;
+	transcript.largestTurnLength = persisted.largestTurnLength;
+	transcript.largestNumOfWordsByASpeaker = persisted.largestNumOfWordsByASpeaker;
+	transcript.largestNumOfTurnsByASpeaker = persisted.largestNumOfTurnsByASpeaker;
+	transcript.maxCountOfMostRepeatedWord = persisted.maxCountOfMostRepeatedWord;
+	transcript.mostFrequentWord = persisted.mostFrequentWord;
+	transcript.timingMode = persisted.timingMode;
+	transcript.sessions = Array.isArray(persisted.sessions) ? persisted.sessions : [];
+	transcript.startDate = typeof persisted.startDate === 'string' ? persisted.startDate : null;
+	return transcript;
+}
 
-export function saveState(): void {
-	if (!browser) return;
+export function serializeUsers(users: User[]): PersistedUser[] {
+	return users.map((u) => ({
+		enabled: u.enabled,
+		name: u.name,
+		color: u.color
+	}));
+}
 
-	const transcript = get(TranscriptStore);
-	const users = get(UserStore);
-	const codes = get(CodeStore);
-	const config = get(FiltersStore);
+export function deserializeUsers(persisted: PersistedUser[]): User[] {
+	return persisted.map((u) => ({ name: u.name, color: u.color, enabled: u.enabled }));
+}
 
-	if (transcript.wordArray.length === 0) {
-		return;
-	}
+let debounceTimer: ReturnType<typeof setTimeout> | null = null;
+/** Saves run one at a time so the first save of a new transcript creates only one project */
+let saveQueue: Promise<void> = Promise.resolve();
+/** Bumped by clearState so a save still in flight does not re-attach the old project */
+let generation = 0;
+/** Warn about low storage once, until space frees up again */
+let lowSpaceWarned = false;
 
-	// Mark the autosave indicator as in-flight. JSON stringify + a
-	// localStorage write are synchronous, but we still flip through
-	// 'saving' so users see the state transition even on fast writes.
-	autosaveStatus.saving();
+function isQuotaError(e: unknown): boolean {
+	return e instanceof DOMException && (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED');
+}
 
-	const state: PersistedState = {
-		transcript: {
-			wordArray: transcript.wordArray.map((dp) => ({
-				speaker: dp.speaker,
-				turnNumber: dp.turnNumber,
-				startTime: dp.startTime,
-				endTime: dp.endTime,
-				word: dp.word,
-				count: dp.count,
-				codes: dp.codes.length > 0 ? dp.codes : undefined
-			})),
-			totalTimeInSeconds: transcript.totalTimeInSeconds,
-			totalConversationTurns: transcript.totalConversationTurns,
-			totalNumOfWords: transcript.totalNumOfWords,
-			largestTurnLength: transcript.largestTurnLength,
-			largestNumOfWordsByASpeaker: transcript.largestNumOfWordsByASpeaker,
-			largestNumOfTurnsByASpeaker: transcript.largestNumOfTurnsByASpeaker,
-			maxCountOfMostRepeatedWord: transcript.maxCountOfMostRepeatedWord,
-			mostFrequentWord: transcript.mostFrequentWord,
-			timingMode: transcript.timingMode
-		},
-		users: users.map((u) => ({
-			enabled: u.enabled,
-			name: u.name,
-			color: u.color
-		})),
-		codes: codes.length > 0 ? codes : undefined,
-		codeColorMode: config.codeColorMode || undefined,
-		showUncoded: config.showUncoded === false ? false : undefined,
-		savedAt: Date.now()
-	};
+/** Warns before storage runs out, while autosave still works and a project file can be saved */
+async function checkStorageSpace(projectBytes: number): Promise<void> {
+	const space = await estimateStorage();
+	if (!space) return;
+	const remaining = space.quota - space.usage;
+	const isLow = space.usage / space.quota > LOW_SPACE_FRACTION || remaining < projectBytes * LOW_SPACE_SAVES;
+	if (isLow && !lowSpaceWarned) {
+		pushToast(
+			`Browser storage is almost full (${formatBytes(remaining)} left). Save a project file to keep a copy, and delete projects you no longer need from the library.`,
+			'warning',
+			0
+		);
+	}
+	lowSpaceWarned = isLow;
+}
+
+async function writeActiveProject(): Promise<void> {
+	const { id, name } = get(activeProject);
+	// Unedited here, or another tab has the project; saving now would overwrite its changes
+	if (get(TranscriptStore).wordArray.length === 0 || !maySaveProject(id)) return;
 
+	autosaveStatus.saving();
+	const startGeneration = generation;
 	try {
-		localStorage.setItem(STORAGE_KEY, JSON.stringify(state));
+		const summary = await saveProject(id, name || DEFAULT_PROJECT_NAME, buildProjectFile());
+		if (generation === startGeneration) {
+			activeProject.set({ id: summary.id, name: summary.name });
+			// A project this tab just created is the one it edits
+			if (id === null) claimProject(summary.id);
+		}
+		announceSave(summary.id);
 		autosaveStatus.saved();
+		await checkStorageSpace(summary.storedBytes ?? 0);
 	} catch (e) {
-		console.error('Failed to save state to localStorage:', e);
+		console.error('Failed to save project to the library:', e);
 		autosaveStatus.error();
+		if (isQuotaError(e)) {
+			pushToast('Browser storage is full, so autosave stopped. Save a project file now, then free space in the project library.', 'error', 0);
+		}
 	}
 }
 
+export function saveState(): Promise<void> {
+	if (!browser || !isLibraryAvailable()) return Promise.resolve();
+	saveQueue = saveQueue.then(writeActiveProject);
+	return saveQueue;
+}
+
+/** Saves after an edit, once edits pause for a moment */
 export function saveStateDebounced(): void {
+	const { id } = get(activeProject);
+	if (id) noteProjectEdit(id);
 	if (debounceTimer) {
 		clearTimeout(debounceTimer);
 	}
@@ -127,65 +213,87 @@ export function saveStateImmediate(): void {
 	saveState();
 }
 
-export function loadState(): PersistedState | null {
-	if (!browser) return null;
-
-	try {
-		const stored = localStorage.getItem(STORAGE_KEY);
-		if (!stored) return null;
-		return JSON.parse(stored) as PersistedState;
-	} catch (e) {
-		console.error('Failed to load state from localStorage:', e);
-		return null;
+/**
+ * Detaches autosave from the active project before new data is loaded, so the new
+ * transcript is saved as a new project instead of overwriting the previous one.
+ */
+export function clearState(): void {
+	if (debounceTimer) {
+		clearTimeout(debounceTimer);
+		debounceTimer = null;
 	}
+	generation++;
+	activeProject.set({ id: null, name: '' });
+	projectConflict.set(null);
 }
 
-export function restoreState(): boolean {
-	const state = loadState();
-	if (!state) return false;
+/** Names the active project (e.g. after the file name or example it was loaded from) */
+export function nameActiveProject(name: string): void {
+	const { id } = get(activeProject);
+	activeProject.set({ id, name });
+	if (id) renameProject(id, name).catch((e) => console.error('Failed to rename project:', e));
+}
 
-	const transcript = new Transcript();
-	transcript.wordArray = state.transcript.wordArray.map((dp) => {
-		const dataPoint = new DataPoint(dp.speaker, dp.turnNumber, dp.word, dp.startTime, dp.endTime);
-		dataPoint.count = dp.count;
-		dataPoint.codes = Array.isArray(dp.codes) ? dp.codes : [];
-		return dataPoint;
-	});
-	transcript.totalTimeInSeconds = state.transcript.totalTimeInSeconds;
-	transcript.totalConversationTurns = state.transcript.totalConversationTurns;
-	transcript.totalNumOfWords = state.transcript.totalNumOfWords;
-	transcript.largestTurnLength = state.transcript.largestTurnLength;
-	transcript.largestNumOfWordsByASpeaker = state.transcript.largestNumOfWordsByASpeaker;
-	transcript.largestNumOfTurnsByASpeaker = state.transcript.largestNumOfTurnsByASpeaker;
-	transcript.maxCountOfMostRepeatedWord = state.transcript.maxCountOfMostRepeatedWord;
-	transcript.mostFrequentWord = state.transcript.mostFrequentWord;
-	transcript.timingMode = state.transcript.timingMode;
-
-	const users: User[] = state.users.map((u) => ({ name: u.name, color: u.color, enabled: u.enabled }));
-
-	TranscriptStore.set(transcript);
-	UserStore.set(users);
-
-	if (state.codes && state.codes.length > 0) {
-		CodeStore.set(state.codes);
-		FiltersStore.update((c) => ({ ...c, codeColorMode: state.codeColorMode ?? false, showUncoded: state.showUncoded ?? true }));
-	}
+/** Makes a project opened from the library the one autosave writes to */
+export function attachProject(id: string, name: string): void {
+	clearState();
+	activeProject.set({ id, name });
+	projectOpened(id);
+}
 
-	return true;
+/**
+ * Settles a conflict with another tab by keeping this tab's data as a new project, named
+ * "<name> (copy)", and leaving the shared project to the other tab.
+ */
+export function keepProjectAsCopy(): Promise<void> {
+	const { name } = get(activeProject);
+	clearState();
+	activeProject.set({ id: null, name: `${name || DEFAULT_PROJECT_NAME} (copy)` });
+	return saveState();
 }
 
-export function clearState(): void {
-	if (!browser) return;
+/**
+ * Moves the single localStorage autosave of earlier versions into the project library,
+ * named after the last entry of the old recents list. It goes through the same migrations
+ * and checks as any project. The old keys are removed only once the project is saved, so a
+ * failed migration is retried on the next visit. Returns the error when the autosave is
+ * damaged, so the caller can offer its raw data before discardLegacyAutosave drops it.
+ */
+export async function migrateLegacyAutosave(): Promise<ProjectDataError | null> {
+	if (!browser || !isLibraryAvailable()) return null;
+
+	let stored: string | null = null;
+	let name = '';
+	try {
+		stored = localStorage.getItem(LEGACY_STORAGE_KEY);
+		const recents = JSON.parse(localStorage.getItem(LEGACY_RECENTS_KEY) ?? '[]');
+		if (Array.isArray(recents) && typeof recents[0]?.label === 'string') name = recents[0].label;
+	} catch (e) {
+		console.error('Failed to read the previous autosave:', e);
+	}
 
 	try {
-		localStorage.removeItem(STORAGE_KEY);
+		if (stored) {
+			let data: unknown;
+			try {
+				data = JSON.parse(stored);
+			} catch {
+				throw new ProjectDataError('The previous autosave was only partly written.', ['autosave: not valid JSON'], stored);
+			}
+			const project = normalizeProjectFile(data);
+			if (project.transcript.wordArray.length > 0) {
+				await saveProject(null, name || 'Autosaved transcript', project, Date.parse(project.savedAt) || Date.now());
+			}
+		}
+		discardLegacyAutosave();
 	} catch (e) {
-		console.error('Failed to clear state from localStorage:', e);
+		if (e instanceof ProjectDataError) return e;
+		console.error('Failed to move the previous autosave into the project library:', e);
 	}
+	return null;
 }
 
-export function getPersistedTimestamp(): number | null {
-	const state = loadState();
-	if (!state || state.transcript.wordArray.length === 0) return null;
-	return state.savedAt;
+export function discardLegacyAutosave(): void {
+	localStorage.removeItem(LEGACY_STORAGE_KEY);
+	localStorage.removeItem(LEGACY_RECENTS_KEY);
 }
@@ -0,0 +1,165 @@
+/**
+ * Project File - Saves and opens a complete analysis state as one JSON file (.tep).
+ *
+ * A project holds what autosave keeps (transcript, speakers, codes) plus the visualization,
+ * filter and app settings, the dashboard layout, the timeline selection and a reference to
+ * the video. Media is not embedded: YouTube videos are stored by ID and reload on open,
+ * local video files are stored by name and have to be uploaded again.
+ */
+
+import { get } from 'svelte/store';
+import TranscriptStore from '../../stores/transcriptStore';
+import UserStore from '../../stores/userStore';
+import CodeStore, { type CodeEntry } from '../../stores/codeStore';
+import VizStore, { initialViz, type VizStoreType } from '../../stores/vizStore';
+import FiltersStore, { initialFilters, type FiltersStoreType } from '../../stores/filtersStore';
+import AppSettingsStore, { initialAppSettings, type AppSettingsStoreType } from '../../stores/appSettingsStore';
+import UIStateStore from '../../stores/uiStateStore';
+import TimelineStore from '../../stores/timelineStore';
+import VideoStore from '../../stores/videoStore';
+import {
+	serializeTranscript,
+	deserializeTranscript,
+	serializeUsers,
+	deserializeUsers,
+	type PersistedTranscript,
+	type PersistedUser
+} from './persistence';
+import { getMaxTime } from './timing-utils';
+import { checkProjectData, isRecord, PROJECT_FORMAT, PROJECT_SCHEMA_VERSION } from './project-schema';
+import { resetVizCaches } from '../draw/viz-cache-registry';
+
+export const PROJECT_FILE_EXTENSION = 'tep';
+
+export type ProjectVideo = { type: 'youtube'; videoId: string } | { type: 'file'; fileName: string };
+
+export interface ProjectTimeline {
+	leftMarker: number;
+	rightMarker: number;
+	currTime: number;
+	endTime: number;
+}
+
+export interface ProjectFile {
+	format: typeof PROJECT_FORMAT;
+	version: number;
+	savedAt: string;
+	transcript: PersistedTranscript;
+	users: PersistedUser[];
+	codes: CodeEntry[];
+	viz: VizStoreType;
+	filters: FiltersStoreType;
+	appSettings: AppSettingsStoreType;
+	dashboardPanels: string[];
+	timeline: ProjectTimeline;
+	video: ProjectVideo | null;
+}
+
+function getProjectVideo(): ProjectVideo | null {
+	const { source } = get(VideoStore);
+	if (source.type === 'youtube' && source.videoId) return { type: 'youtube', videoId: source.videoId };
+	if (source.type === 'file' && source.fileName) return { type: 'file', fileName: source.fileName };
+	return null;
+}
+
+/**
+ * Captures the current state of every store a project covers.
+ */
+export function buildProjectFile(): ProjectFile {
+	const { leftMarker, rightMarker, currTime, endTime } = get(TimelineStore);
+	return {
+		format: PROJECT_FORMAT,
+		version: PROJECT_SCHEMA_VERSION,
+		savedAt: new Date().toISOString(),
+		transcript: serializeTranscript(get(TranscriptStore)),
+		users: serializeUsers(get(UserStore)),
+		codes: get(CodeStore),
+		viz: get(VizStore),
+		filters: get(FiltersStore),
+		appSettings: get(AppSettingsStore),
+		dashboardPanels: get(UIStateStore).dashboardPanels,
+		timeline: { leftMarker, rightMarker, currTime, endTime },
+		video: getProjectVideo()
+	};
+}
+
+/**
+ * Parses and checks project file text. Settings missing from the file (added in later
+ * versions of the app) fall back to their defaults.
+ */
+export function parseProjectFile(text: string): ProjectFile {
+	let data: unknown;
+	try {
+		data = JSON.parse(text);
+	} catch {
+		throw new Error('Invalid project file. Check that the file is a complete Transcript Explorer project.');
+	}
+	return normalizeProjectFile(data);
+}
+
+/**
+ * Migrates and checks parsed project data (from a file or the project library) and fills in
+ * defaults. Throws a ProjectDataError listing the bad fields if it cannot be loaded.
+ */
+export function normalizeProjectFile(raw: unknown): ProjectFile {
+	const data = checkProjectData(raw);
+
+	const timeline = isRecord(data.timeline) ? data.timeline : {};
+	const video = isRecord(data.video) ? data.video : null;
+	return {
+		format: PROJECT_FORMAT,
+		version: PROJECT_SCHEMA_VERSION,
+		savedAt: typeof data.savedAt === 'string' ? data.savedAt : '',
+		transcript: data.transcript as unknown as PersistedTranscript,
+		users: data.users as PersistedUser[],
+		codes: Array.isArray(data.codes) ? (data.codes as CodeEntry[]) : [],
+		viz: { ...initialViz, ...(isRecord(data.viz) ? data.viz : {}) },
+		filters: { ...initialFilters, ...(isRecord(data.filters) ? data.filters : {}) },
+		appSettings: { ...initialAppSettings, ...(isRecord(data.appSettings) ? data.appSettings : {}) },
+		dashboardPanels: Array.isArray(data.dashboardPanels) ? data.dashboardPanels.filter((p): p is string => typeof p === 'string') : [],
+		timeline: {
+			leftMarker: Number(timeline.leftMarker) || 0,
+			rightMarker: Number(timeline.rightMarker) || 0,
+			currTime: Number(timeline.currTime) || 0,
+			endTime: Number(timeline.endTime) || 0
+		},
+		video:
+			video?.type === 'youtube' && typeof video.videoId === 'string'
+				? { type: 'youtube', videoId: video.videoId }
+				: video?.type === 'file' && typeof video.fileName === 'string'
+					? { type: 'file', fileName: video.fileName }
+					: null
+	};
+}
+
+/**
+ * Writes a parsed project into the stores. The video reference is left to the caller,
+ * which owns video loading.
+ */
+export function applyProjectFile(project: ProjectFile): void {
+	const transcript = deserializeTranscript(project.transcript);
+	resetVizCaches();
+
+	UserStore.set(deserializeUsers(project.users));
+	TranscriptStore.set(transcript);
+	CodeStore.set(project.codes);
+	VizStore.set(project.viz);
+	FiltersStore.set(project.filters);
+	AppSettingsStore.set(project.appSettings);
+	if (project.dashboardPanels.length > 0) UIStateStore.update((state) => ({ ...state, dashboardPanels: project.dashboardPanels }));
+
+	// The saved end may run past the words when the timeline was stretched to a video's length
+	const endTime = Math.max(getMaxTime(transcript.wordArray), project.timeline.endTime);
+	const clamp = (time: number) => Math.min(Math.max(time, 0), endTime);
+	const leftMarker = clamp(project.timeline.leftMarker);
+	const rightMarker = project.timeline.rightMarker > leftMarker ? clamp(project.timeline.rightMarker) : endTime;
+	TimelineStore.update((timeline) => ({
+		...timeline,
+		startTime: 0,
+		endTime,
+		leftMarker,
+		rightMarker,
+		currTime: Math.min(Math.max(project.timeline.currTime, leftMarker), rightMarker),
+		isAnimating: false
+	}));
+}
@@ -0,0 +1,351 @@
+/**
+ * Project Library - Keeps every transcript the user works on as a project in IndexedDB.
+ *
+ * Each project is split across object stores keyed by project id: a summary (name, dates,
+ * counts) for listing, and the transcript, speakers, codes and settings as separate records,
+ * so the library can be listed without reading every transcript. Records use the same
+ * serialized shapes as project files, except the transcript, which is stored compact and
+ * gzipped in parts of whole turns under "<id>/<content hash>" keys, next to a manifest under
+ * the project id; opening a project goes through the same checks as a project file.
+ * A project's named snapshots are kept in one more record, read only when they are listed.
+ * ProjectLibraryStore mirrors the summaries after every change.
+ */
+
+import ProjectLibraryStore, { storageSpace, type ProjectSummary, type StorageSpace } from '../../stores/projectLibraryStore';
+import type { CodeEntry } from '../../stores/codeStore';
+import { normalizeProjectFile, type ProjectFile } from './project-file';
+import { PROJECT_FORMAT, ProjectDataError } from './project-schema';
+import type { PersistedTranscript, PersistedUser } from './persistence';
+import type { TranscriptSnapshot } from './snapshots';
+import {
+	contentHash,
+	encodeCompactWords,
+	packTranscriptJSON,
+	splitTranscriptParts,
+	storedTranscriptSize,
+	unpackTranscript,
+	type PackedJSON,
+	type TranscriptManifest,
+	type TranscriptPartRef
+} from './compact-transcript';
+
+const DB_NAME = 'transcript-explorer';
+const DB_VERSION = 2;
+
+const PROJECTS = 'projects';
+const TRANSCRIPTS = 'transcripts';
+const USERS = 'users';
+const CODES = 'codes';
+const SETTINGS = 'settings';
+const SNAPSHOTS = 'snapshots';
+const RECORD_STORES = [TRANSCRIPTS, USERS, CODES, SETTINGS, SNAPSHOTS];
+/** Prefix of transcript parts in the written-records cache */
+const PART = 'part:';
+
+type ProjectSettings = Pick<ProjectFile, 'version' | 'viz' | 'filters' | 'appSettings' | 'dashboardPanels' | 'timeline' | 'video'>;
+
+interface WrittenRecord {
+	json: string;
+	bytes: number;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+/** What was last written per project and record (store or transcript part), so saves skip records that did not change */
+const writtenRecords = new Map<string, Map<string, WrittenRecord>>();
+
+/** False during server rendering and in browsers that block IndexedDB */
+export function isLibraryAvailable(): boolean {
+	return typeof indexedDB !== 'undefined';
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+	if (!isLibraryAvailable()) return Promise.reject(new Error('Project library is not available in this browser.'));
+	dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+		const request = indexedDB.open(DB_NAME, DB_VERSION);
+		request.onupgradeneeded = () => {
+			const db = request.result;
+			if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+			for (const name of RECORD_STORES) {
+				if (!db.objectStoreNames.contains(name)) db.createObjectStore(name);
+			}
+		};
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error ?? new Error('Failed to open the project library.'));
+		request.onblocked = () => reject(new Error('Project library is blocked by another tab. Close other Transcript Explorer tabs and reload.'));
+	}).catch((err) => {
+		// Let the next call try again instead of caching the failure
+		dbPromise = null;
+		throw err;
+	});
+	return dbPromise;
+}
+
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+}
+
+/** Resolves when the transaction commits, so callers only report success once data is on disk */
+function transactionDone(tx: IDBTransaction): Promise<void> {
+	return new Promise((resolve, reject) => {
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error);
+		tx.onabort = () => reject(tx.error ?? new Error('Project library write was aborted.'));
+	});
+}
+
+/** A transcript part is stored under its project id and its content hash */
+function partKey(id: string, key: string): string {
+	return `${id}/${key}`;
+}
+
+/** The keys of all of a project's transcript parts */
+function partRange(id: string): IDBKeyRange {
+	return IDBKeyRange.bound(`${id}/`, `${id}/\uffff`);
+}
+
+/** Reads a project's transcript parts by their key within the project */
+async function getParts(store: IDBObjectStore, id: string): Promise<Map<string, PackedJSON>> {
+	const [keys, parts] = await Promise.all([
+		requestResult(store.getAllKeys(partRange(id))),
+		requestResult(store.getAll(partRange(id)) as IDBRequest<PackedJSON[]>)
+	]);
+	return new Map(keys.map((key, i) => [String(key).slice(id.length + 1), parts[i]]));
+}
+
+function newRecordId(): string {
+	if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+	return `record-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function getSummary(db: IDBDatabase, id: string): Promise<ProjectSummary | undefined> {
+	return requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).get(id) as IDBRequest<ProjectSummary | undefined>);
+}
+
+async function putSummary(db: IDBDatabase, summary: ProjectSummary): Promise<void> {
+	const tx = db.transaction(PROJECTS, 'readwrite');
+	tx.objectStore(PROJECTS).put(summary);
+	await transactionDone(tx);
+}
+
+/** Reloads the summaries into ProjectLibraryStore, newest edits first */
+export async function refreshLibrary(): Promise<ProjectSummary[]> {
+	const db = await openDatabase();
+	const projects = await requestResult(db.transaction(PROJECTS).objectStore(PROJECTS).getAll() as IDBRequest<ProjectSummary[]>);
+	projects.sort((a, b) => b.updatedAt - a.updatedAt);
+	ProjectLibraryStore.set(projects);
+	return projects;
+}
+
+/**
+ * Writes a project into the library. A null or unknown id creates a new project; an existing
+ * id keeps its name unless one is given. Only records and transcript parts that changed since
+ * the last save or load in this session are encoded and written (see compact-transcript.ts).
+ */
+export async function saveProject(id: string | null, name: string, project: ProjectFile, savedAt = Date.now()): Promise<ProjectSummary> {
+	const db = await openDatabase();
+	const existing = id ? await getSummary(db, id) : undefined;
+	const summary: ProjectSummary = {
+		id: existing?.id ?? newRecordId(),
+		name: name || existing?.name || 'Untitled transcript',
+		createdAt: existing?.createdAt ?? savedAt,
+		updatedAt: savedAt,
+		openedAt: existing?.openedAt ?? savedAt,
+		wordCount: project.transcript.wordArray.length,
+		turnCount: new Set(project.transcript.wordArray.map((dp) => dp.turnNumber)).size,
+		speakerCount: project.users.length
+	};
+	const settings: ProjectSettings = {
+		version: project.version,
+		viz: project.viz,
+		filters: project.filters,
+		appSettings: project.appSettings,
+		dashboardPanels: project.dashboardPanels,
+		timeline: project.timeline,
+		video: project.video
+	};
+
+	const previous = writtenRecords.get(summary.id);
+	const written = new Map([...(previous ?? [])].filter(([key]) => !key.startsWith(PART)));
+	const changes: [string, unknown][] = [];
+	const newParts: [string, PackedJSON][] = [];
+	const partRefs: TranscriptPartRef[] = [];
+	const { wordArray, ...meta } = project.transcript;
+	for (const part of splitTranscriptParts(wordArray)) {
+		const firstTurn = part[0].turnNumber;
+		const json = JSON.stringify(encodeCompactWords(part, firstTurn));
+		const key = contentHash(json);
+		partRefs.push({ key, firstTurn });
+		const record = written.get(PART + key) ?? previous?.get(PART + key);
+		if (record) {
+			written.set(PART + key, record);
+			continue;
+		}
+		// Compress before the transaction opens; an await inside it would let it commit early
+		const packed = await packTranscriptJSON(json);
+		newParts.push([key, packed]);
+		written.set(PART + key, { json, bytes: storedTranscriptSize(packed) });
+	}
+	const staleParts = [...(previous?.keys() ?? [])].filter((key) => key.startsWith(PART) && !written.has(key));
+	const manifest: TranscriptManifest = { encoding: 'compact-parts', parts: partRefs, meta };
+	const plainRecords: [string, unknown][] = [
+		[TRANSCRIPTS, manifest],
+		[USERS, project.users],
+		[CODES, project.codes],
+		[SETTINGS, settings]
+	];
+	for (const [store, value] of plainRecords) {
+		const json = JSON.stringify(value);
+		if (previous?.get(store)?.json === json) continue;
+		changes.push([store, value]);
+		written.set(store, { json, bytes: json.length });
+	}
+	summary.storedBytes = [...written.values()].reduce((sum, record) => sum + record.bytes, 0);
+
+	const tx = db.transaction([PROJECTS, ...RECORD_STORES], 'readwrite');
+	tx.objectStore(PROJECTS).put(summary);
+	for (const [store, value] of changes) tx.objectStore(store).put(value, summary.id);
+	// Without a record of what was written, clear every part first; otherwise drop only the unused ones
+	if (!previous) tx.objectStore(TRANSCRIPTS).delete(partRange(summary.id));
+	for (const key of staleParts) tx.objectStore(TRANSCRIPTS).delete(partKey(summary.id, key.slice(PART.length)));
+	for (const [key, packed] of newParts) tx.objectStore(TRANSCRIPTS).put(packed, partKey(summary.id, key));
+	await transactionDone(tx);
+	writtenRecords.set(summary.id, written);
+	await refreshLibrary();
+	return summary;
+}
+
+/**
+ * Reads a project back as a checked project file and marks it as opened. The next save writes
+ * every record again, since another tab may have saved the project since this one last did.
+ * Throws if the project no longer exists or its records are damaged.
+ */
+export async function loadProject(id: string): Promise<{ summary: ProjectSummary; project: ProjectFile }> {
+	const db = await openDatabase();
+	const tx = db.transaction([PROJECTS, ...RECORD_STORES]);
+	const [summary, storedTranscript, parts, users, codes, settings] = await Promise.all([
+		requestResult(tx.objectStore(PROJECTS).get(id) as IDBRequest<ProjectSummary | undefined>),
+		requestResult(tx.objectStore(TRANSCRIPTS).get(id) as IDBRequest<TranscriptManifest | PersistedTranscript | undefined>),
+		getParts(tx.objectStore(TRANSCRIPTS), id),
+		requestResult(tx.objectStore(USERS).get(id) as IDBRequest<PersistedUser[] | undefined>),
+		requestResult(tx.objectStore(CODES).get(id) as IDBRequest<CodeEntry[] | undefined>),
+		requestResult(tx.objectStore(SETTINGS).get(id) as IDBRequest<ProjectSettings | undefined>)
+	]);
+	if (!summary) throw new Error('This project is no longer in the library.');
+	writtenRecords.delete(id);
+
+	let transcript: PersistedTranscript | undefined;
+	try {
+		transcript = await unpackTranscript(storedTranscript, parts);
+	} catch {
+		throw new ProjectDataError('The saved transcript could not be decoded.', ['transcript: stored data could not be decoded'], {
+			...settings,
+			users,
+			codes
+		});
+	}
+	const project = normalizeProjectFile({
+		...settings,
+		format: PROJECT_FORMAT,
+		version: settings?.version ?? 1,
+		savedAt: new Date(summary.updatedAt).toISOString(),
+		transcript,
+		users,
+		codes
+	});
+	const opened = { ...summary, openedAt: Date.now() };
+	await putSummary(db, opened);
+	await refreshLibrary();
+	return { summary: opened, project };
+}
+
+export async function renameProject(id: string, name: string): Promise<void> {
+	const db = await openDatabase();
+	const summary = await getSummary(db, id);
+	if (!summary) return;
+	await putSummary(db, { ...summary, name });
+	await refreshLibrary();
+}
+
+/** Copies every record of a project, snapshots included, under a new id, named "<name> (copy)" */
+export async function duplicateProject(id: string): Promise<ProjectSummary> {
+	const db = await openDatabase();
+	const read = db.transaction([PROJECTS, ...RECORD_STORES]);
+	const [summary, parts, ...records] = await Promise.all([
+		requestResult(read.objectStore(PROJECTS).get(id) as IDBRequest<ProjectSummary | undefined>),
+		getParts(read.objectStore(TRANSCRIPTS), id),
+		...RECORD_STORES.map((name) => requestResult(read.objectStore(name).get(id)))
+	]);
+	if (!summary) throw new Error('This project is no longer in the library.');
+
+	const now = Date.now();
+	const copy: ProjectSummary = { ...summary, id: newRecordId(), name: `${summary.name} (copy)`, createdAt: now, updatedAt: now, openedAt: now };
+	const tx = db.transaction([PROJECTS, ...RECORD_STORES], 'readwrite');
+	tx.objectStore(PROJECTS).put(copy);
+	RECORD_STORES.forEach((name, i) => {
+		if (records[i] !== undefined) tx.objectStore(name).put(records[i], copy.id);
+	});
+	for (const [key, part] of parts) tx.objectStore(TRANSCRIPTS).put(part, partKey(copy.id, key));
+	await transactionDone(tx);
+	await refreshLibrary();
+	return copy;
+}
+
+export async function deleteProject(id: string): Promise<void> {
+	const db = await openDatabase();
+	const tx = db.transaction([PROJECTS, ...RECORD_STORES], 'readwrite');
+	for (const name of [PROJECTS, ...RECORD_STORES]) tx.objectStore(name).delete(id);
+	tx.objectStore(TRANSCRIPTS).delete(partRange(id));
+	await transactionDone(tx);
+	writtenRecords.delete(id);
+	await refreshLibrary();
+}
+
+/** Storage used by the site and its quota, or null where the browser does not report them */
+export async function estimateStorage(): Promise<StorageSpace | null> {
+	if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+	const { usage, quota } = await navigator.storage.estimate();
+	const space = usage !== undefined && quota ? { usage, quota } : null;
+	storageSpace.set(space);
+	return space;
+}
+
+async function getSnapshots(db: IDBDatabase, projectId: string): Promise<TranscriptSnapshot[]> {
+	const snapshots = await requestResult(
+		db.transaction(SNAPSHOTS).objectStore(SNAPSHOTS).get(projectId) as IDBRequest<TranscriptSnapshot[] | undefined>
+	);
+	return snapshots ?? [];
+}
+
+/**
+ * Reads, changes and writes a project's snapshots in one transaction, so two changes made
+ * at once (from two tabs, or a quick add then delete) cannot overwrite each other.
+ */
+async function updateSnapshots(projectId: string, update: (snapshots: TranscriptSnapshot[]) => TranscriptSnapshot[]): Promise<void> {
+	const db = await openDatabase();
+	const tx = db.transaction(SNAPSHOTS, 'readwrite');
+	const store = tx.objectStore(SNAPSHOTS);
+	const request = store.get(projectId) as IDBRequest<TranscriptSnapshot[] | undefined>;
+	// Put from the success handler itself; awaiting a promise here could let the transaction commit first
+	request.onsuccess = () => store.put(update(request.result ?? []), projectId);
+	await transactionDone(tx);
+}
+
+/** A project's snapshots, newest first */
+export async function listSnapshots(projectId: string): Promise<TranscriptSnapshot[]> {
+	const snapshots = await getSnapshots(await openDatabase(), projectId);
+	return snapshots.sort((a, b) => b.createdAt - a.createdAt);
+}
+
+/** Stores a snapshot of a project's words, speakers and codes under a new id */
+export async function addSnapshot(projectId: string, contents: Omit<TranscriptSnapshot, 'id' | 'createdAt'>): Promise<TranscriptSnapshot> {
+	const snapshot: TranscriptSnapshot = { ...contents, id: newRecordId(), createdAt: Date.now() };
+	await updateSnapshots(projectId, (snapshots) => [...snapshots, snapshot]);
+	return snapshot;
+}
+
+export async function deleteSnapshot(projectId: string, snapshotId: string): Promise<void> {
+	await updateSnapshots(projectId, (snapshots) => snapshots.filter((snapshot) => snapshot.id !== snapshotId));
+}
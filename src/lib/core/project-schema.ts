@@ -0,0 +1,128 @@
+/**
+ * Project Schema - Versions, migrations and checks for saved projects.
+ *
+ * Library records and project files carry the schema version they were written with. Older
+ * data is brought up to date one version at a time by MIGRATIONS; version 0 is the single
+ * localStorage autosave of earlier releases, which had no format marker. The migrated data is
+ * then checked field by field, and anything that cannot be loaded is reported together with
+ * the raw data, so a damaged save can be downloaded instead of lost.
+ */
+
+export const PROJECT_FORMAT = 'transcript-explorer-project';
+export const PROJECT_SCHEMA_VERSION = 1;
+
+/** More problems than this are summarized as "and N more" */
+const MAX_REPORTED_PROBLEMS = 10;
+const TIMING_MODES = ['untimed', 'startOnly', 'startEnd'];
+
+type ProjectData = Record<string, unknown>;
+
+/** Saved data that failed to migrate or validate. `data` is what was read, for downloading */
+export class ProjectDataError extends Error {
+	readonly problems: string[];
+	readonly data: unknown;
+
+	constructor(message: string, problems: string[], data: unknown) {
+		super(message);
+		this.name = 'ProjectDataError';
+		this.problems = problems;
+		this.data = data;
+	}
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Each entry turns data of version `index` into data of version `index + 1` */
+const MIGRATIONS: ((data: ProjectData) => ProjectData)[] = [
+	// 0 -> 1: the localStorage autosave kept the code filters at the top level and a numeric savedAt
+	({ codeColorMode, showUncoded, savedAt, ...rest }) => ({
+		...rest,
+		format: PROJECT_FORMAT,
+		version: 1,
+		savedAt: typeof savedAt === 'number' ? new Date(savedAt).toISOString() : '',
+		filters: { codeColorMode: codeColorMode ?? false, showUncoded: showUncoded ?? true }
+	})
+];
+
+function getVersion(data: ProjectData): number | null {
+	if (data.format === PROJECT_FORMAT) return Number.isInteger(data.version) ? (data.version as number) : null;
+	if (data.format === undefined && isRecord(data.transcript)) return 0;
+	return null;
+}
+
+/**
+ * Brings saved data up to the current schema version.
+ * Throws if the data is not a project or comes from a newer version of the app.
+ */
+export function migrateProjectData(data: unknown): ProjectData {
+	const version = isRecord(data) ? getVersion(data) : null;
+	if (!isRecord(data) || version === null || version < 0) {
+		throw new ProjectDataError('This file is not a Transcript Explorer project.', ['format: not a Transcript Explorer project'], data);
+	}
+	if (version > PROJECT_SCHEMA_VERSION) {
+		throw new ProjectDataError(
+			'This project was saved by a newer version of Transcript Explorer. Update the app to open it.',
+			[`version: ${version} is newer than ${PROJECT_SCHEMA_VERSION}`],
+			data
+		);
+	}
+	return MIGRATIONS.slice(version).reduce((migrated, migrate) => migrate(migrated), data);
+}
+
+function checkFields(record: Record<string, unknown>, path: string, fields: Record<string, 'string' | 'number'>, problems: string[]) {
+	for (const [field, type] of Object.entries(fields)) {
+		const value = record[field];
+		const ok = type === 'number' ? typeof value === 'number' && Number.isFinite(value) : typeof value === 'string';
+		if (!ok) problems.push(`${path}.${field}: expected a ${type}, found ${value === undefined ? 'nothing' : JSON.stringify(value)}`);
+	}
+}
+
+function checkList(value: unknown, path: string, fields: Record<string, 'string' | 'number'>, problems: string[]) {
+	if (!Array.isArray(value)) {
+		problems.push(`${path}: expected a list`);
+		return;
+	}
+	value.forEach((item, i) => {
+		if (isRecord(item)) checkFields(item, `${path}[${i}]`, fields, problems);
+		else problems.push(`${path}[${i}]: expected an object`);
+	});
+}
+
+/**
+ * Lists the fields of migrated project data that cannot be loaded, as "path: problem".
+ * Optional settings are not checked here; missing ones fall back to their defaults.
+ */
+export function validateProjectData(data: ProjectData): string[] {
+	const problems: string[] = [];
+	const { transcript } = data;
+	if (!isRecord(transcript)) {
+		problems.push('transcript: missing');
+	} else {
+		checkList(
+			transcript.wordArray,
+			'transcript.wordArray',
+			{ speaker: 'string', turnNumber: 'number', word: 'string', startTime: 'number', endTime: 'number' },
+			problems
+		);
+		if (!TIMING_MODES.includes(transcript.timingMode as string)) {
+			problems.push(`transcript.timingMode: expected one of ${TIMING_MODES.join(', ')}`);
+		}
+	}
+	checkList(data.users, 'users', { name: 'string', color: 'string' }, problems);
+	if (data.codes !== undefined) checkList(data.codes, 'codes', { code: 'string', color: 'string' }, problems);
+
+	if (problems.length <= MAX_REPORTED_PROBLEMS) return problems;
+	return [...problems.slice(0, MAX_REPORTED_PROBLEMS), `…and ${problems.length - MAX_REPORTED_PROBLEMS} more`];
+}
+
+/** Migrates and validates saved data, throwing a ProjectDataError that lists the bad fields */
+export function checkProjectData(data: unknown): ProjectData {
+	const migrated = migrateProjectData(data);
+	const problems = validateProjectData(migrated);
+	if (problems.length > 0) {
+		throw new ProjectDataError(`This project is damaged and could not be opened (${problems[0]}).`, problems, data);
+	}
+	return migrated;
+}
@@ -0,0 +1,389 @@
+/**
+ * REFI-QDA - Reads and writes the REFI-QDA interchange formats used by ATLAS.ti, NVivo,
+ * MAXQDA and QDA Miner.
+ *
+ * Project (.qdpx): a ZIP with project.qde (XML) and the source documents under sources/.
+ *   <Project xmlns="urn:QDA-XML:project:1.0">
+ *     <CodeBook><Codes><Code guid name color isCodable>...</Code></Codes></CodeBook>
+ *     <Sources>
+ *       <TextSource guid name plainTextPath="internal://<guid>.txt">
+ *         <PlainTextSelection startPosition endPosition>
+ *           <Coding><CodeRef targetGUID/></Coding>
+ *         </PlainTextSelection>
+ *       </TextSource>
+ *     </Sources>
+ *   </Project>
+ * Codebook (.qdc): the same <CodeBook> element as a standalone XML file.
+ *
+ * Selection positions are character (code point) offsets into the source's plain text.
+ * The transcript is exported as one "[hh:mm:ss] SPEAKER: words" line per turn, and coded
+ * words are mapped back onto DataPoints by locating each word in that text.
+ */
+
+import { openZip, createZip } from './zip-utils';
+import { formatTime } from './time-utils';
+import type { DataPoint } from '../../models/dataPoint';
+import type { Transcript } from '../../models/transcript';
+import type { CodeEntry } from '../../stores/codeStore';
+
+export interface QdaCode {
+	name: string;
+	/** "#RRGGBB", or null when the code has no color */
+	color: string | null;
+}
+
+export interface QdaSelection {
+	/** Code point offsets into the source text; end is exclusive */
+	start: number;
+	end: number;
+	codes: string[];
+}
+
+export interface QdaTextSource {
+	name: string;
+	text: string;
+	selections: QdaSelection[];
+}
+
+export interface QdaProject {
+	codes: QdaCode[];
+	sources: QdaTextSource[];
+}
+
+interface WordSpan {
+	start: number;
+	end: number;
+}
+
+const PROJECT_NAMESPACE = 'urn:QDA-XML:project:1.0';
+const CODEBOOK_NAMESPACE = 'urn:QDA-XML:codebook:1.0';
+const ORIGIN = 'Transcript Explorer';
+
+// ============ XML helpers ============
+
+function parseXML(text: string, fileLabel: string): Document {
+	const doc = new DOMParser().parseFromString(text.replace(/^\uFEFF/, ''), 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length > 0) {
+		throw new Error(`Invalid ${fileLabel}: the XML could not be parsed.`);
+	}
+	return doc;
+}
+
+function descendants(parent: Document | Element, localName: string): Element[] {
+	return Array.from(parent.getElementsByTagNameNS('*', localName));
+}
+
+function children(parent: Element, localName: string): Element[] {
+	return Array.from(parent.childNodes).filter((node): node is Element => node.nodeType === 1 && (node as Element).localName === localName);
+}
+
+function escapeXML(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+function normalizeColor(color: string | null): string | null {
+	if (!color) return null;
+	const hex = color.trim().match(/^#?([0-9a-f]{6})(?:[0-9a-f]{2})?$/i);
+	return hex ? `#${hex[1].toLowerCase()}` : null;
+}
+
+// ============ Import ============
+
+/** Reads all codable codes (nested codes are flattened) and maps their GUIDs to names */
+function readCodeBook(root: Document | Element): { codes: QdaCode[]; namesByGuid: Map<string, string> } {
+	const codes: QdaCode[] = [];
+	const namesByGuid = new Map<string, string>();
+	const seen = new Set<string>();
+
+	for (const codeEl of descendants(root, 'Code')) {
+		const name = codeEl.getAttribute('name')?.trim();
+		if (!name) continue;
+		const guid = codeEl.getAttribute('guid');
+		if (guid) namesByGuid.set(guid, name);
+		if (codeEl.getAttribute('isCodable') === 'false' || seen.has(name)) continue;
+		seen.add(name);
+		codes.push({ name, color: normalizeColor(codeEl.getAttribute('color')) });
+	}
+	return { codes, namesByGuid };
+}
+
+/**
+ * Parses a REFI-QDA codebook (.qdc) into code names and colors.
+ * Throws if the file is not a codebook.
+ */
+export function parseQDCText(text: string): QdaCode[] {
+	const doc = parseXML(text, 'codebook file');
+	if (doc.documentElement.localName !== 'CodeBook') {
+		throw new Error('Invalid codebook file: expected a REFI-QDA <CodeBook> document.');
+	}
+	return readCodeBook(doc).codes;
+}
+
+/** Resolves a TextSource's plain text from inline content or an internal:// path in the archive */
+async function readSourceText(sourceEl: Element, zip: ReturnType<typeof openZip>): Promise<string | null> {
+	const inline = children(sourceEl, 'PlainTextContent')[0];
+	if (inline) return inline.textContent ?? '';
+
+	const path = sourceEl.getAttribute('plainTextPath');
+	if (!path?.startsWith('internal://')) return null;
+	const fileName = decodeURIComponent(path.slice('internal://'.length));
+	const entry = zip.names.find((name) => name === `sources/${fileName}` || name.endsWith(`/sources/${fileName}`));
+	const text = entry ? await zip.readText(entry) : null;
+	return text === null ? null : text.replace(/^\uFEFF/, '');
+}
+
+/**
+ * Reads a REFI-QDA project (.qdpx): its code book and every text source with coded selections.
+ * Sources stored outside the archive (external paths) and audio/video/PDF sources are skipped.
+ * Throws if the archive has no project.qde.
+ */
+export async function readQDPX(data: ArrayBuffer): Promise<QdaProject> {
+	const zip = openZip(data);
+	const projectEntry = zip.names.find((name) => name.toLowerCase().endsWith('.qde'));
+	const projectText = projectEntry ? await zip.readText(projectEntry) : null;
+	if (!projectText) throw new Error('Invalid project file: project.qde not found in the .qdpx archive.');
+
+	const doc = parseXML(projectText, 'project file');
+	if (doc.documentElement.localName !== 'Project') {
+		throw new Error('Invalid project file: expected a REFI-QDA <Project> document.');
+	}
+
+	const codeBook = descendants(doc, 'CodeBook')[0];
+	const { codes, namesByGuid } = codeBook ? readCodeBook(codeBook) : { codes: [], namesByGuid: new Map<string, string>() };
+
+	const sources: QdaTextSource[] = [];
+	for (const sourceEl of descendants(doc, 'TextSource')) {
+		const text = await readSourceText(sourceEl, zip);
+		if (text === null) continue;
+
+		const selections: QdaSelection[] = [];
+		for (const selectionEl of children(sourceEl, 'PlainTextSelection')) {
+			const start = Number(selectionEl.getAttribute('startPosition'));
+			const end = Number(selectionEl.getAttribute('endPosition'));
+			if (!Number.isFinite(start) || !Number.isFinite(end) || end <= start) continue;
+
+			const selectionCodes = children(selectionEl, 'Coding')
+				.flatMap((coding) => children(coding, 'CodeRef'))
+				.map((ref) => namesByGuid.get(ref.getAttribute('targetGUID') ?? ''))
+				.filter((name): name is string => !!name);
+			if (selectionCodes.length > 0) selections.push({ start, end, codes: [...new Set(selectionCodes)] });
+		}
+
+		sources.push({ name: sourceEl.getAttribute('name') ?? 'Document', text, selections });
+	}
+
+	return { codes, sources };
+}
+
+/** Counts code points in text[from, to) without allocating */
+function codePointLength(text: string, from: number, to: number): number {
+	let count = 0;
+	for (let i = from; i < to; i++) {
+		const unit = text.charCodeAt(i);
+		// Low surrogates belong to the preceding high surrogate
+		if (unit < 0xdc00 || unit > 0xdfff) count++;
+	}
+	return count;
+}
+
+/**
+ * Finds each word in order as a whitespace-delimited token of the text, so a word is never
+ * matched inside a speaker label or timestamp. Returns code point spans; null for words not found.
+ */
+function locateWords(text: string, words: string[]): (WordSpan | null)[] {
+	const isBoundary = (index: number) => index < 0 || index >= text.length || /\s/.test(text[index]);
+	const spans: (WordSpan | null)[] = [];
+	let cursor = 0;
+	let cursorCodePoints = 0;
+
+	for (const word of words) {
+		let index = word ? text.indexOf(word, cursor) : -1;
+		while (index >= 0 && !(isBoundary(index - 1) && isBoundary(index + word.length))) {
+			index = text.indexOf(word, index + 1);
+		}
+		if (index < 0) {
+			spans.push(null);
+			continue;
+		}
+		const start = cursorCodePoints + codePointLength(text, cursor, index);
+		const end = start + codePointLength(text, index, index + word.length);
+		spans.push({ start, end });
+		cursor = index + word.length;
+		cursorCodePoints = end;
+	}
+	return spans;
+}
+
+/**
+ * Returns true if every word of the transcript can be found, in order, in the source text,
+ * i.e. the source was exported from (or matches) this transcript.
+ */
+export function sourceMatchesWords(source: QdaTextSource, wordArray: DataPoint[]): boolean {
+	return (
+		wordArray.length > 0 &&
+		locateWords(
+			source.text,
+			wordArray.map((dp) => dp.word)
+		).every(Boolean)
+	);
+}
+
+/**
+ * Adds each selection's codes to every word the selection overlaps.
+ * Returns the number of words that received at least one code.
+ */
+export function applyQdaSelections(wordArray: DataPoint[], source: QdaTextSource): number {
+	const spans = locateWords(
+		source.text,
+		wordArray.map((dp) => dp.word)
+	);
+	const located = wordArray.map((dp, i) => ({ dp, span: spans[i] })).filter((w): w is { dp: DataPoint; span: WordSpan } => w.span !== null);
+	const coded = new Set<DataPoint>();
+
+	for (const selection of source.selections) {
+		// Binary search for the first word ending after the selection starts
+		let low = 0;
+		let high = located.length;
+		while (low < high) {
+			const mid = (low + high) >> 1;
+			if (located[mid].span.end <= selection.start) low = mid + 1;
+			else high = mid;
+		}
+		for (let i = low; i < located.length && located[i].span.start < selection.end; i++) {
+			const { dp } = located[i];
+			for (const code of selection.codes) {
+				if (!dp.codes.includes(code)) dp.codes.push(code);
+			}
+			coded.add(dp);
+		}
+	}
+	return coded.size;
+}
+
+// ============ Export ============
+
+/** <Code> elements for the code list, indented to sit inside <Codes> */
+function codeElements(codes: CodeEntry[], guids: Map<string, string>, indent: string): string[] {
+	return codes.map((entry) => {
+		const color = normalizeColor(entry.color);
+		const colorAttr = color ? ` color="${color.toUpperCase()}"` : '';
+		return `${indent}<Code guid="${guids.get(entry.code)}" name="${escapeXML(entry.code)}" isCodable="true"${colorAttr}/>`;
+	});
+}
+
+/**
+ * Builds the plain text of a transcript (one line per turn) with each word's code point span.
+ */
+function buildSourceText(transcript: Transcript): { text: string; spans: WordSpan[] } {
+	const lines: string[] = [];
+	const spans: WordSpan[] = [];
+	let position = 0;
+	let index = 0;
+	const { wordArray } = transcript;
+
+	while (index < wordArray.length) {
+		const first = wordArray[index];
+		const prefix = transcript.timingMode === 'untimed' ? `${first.speaker}: ` : `[${formatTime(first.startTime)}] ${first.speaker}: `;
+		const words: string[] = [];
+		position += codePointLength(prefix, 0, prefix.length);
+
+		while (index < wordArray.length && wordArray[index].turnNumber === first.turnNumber) {
+			const word = wordArray[index].word;
+			if (words.length > 0) position++;
+			const length = codePointLength(word, 0, word.length);
+			spans.push({ start: position, end: position + length });
+			position += length;
+			words.push(word);
+			index++;
+		}
+
+		lines.push(prefix + words.join(' '));
+		position++; // newline
+	}
+
+	return { text: lines.join('\n'), spans };
+}
+
+/**
+ * Serializes the code list as a standalone REFI-QDA codebook (.qdc).
+ */
+export function buildQDC(codes: CodeEntry[]): string {
+	const guids = new Map(codes.map((entry) => [entry.code, crypto.randomUUID()]));
+	return [
+		'<?xml version="1.0" encoding="utf-8"?>',
+		`<CodeBook xmlns="${CODEBOOK_NAMESPACE}" origin="${ORIGIN}">`,
+		'\t<Codes>',
+		...codeElements(codes, guids, '\t\t'),
+		'\t</Codes>',
+		'</CodeBook>'
+	].join('\n');
+}
+
+/**
+ * Builds a REFI-QDA project (.qdpx) holding the transcript as one text source, the code list
+ * with colors, and one coded selection per run of consecutive coded words within a turn.
+ */
+export async function buildQDPX(transcript: Transcript, codes: CodeEntry[], projectName: string): Promise<Blob> {
+	const now = new Date().toISOString();
+	const userGuid = crypto.randomUUID();
+	const sourceGuid = crypto.randomUUID();
+
+	// Codes used on words but missing from the store still need a code book entry
+	const allCodes = [...codes];
+	for (const dp of transcript.wordArray) {
+		for (const code of dp.codes) {
+			if (!allCodes.some((entry) => entry.code === code)) allCodes.push({ code, color: '', enabled: true });
+		}
+	}
+	const guids = new Map(allCodes.map((entry) => [entry.code, crypto.randomUUID()]));
+
+	const { text, spans } = buildSourceText(transcript);
+	const textPoints = Array.from(text);
+	const selections: string[] = [];
+	for (const entry of allCodes) {
+		let runStart = -1;
+		const { wordArray } = transcript;
+		for (let i = 0; i <= wordArray.length; i++) {
+			const isCoded = i < wordArray.length && wordArray[i].codes.includes(entry.code);
+			const sameTurn = runStart >= 0 && i < wordArray.length && wordArray[i].turnNumber === wordArray[runStart].turnNumber;
+			if (runStart >= 0 && (!isCoded || !sameTurn)) {
+				const start = spans[runStart].start;
+				const end = spans[i - 1].end;
+				const name = textPoints.slice(start, end).join('');
+				selections.push(
+					`\t\t\t<PlainTextSelection guid="${crypto.randomUUID()}" name="${escapeXML(name)}" startPosition="${start}" endPosition="${end}" creatingUser="${userGuid}" creationDateTime="${now}">`,
+					`\t\t\t\t<Coding guid="${crypto.randomUUID()}" creatingUser="${userGuid}" creationDateTime="${now}">`,
+					`\t\t\t\t\t<CodeRef targetGUID="${guids.get(entry.code)}"/>`,
+					'\t\t\t\t</Coding>',
+					'\t\t\t</PlainTextSelection>'
+				);
+				runStart = -1;
+			}
+			if (isCoded && runStart < 0) runStart = i;
+		}
+	}
+
+	const project = [
+		'<?xml version="1.0" encoding="utf-8"?>',
+		`<Project xmlns="${PROJECT_NAMESPACE}" name="${escapeXML(projectName)}" origin="${ORIGIN}" creatingUserGUID="${userGuid}" creationDateTime="${now}">`,
+		'\t<Users>',
+		`\t\t<User guid="${userGuid}" name="${ORIGIN}"/>`,
+		'\t</Users>',
+		'\t<CodeBook>',
+		'\t\t<Codes>',
+		...codeElements(allCodes, guids, '\t\t\t'),
+		'\t\t</Codes>',
+		'\t</CodeBook>',
+		'\t<Sources>',
+		`\t\t<TextSource guid="${sourceGuid}" name="${escapeXML(projectName)}" plainTextPath="internal://${sourceGuid}.txt" creatingUser="${userGuid}" creationDateTime="${now}">`,
+		...selections,
+		'\t\t</TextSource>',
+		'\t</Sources>',
+		'</Project>'
+	].join('\n');
+
+	return createZip([
+		{ name: 'project.qde', data: project },
+		{ name: `sources/${sourceGuid}.txt`, data: text }
+	]);
+}
@@ -0,0 +1,76 @@
+/**
+ * Session Utilities - Boundaries of the sessions in a combined multi-session transcript.
+ * Sessions are stored by their first turn number (see TranscriptSession), so boundary
+ * times are derived from the word array and follow timing mode changes and edits.
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+import type { Transcript, TranscriptSession } from '../../models/transcript';
+
+export interface SessionBoundary {
+	label: string;
+	startTime: number;
+	endTime: number;
+}
+
+/** Index of the first word whose turn is >= turnNumber (wordArray is ordered by turn) */
+function findFirstWordOfTurn(wordArray: DataPoint[], turnNumber: number): number {
+	let low = 0;
+	let high = wordArray.length;
+	while (low < high) {
+		const mid = (low + high) >> 1;
+		if (wordArray[mid].turnNumber < turnNumber) low = mid + 1;
+		else high = mid;
+	}
+	return low;
+}
+
+/**
+ * Returns the time span of each session. Empty for transcripts that were not combined.
+ * Cheap enough to call per frame: one binary search per session.
+ */
+export function getSessionBoundaries(transcript: Transcript): SessionBoundary[] {
+	const { wordArray, sessions } = transcript;
+	if (!sessions || sessions.length < 2 || wordArray.length === 0) return [];
+
+	const startTimes = sessions.map((session) => {
+		const index = Math.min(findFirstWordOfTurn(wordArray, session.startTurn), wordArray.length - 1);
+		return wordArray[index].startTime;
+	});
+	return sessions.map((session, i) => ({
+		label: session.label,
+		startTime: startTimes[i],
+		endTime: i + 1 < sessions.length ? startTimes[i + 1] : transcript.totalTimeInSeconds
+	}));
+}
+
+/**
+ * Splits a combined transcript back into per-session word arrays with turns numbered
+ * from 0 and the session's time offset removed.
+ */
+export function splitSessions(transcript: Transcript): { label: string; wordArray: DataPoint[] }[] {
+	const { wordArray, sessions } = transcript;
+	return sessions.map((session, i) => {
+		const start = findFirstWordOfTurn(wordArray, session.startTurn);
+		const end = i + 1 < sessions.length ? findFirstWordOfTurn(wordArray, sessions[i + 1].startTurn) : wordArray.length;
+		return {
+			label: session.label,
+			wordArray: wordArray.slice(start, end).map((dp) =>
+				dp.copyWith({
+					turnNumber: dp.turnNumber - session.startTurn,
+					startTime: Math.max(0, dp.startTime - session.timeOffset),
+					endTime: Math.max(0, dp.endTime - session.timeOffset)
+				})
+			)
+		};
+	});
+}
+
+/**
+ * Keeps session boundaries on the same turns after turns are inserted or deleted.
+ * Sessions starting after `turnNumber` move by `delta`; sessions left without turns are dropped.
+ */
+export function shiftSessionTurns(sessions: TranscriptSession[], turnNumber: number, delta: number, turnCount: number): TranscriptSession[] {
+	const shifted = sessions.map((session) => (session.startTurn > turnNumber ? { ...session, startTurn: session.startTurn + delta } : session));
+	return shifted.filter((session, i) => session.startTurn < turnCount && (i + 1 >= shifted.length || shifted[i + 1].startTurn > session.startTurn));
+}
@@ -0,0 +1,189 @@
+/**
+ * Snapshots - Named copies of the transcript words, speakers and codes, and a turn-level
+ * diff between any two of them.
+ *
+ * Turns are matched in order on their text, so a turn that keeps its words lines up even if
+ * its speaker or codes changed. Unmatched turns between two matches are paired when their
+ * words mostly overlap (an edited turn); the rest count as added or removed.
+ */
+
+import type { CodeEntry } from '../../stores/codeStore';
+import type { PersistedDataPoint, PersistedUser } from './persistence';
+
+export interface TranscriptSnapshot {
+	id: string;
+	name: string;
+	createdAt: number;
+	wordArray: PersistedDataPoint[];
+	users: PersistedUser[];
+	codes: CodeEntry[];
+}
+
+/** The fields a diff reads, so both snapshots and the live word array can be compared */
+type DiffWord = Pick<PersistedDataPoint, 'speaker' | 'turnNumber' | 'word' | 'codes'>;
+
+export interface SnapshotTurn {
+	turnNumber: number;
+	speaker: string;
+	text: string;
+	/** Codes on any word of the turn, sorted */
+	codes: string[];
+}
+
+export type TurnChangeKind = 'added' | 'removed' | 'edited' | 'unchanged';
+
+export interface TurnDiff {
+	kind: TurnChangeKind;
+	before: SnapshotTurn | null;
+	after: SnapshotTurn | null;
+	textChanged: boolean;
+	speakerChanged: boolean;
+	codesAdded: string[];
+	codesRemoved: string[];
+}
+
+export interface SnapshotDiff {
+	turns: TurnDiff[];
+	added: number;
+	removed: number;
+	edited: number;
+	unchanged: number;
+}
+
+/** Turns whose words overlap at least this much (Jaccard) count as the same turn, edited */
+const EDIT_SIMILARITY = 0.5;
+/** Largest LCS table; bigger unmatched stretches are paired greedily instead */
+const MAX_LCS_CELLS = 4_000_000;
+/** How far ahead the greedy pairing looks for an edited counterpart */
+const PAIRING_WINDOW = 50;
+
+export function snapshotTurns(wordArray: DiffWord[]): SnapshotTurn[] {
+	const turns = new Map<number, { speaker: string; words: string[]; codes: Set<string> }>();
+	for (const dp of wordArray) {
+		let turn = turns.get(dp.turnNumber);
+		if (!turn) {
+			turn = { speaker: dp.speaker, words: [], codes: new Set() };
+			turns.set(dp.turnNumber, turn);
+		}
+		turn.words.push(dp.word);
+		dp.codes?.forEach((code) => turn.codes.add(code));
+	}
+	return Array.from(turns, ([turnNumber, turn]) => ({
+		turnNumber,
+		speaker: turn.speaker,
+		text: turn.words.join(' '),
+		codes: [...turn.codes].sort()
+	})).sort((a, b) => a.turnNumber - b.turnNumber);
+}
+
+function wordSimilarity(a: string, b: string): number {
+	const aWords = new Set(a.toLowerCase().split(/\s+/).filter(Boolean));
+	const bWords = new Set(b.toLowerCase().split(/\s+/).filter(Boolean));
+	if (aWords.size === 0 && bWords.size === 0) return 1;
+	let shared = 0;
+	aWords.forEach((word) => {
+		if (bWords.has(word)) shared++;
+	});
+	return shared / (aWords.size + bWords.size - shared);
+}
+
+function compareTurns(before: SnapshotTurn | null, after: SnapshotTurn | null): TurnDiff {
+	if (!before || !after) {
+		return {
+			kind: before ? 'removed' : 'added',
+			before,
+			after,
+			textChanged: true,
+			speakerChanged: false,
+			codesAdded: after?.codes ?? [],
+			codesRemoved: before?.codes ?? []
+		};
+	}
+	const textChanged = before.text !== after.text;
+	const speakerChanged = before.speaker !== after.speaker;
+	const codesAdded = after.codes.filter((code) => !before.codes.includes(code));
+	const codesRemoved = before.codes.filter((code) => !after.codes.includes(code));
+	const changed = textChanged || speakerChanged || codesAdded.length > 0 || codesRemoved.length > 0;
+	return { kind: changed ? 'edited' : 'unchanged', before, after, textChanged, speakerChanged, codesAdded, codesRemoved };
+}
+
+/** Index pairs of turns with identical text, in order (longest common subsequence) */
+function matchIdenticalText(before: SnapshotTurn[], after: SnapshotTurn[]): [number, number][] {
+	const n = before.length;
+	const m = after.length;
+	if ((n + 1) * (m + 1) > MAX_LCS_CELLS) return [];
+	const table = new Uint32Array((n + 1) * (m + 1));
+	const at = (i: number, j: number) => i * (m + 1) + j;
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			table[at(i, j)] = before[i].text === after[j].text ? table[at(i + 1, j + 1)] + 1 : Math.max(table[at(i + 1, j)], table[at(i, j + 1)]);
+		}
+	}
+	const pairs: [number, number][] = [];
+	let i = 0;
+	let j = 0;
+	while (i < n && j < m) {
+		if (before[i].text === after[j].text) {
+			pairs.push([i++, j++]);
+		} else if (table[at(i + 1, j)] >= table[at(i, j + 1)]) {
+			i++;
+		} else {
+			j++;
+		}
+	}
+	return pairs;
+}
+
+/** Pairs up the unmatched turns between two matches: similar turns are edits, the rest added or removed */
+function diffGap(before: SnapshotTurn[], after: SnapshotTurn[], out: TurnDiff[]) {
+	let j = 0;
+	for (const turn of before) {
+		const limit = Math.min(after.length, j + PAIRING_WINDOW);
+		let match = -1;
+		for (let k = j; k < limit; k++) {
+			if (wordSimilarity(turn.text, after[k].text) >= EDIT_SIMILARITY) {
+				match = k;
+				break;
+			}
+		}
+		if (match === -1) {
+			out.push(compareTurns(turn, null));
+			continue;
+		}
+		while (j < match) out.push(compareTurns(null, after[j++]));
+		out.push(compareTurns(turn, after[j++]));
+	}
+	while (j < after.length) out.push(compareTurns(null, after[j++]));
+}
+
+/** Turn-by-turn differences from one word array to another, in transcript order */
+export function diffSnapshots(beforeWords: DiffWord[], afterWords: DiffWord[]): SnapshotDiff {
+	const before = snapshotTurns(beforeWords);
+	const after = snapshotTurns(afterWords);
+
+	// Trim the shared start and end so the LCS only covers the part that changed
+	let start = 0;
+	while (start < before.length && start < after.length && before[start].text === after[start].text) start++;
+	const sameFromEnd = (k: number) => before[before.length - 1 - k].text === after[after.length - 1 - k].text;
+	let end = 0;
+	while (end < before.length - start && end < after.length - start && sameFromEnd(end)) end++;
+
+	const turns: TurnDiff[] = [];
+	for (let k = 0; k < start; k++) turns.push(compareTurns(before[k], after[k]));
+
+	const beforeMiddle = before.slice(start, before.length - end);
+	const afterMiddle = after.slice(start, after.length - end);
+	let i = 0;
+	let j = 0;
+	for (const [bi, aj] of [...matchIdenticalText(beforeMiddle, afterMiddle), [beforeMiddle.length, afterMiddle.length]]) {
+		diffGap(beforeMiddle.slice(i, bi), afterMiddle.slice(j, aj), turns);
+		if (bi < beforeMiddle.length) turns.push(compareTurns(beforeMiddle[bi], afterMiddle[aj]));
+		i = bi + 1;
+		j = aj + 1;
+	}
+
+	for (let k = end; k > 0; k--) turns.push(compareTurns(before[before.length - k], after[after.length - k]));
+
+	const count = (kind: TurnChangeKind) => turns.filter((turn) => turn.kind === kind).length;
+	return { turns, added: count('added'), removed: count('removed'), edited: count('edited'), unchanged: count('unchanged') };
+}
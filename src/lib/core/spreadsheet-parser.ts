@@ -0,0 +1,333 @@
+/**
+ * Spreadsheet Parser - Reads Excel (.xlsx) and OpenDocument (.ods) workbooks into sheets of
+ * cell values, and converts a sheet into the same header-keyed rows Papa Parse produces for
+ * CSV files, so spreadsheet uploads reuse the column mapper and csv-txt-parser unchanged.
+ *
+ * Text cells stay strings (keeping leading zeros and Unicode intact); numeric cells become
+ * numbers; cells formatted as times or durations are converted to seconds.
+ */
+
+import type { ParseResult as PapaParseResult } from 'papaparse';
+import { openZip, type ZipReader } from './zip-utils';
+
+export type CellValue = string | number | boolean | null;
+
+export interface SpreadsheetSheet {
+	name: string;
+	rows: CellValue[][];
+}
+
+const SHEET_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIP_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const TABLE_NS = 'urn:oasis:names:tc:opendocument:xmlns:table:1.0';
+const OFFICE_NS = 'urn:oasis:names:tc:opendocument:xmlns:office:1.0';
+const TEXT_NS = 'urn:oasis:names:tc:opendocument:xmlns:text:1.0';
+
+/** Guards against "repeat to the end of the sheet" runs that some editors write */
+const MAX_REPEAT = 10000;
+
+/** Built-in Excel number formats that display times or durations */
+const BUILTIN_TIME_FORMATS = new Set([18, 19, 20, 21, 45, 46, 47]);
+
+const SECONDS_PER_DAY = 86400;
+
+function parseXml(text: string, description: string): Document {
+	const doc = new DOMParser().parseFromString(text, 'application/xml');
+	if (doc.getElementsByTagName('parsererror').length > 0) {
+		throw new Error(`Invalid spreadsheet: could not read ${description}.`);
+	}
+	return doc;
+}
+
+function roundSeconds(seconds: number): number {
+	return Math.round(seconds * 1000) / 1000;
+}
+
+function isEmptyCell(value: CellValue): boolean {
+	return value === null || (typeof value === 'string' && value.trim() === '');
+}
+
+// ============ XLSX ============
+
+/** Converts a column reference like "AB" (from "AB12") to a zero-based index */
+function columnIndex(reference: string): number {
+	const letters = reference.match(/^[A-Z]+/i)?.[0].toUpperCase() ?? '';
+	let index = 0;
+	for (const letter of letters) index = index * 26 + (letter.charCodeAt(0) - 64);
+	return index - 1;
+}
+
+/** Text of a shared string or inline string, ignoring phonetic (rPh) runs */
+function richText(element: Element): string {
+	return Array.from(element.getElementsByTagNameNS(SHEET_NS, 't'))
+		.filter((t) => (t.parentNode as Element | null)?.localName !== 'rPh')
+		.map((t) => t.textContent ?? '')
+		.join('');
+}
+
+/**
+ * Returns, per cell style index, whether the style displays a time-only value.
+ * Date and date-time formats are left as raw serial numbers.
+ */
+function readTimeStyles(stylesDoc: Document | null): boolean[] {
+	if (!stylesDoc) return [];
+
+	const customFormats = new Map<number, string>();
+	for (const numFmt of Array.from(stylesDoc.getElementsByTagNameNS(SHEET_NS, 'numFmt'))) {
+		customFormats.set(Number(numFmt.getAttribute('numFmtId')), numFmt.getAttribute('formatCode') ?? '');
+	}
+
+	const cellXfs = stylesDoc.getElementsByTagNameNS(SHEET_NS, 'cellXfs')[0];
+	if (!cellXfs) return [];
+
+	return Array.from(cellXfs.getElementsByTagNameNS(SHEET_NS, 'xf')).map((xf) => {
+		const id = Number(xf.getAttribute('numFmtId') ?? 0);
+		if (BUILTIN_TIME_FORMATS.has(id)) return true;
+		const code = customFormats.get(id);
+		if (!code) return false;
+		// Drop quoted literals and [Red]-style modifiers, but keep elapsed markers like [h]
+		const cleaned = code.replace(/"[^"]*"/g, '').replace(/\[(?![hms]+\])[^\]]*\]/gi, '');
+		return /[hs]/i.test(cleaned) && !/[dy]/i.test(cleaned);
+	});
+}
+
+function readXlsxCell(cell: Element, sharedStrings: string[], timeStyles: boolean[]): CellValue {
+	const type = cell.getAttribute('t') ?? 'n';
+	if (type === 'inlineStr') {
+		const inline = cell.getElementsByTagNameNS(SHEET_NS, 'is')[0];
+		return inline ? richText(inline) : null;
+	}
+
+	const raw = cell.getElementsByTagNameNS(SHEET_NS, 'v')[0]?.textContent ?? null;
+	if (raw === null) return null;
+
+	switch (type) {
+		case 's':
+			return sharedStrings[Number(raw)] ?? null;
+		case 'str':
+		case 'd':
+			return raw;
+		case 'b':
+			return raw === '1';
+		case 'e':
+			return null;
+		default: {
+			const value = Number(raw);
+			if (!Number.isFinite(value)) return raw;
+			return timeStyles[Number(cell.getAttribute('s') ?? 0)] ? roundSeconds(value * SECONDS_PER_DAY) : value;
+		}
+	}
+}
+
+/**
+ * Reads a worksheet's rows in order, placing cells by their column reference. Empty cells and rows
+ * are not materialized, so formatting left on a far-away cell (even row 1048576) costs nothing.
+ */
+function readXlsxRows(sheetDoc: Document, sharedStrings: string[], timeStyles: boolean[]): CellValue[][] {
+	const rows: CellValue[][] = [];
+
+	for (const rowEl of Array.from(sheetDoc.getElementsByTagNameNS(SHEET_NS, 'row'))) {
+		const row: CellValue[] = [];
+		let nextColumn = 0;
+		for (const cell of Array.from(rowEl.getElementsByTagNameNS(SHEET_NS, 'c'))) {
+			const reference = cell.getAttribute('r');
+			const column = reference ? columnIndex(reference) : nextColumn;
+			nextColumn = column + 1;
+			const value = readXlsxCell(cell, sharedStrings, timeStyles);
+			if (!isEmptyCell(value)) row[column] = value;
+		}
+		if (row.length === 0) continue; // Empty rows are skipped later anyway
+		rows.push(Array.from(row, (value) => value ?? null));
+	}
+
+	return rows;
+}
+
+/** Resolves a relationship target ("worksheets/sheet1.xml" or "/xl/worksheets/sheet1.xml") to an archive path */
+function resolveTarget(target: string): string {
+	return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+}
+
+async function readXlsx(zip: ZipReader): Promise<SpreadsheetSheet[]> {
+	const workbookText = await zip.readText('xl/workbook.xml');
+	if (!workbookText) throw new Error('Invalid Excel file: missing workbook.');
+	const workbookDoc = parseXml(workbookText, 'the workbook');
+
+	const targets = new Map<string, string>();
+	const relsText = await zip.readText('xl/_rels/workbook.xml.rels');
+	if (relsText) {
+		for (const rel of Array.from(parseXml(relsText, 'workbook relationships').getElementsByTagName('Relationship'))) {
+			targets.set(rel.getAttribute('Id') ?? '', resolveTarget(rel.getAttribute('Target') ?? ''));
+		}
+	}
+
+	const sharedStringsText = await zip.readText('xl/sharedStrings.xml');
+	const sharedStrings = sharedStringsText
+		? Array.from(parseXml(sharedStringsText, 'shared strings').getElementsByTagNameNS(SHEET_NS, 'si')).map(richText)
+		: [];
+
+	const stylesText = await zip.readText('xl/styles.xml');
+	const timeStyles = readTimeStyles(stylesText ? parseXml(stylesText, 'styles') : null);
+
+	const sheets: SpreadsheetSheet[] = [];
+	const sheetElements = Array.from(workbookDoc.getElementsByTagNameNS(SHEET_NS, 'sheet'));
+	for (const [index, sheetEl] of sheetElements.entries()) {
+		const relId = sheetEl.getAttributeNS(RELATIONSHIP_NS, 'id') ?? '';
+		const path = targets.get(relId) ?? `xl/worksheets/sheet${index + 1}.xml`;
+		const sheetText = await zip.readText(path);
+		if (!sheetText) continue;
+
+		sheets.push({
+			name: sheetEl.getAttribute('name') ?? `Sheet${index + 1}`,
+			rows: readXlsxRows(parseXml(sheetText, 'a worksheet'), sharedStrings, timeStyles)
+		});
+	}
+	return sheets;
+}
+
+// ============ ODS ============
+
+/** Parses an ISO 8601 duration such as "PT01H02M03.5S" to seconds */
+function parseDuration(value: string): number | null {
+	const match = value.match(/^-?P(?:(\d+(?:\.\d+)?)D)?T?(?:(\d+(?:\.\d+)?)H)?(?:(\d+(?:\.\d+)?)M)?(?:(\d+(?:\.\d+)?)S)?$/);
+	if (!match) return null;
+	const [, days, hours, minutes, seconds] = match.map((part) => Number(part ?? 0));
+	return roundSeconds(days * SECONDS_PER_DAY + hours * 3600 + minutes * 60 + seconds);
+}
+
+/** Paragraph text with ODF whitespace elements (text:s, text:tab, text:line-break) expanded */
+function odfText(node: Node): string {
+	let text = '';
+	for (const child of Array.from(node.childNodes)) {
+		if (child.nodeType === 3) {
+			text += child.nodeValue ?? '';
+		} else if (child.nodeType === 1) {
+			const el = child as Element;
+			if (el.namespaceURI === TEXT_NS && el.localName === 's') text += ' '.repeat(Number(el.getAttributeNS(TEXT_NS, 'c') ?? 1) || 1);
+			else if (el.namespaceURI === TEXT_NS && el.localName === 'tab') text += '\t';
+			else if (el.namespaceURI === TEXT_NS && el.localName === 'line-break') text += '\n';
+			else text += odfText(el);
+		}
+	}
+	return text;
+}
+
+function readOdsCell(cell: Element): CellValue {
+	const type = cell.getAttributeNS(OFFICE_NS, 'value-type');
+	switch (type) {
+		case 'float':
+		case 'percentage':
+		case 'currency':
+			return Number(cell.getAttributeNS(OFFICE_NS, 'value'));
+		case 'time':
+			return parseDuration(cell.getAttributeNS(OFFICE_NS, 'time-value') ?? '');
+		case 'date':
+			return cell.getAttributeNS(OFFICE_NS, 'date-value');
+		case 'boolean':
+			return cell.getAttributeNS(OFFICE_NS, 'boolean-value') === 'true';
+		default: {
+			const paragraphs = Array.from(cell.getElementsByTagNameNS(TEXT_NS, 'p'));
+			return paragraphs.length > 0 ? paragraphs.map(odfText).join('\n') : null;
+		}
+	}
+}
+
+function repeatCount(el: Element, attribute: string): number {
+	return Math.min(Math.max(1, Number(el.getAttributeNS(TABLE_NS, attribute) ?? 1) || 1), MAX_REPEAT);
+}
+
+function readOdsRows(table: Element): CellValue[][] {
+	const rows: CellValue[][] = [];
+
+	for (const rowEl of Array.from(table.getElementsByTagNameNS(TABLE_NS, 'table-row'))) {
+		const row: CellValue[] = [];
+		let pendingEmpty = 0;
+		for (const cell of Array.from(rowEl.childNodes)) {
+			if (cell.nodeType !== 1 || !['table-cell', 'covered-table-cell'].includes((cell as Element).localName)) continue;
+			const value = readOdsCell(cell as Element);
+			const repeat = repeatCount(cell as Element, 'number-columns-repeated');
+			// Empty runs are only materialized when a value follows, so trailing padding is dropped
+			if (isEmptyCell(value)) {
+				pendingEmpty += repeat;
+				continue;
+			}
+			for (; pendingEmpty > 0; pendingEmpty--) row.push(null);
+			for (let i = 0; i < repeat; i++) row.push(value);
+		}
+
+		if (row.length === 0) continue; // Empty rows are skipped later anyway
+		const rowRepeat = repeatCount(rowEl, 'number-rows-repeated');
+		for (let i = 0; i < rowRepeat; i++) rows.push(row);
+	}
+	return rows;
+}
+
+async function readOds(zip: ZipReader): Promise<SpreadsheetSheet[]> {
+	const contentText = await zip.readText('content.xml');
+	if (!contentText) throw new Error('Invalid OpenDocument file: missing content.xml.');
+	const doc = parseXml(contentText, 'the spreadsheet content');
+
+	return Array.from(doc.getElementsByTagNameNS(TABLE_NS, 'table')).map((table, index) => ({
+		name: table.getAttributeNS(TABLE_NS, 'name') ?? `Sheet${index + 1}`,
+		rows: readOdsRows(table)
+	}));
+}
+
+// ============ Public API ============
+
+/**
+ * Reads all sheets from an .xlsx or .ods workbook.
+ * Throws if the file is not a readable workbook.
+ */
+export async function readSpreadsheet(data: ArrayBuffer, fileName: string): Promise<SpreadsheetSheet[]> {
+	const zip = openZip(data);
+	const isOds = fileName.toLowerCase().endsWith('.ods') || zip.names.includes('content.xml');
+	const sheets = isOds ? await readOds(zip) : await readXlsx(zip);
+	if (sheets.length === 0) throw new Error('No sheets found in spreadsheet.');
+	return sheets;
+}
+
+/**
+ * Index of the first sheet with at least a header row and one data row, or 0.
+ */
+export function findFirstDataSheet(sheets: SpreadsheetSheet[]): number {
+	const index = sheets.findIndex((sheet) => sheet.rows.filter((row) => row.some((value) => !isEmptyCell(value))).length >= 2);
+	return Math.max(0, index);
+}
+
+/**
+ * Converts a sheet into Papa Parse's header-mode result shape: the first non-empty row becomes
+ * the (trimmed, lowercased) field names and blank rows are skipped, matching parseCSVFile.
+ */
+export function sheetToParseResult(sheet: SpreadsheetSheet): PapaParseResult<Record<string, unknown>> {
+	const nonEmptyRows = sheet.rows.filter((row) => row.some((value) => !isEmptyCell(value)));
+	const [headerRow = [], ...dataRows] = nonEmptyRows;
+
+	const fields: string[] = [];
+	const width = dataRows.reduce((max, row) => Math.max(max, row.length), headerRow.length);
+	for (let i = 0; i < width; i++) {
+		const base =
+			String(headerRow[i] ?? '')
+				.trim()
+				.toLowerCase() || `column_${i + 1}`;
+		// Papa Parse renames duplicate headers with a numeric suffix
+		let field = base;
+		for (let n = 1; fields.includes(field); n++) field = `${base}_${n}`;
+		fields.push(field);
+	}
+
+	const data = dataRows.map((row) => {
+		const record: Record<string, unknown> = {};
+		fields.forEach((field, i) => {
+			const value = row[i] ?? null;
+			record[field] = typeof value === 'string' && value.trim() === '' ? null : value;
+		});
+		return record;
+	});
+
+	return {
+		data,
+		errors: [],
+		meta: { delimiter: '', linebreak: '', aborted: false, truncated: false, cursor: 0, fields }
+	};
+}
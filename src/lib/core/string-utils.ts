@@ -47,3 +47,17 @@ export function splitIntoWordTokens(text: string): string[] {
 		.filter(Boolean)
 		.filter((token) => stripPunctuation(token).length > 0);
 }
+
+/**
+ * Formats a byte count for display (e.g., 1536 -> "1.5 KB")
+ */
+export function formatBytes(bytes: number): string {
+	const units = ['B', 'KB', 'MB', 'GB'];
+	let value = bytes;
+	let unit = 0;
+	while (value >= 1024 && unit < units.length - 1) {
+		value /= 1024;
+		unit++;
+	}
+	return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
@@ -9,18 +9,42 @@
  * VTT format:
  *   WEBVTT
  *
- *   00:00:01.000 --> 00:00:04.000
- *   Hello world
+ *   00:00:01.000 --> 00:00:04.000 align:start position:10%
+ *   <v Alice>Hello world</v>
+ *
+ * Speakers are taken from VTT voice spans (<v Alice>) or line prefixes used by Zoom,
+ * Teams and YouTube captions ("ALICE:", "- Alice:", ">> Alice:"). Prefixes are only read
+ * as speakers when the file uses them consistently, so a caption such as "Note: ..." is
+ * kept as text. A cue without a speaker is attributed to the previous speaker but kept as
+ * its own turn. Styling tags and cue settings are dropped.
  */
 
+import { normalizeSpeakerName, splitIntoWordTokens } from './string-utils';
 import type { ParseResult, ParsedTurn } from './text-parser';
 
 interface SubtitleCue {
 	startTime: number;
 	endTime: number;
+	lines: string[];
+}
+
+/** A run of cue text attributed to one speaker (null when the captions don't say) */
+interface SpeakerSpan {
+	speaker: string | null;
+	text: string;
+}
+
+/** A caption line with its VTT voice and, if it starts with "Name:", the name and the text after it */
+interface CaptionLine {
+	voice: string | null;
 	text: string;
+	prefix: { name: string; text: string } | null;
 }
 
+const DEFAULT_SPEAKER = 'SPEAKER 1';
+const VOICE_TAG_PATTERN = /(<v(?:\.[^\s>]+)*\s+[^>]*>)/;
+const SPEAKER_PREFIX_PATTERN = /^(?:>>\s*|-\s*)?([\p{L}][\p{L}\p{N} .'_-]{0,29}):\s+(.*)$/u;
+
 /**
  * Parses a timestamp string to seconds.
  * Handles both SRT (00:00:01,000) and VTT (00:00:01.000) formats.
@@ -71,7 +95,7 @@ function parseCues(text: string): SubtitleCue[] {
 			cues.push({
 				startTime: currentTiming.start,
 				endTime: currentTiming.end,
-				text: currentText.join(' ')
+				lines: currentText
 			});
 		}
 		currentTiming = null;
@@ -108,12 +132,9 @@ function parseCues(text: string): SubtitleCue[] {
 			continue;
 		}
 
-		// Accumulate text lines (strip HTML tags)
+		// Accumulate raw text lines; voice tags are needed for speaker detection
 		if (currentTiming) {
-			const cleanText = trimmed.replace(/<[^>]+>/g, '');
-			if (cleanText) {
-				currentText.push(cleanText);
-			}
+			currentText.push(trimmed);
 		}
 	}
 
@@ -121,26 +142,147 @@ function parseCues(text: string): SubtitleCue[] {
 	return cues;
 }
 
+/**
+ * Removes styling markup: HTML-like tags (<b>, <c.yellow>, <00:00:01.000> karaoke timestamps),
+ * SRT positioning overrides ({\an8}) and common entities.
+ */
+function stripStyling(text: string): string {
+	return text
+		.replace(/<[^>]+>/g, '')
+		.replace(/\{\\[^}]*\}/g, '')
+		.replace(/&nbsp;/g, ' ')
+		.replace(/&lt;/g, '<')
+		.replace(/&gt;/g, '>')
+		.replace(/&amp;/g, '&')
+		.replace(/\s+/g, ' ')
+		.trim();
+}
+
+/**
+ * Splits a cue's lines at VTT voice tags and strips styling. A voice tag applies until the next
+ * voice tag; a "Name:" prefix is recorded for the rest of its line but not yet trusted as a speaker.
+ */
+function readCaptionLines(lines: string[]): CaptionLine[] {
+	const captionLines: CaptionLine[] = [];
+	let voice: string | null = null;
+
+	for (const line of lines) {
+		for (const part of line.split(VOICE_TAG_PATTERN)) {
+			if (VOICE_TAG_PATTERN.test(part)) {
+				const name = part
+					.replace(/^<v(?:\.[^\s>]+)*\s+/, '')
+					.replace(/>$/, '')
+					.trim();
+				voice = name ? normalizeSpeakerName(name) : null;
+				continue;
+			}
+
+			const text = stripStyling(part);
+			if (!text) continue;
+
+			const match = text.match(SPEAKER_PREFIX_PATTERN);
+			const isPrefix = match !== null && match[1].trim().split(/\s+/).length <= 3 && match[2].trim() !== '';
+			captionLines.push({ voice, text, prefix: isPrefix ? { name: normalizeSpeakerName(match[1]), text: match[2].trim() } : null });
+		}
+	}
+	return captionLines;
+}
+
+/**
+ * Decides whether "Name:" prefixes in this file are speaker labels. They are when the file also has
+ * voice tags, or when some name labels more than one cue and either most cues are prefixed or at
+ * least two names recur. One-off prefixes such as "Note:" or "The answer is:" don't qualify.
+ */
+function usesSpeakerPrefixes(cueLines: CaptionLine[][]): boolean {
+	if (cueLines.some((lines) => lines.some((line) => line.voice !== null))) return true;
+
+	const cuesPerName = new Map<string, number>();
+	let prefixedCues = 0;
+	for (const lines of cueLines) {
+		const names = new Set(lines.flatMap((line) => (line.prefix ? [line.prefix.name] : [])));
+		if (names.size > 0) prefixedCues++;
+		for (const name of names) cuesPerName.set(name, (cuesPerName.get(name) ?? 0) + 1);
+	}
+
+	const recurringNames = [...cuesPerName.values()].filter((count) => count >= 2).length;
+	if (recurringNames === 0) return false;
+	return prefixedCues * 2 > cueLines.length || recurringNames >= 2;
+}
+
+/**
+ * Groups a cue's lines into speaker spans. When prefixes aren't trusted, a prefixed line keeps
+ * its "Name:" as part of the text. Caption markers (">>", "- ") are dropped.
+ */
+function toSpeakerSpans(lines: CaptionLine[], readPrefixes: boolean): SpeakerSpan[] {
+	const spans: SpeakerSpan[] = [];
+
+	for (const line of lines) {
+		const prefix = readPrefixes ? line.prefix : null;
+		const speaker = prefix?.name ?? line.voice;
+		const text = prefix?.text ?? line.text.replace(/^(?:>>|-)\s+/, '');
+		if (!text) continue;
+
+		const last = spans[spans.length - 1];
+		if (last && (speaker === null || speaker === last.speaker)) {
+			last.text += ' ' + text;
+		} else {
+			spans.push({ speaker, text });
+		}
+	}
+	return spans;
+}
+
 /**
  * Parses subtitle file content into a ParseResult compatible with text-parser.
- * All cues are assigned to "SPEAKER 1" since subtitles don't have speaker info.
+ * Without speaker information every cue becomes its own "SPEAKER 1" turn. When the captions
+ * name speakers, cues shared between speakers are split by word count and consecutive cues
+ * labelled with the same speaker are merged into one turn. Unlabelled cues are never merged.
  */
 export function parseSubtitleText(text: string): ParseResult {
 	const cues = parseCues(text);
-	const defaultSpeaker = 'SPEAKER 1';
+	const cueLines = cues.map((cue) => readCaptionLines(cue.lines));
+	const readPrefixes = usesSpeakerPrefixes(cueLines);
+	const cueSpans = cueLines.map((lines) => toSpeakerSpans(lines, readPrefixes));
+	const hasSpeakers = cueSpans.some((spans) => spans.some((span) => span.speaker !== null));
+
+	const turns: ParsedTurn[] = [];
+	let currentSpeaker = DEFAULT_SPEAKER;
+	// Only a turn that ends with labelled text can be extended by the next span of the same speaker
+	let lastTurnLabelled = false;
 
-	const turns: ParsedTurn[] = cues.map((cue) => ({
-		speaker: defaultSpeaker,
-		content: cue.text,
-		startTime: cue.startTime,
-		endTime: cue.endTime
-	}));
+	cues.forEach((cue, cueIndex) => {
+		const spans = cueSpans[cueIndex];
+		if (!hasSpeakers) {
+			const content = spans.map((span) => span.text).join(' ');
+			if (content) turns.push({ speaker: DEFAULT_SPEAKER, content, startTime: cue.startTime, endTime: cue.endTime });
+			return;
+		}
+
+		const wordCounts = spans.map((span) => Math.max(1, splitIntoWordTokens(span.text).length));
+		const totalWords = wordCounts.reduce((sum, count) => sum + count, 0);
+		let spanStart = cue.startTime;
+
+		spans.forEach((span, spanIndex) => {
+			const spanEnd = spanStart + ((cue.endTime - cue.startTime) * wordCounts[spanIndex]) / totalWords;
+			currentSpeaker = span.speaker ?? currentSpeaker;
+
+			const last = turns[turns.length - 1];
+			if (last && span.speaker !== null && lastTurnLabelled && last.speaker === span.speaker) {
+				last.content += ' ' + span.text;
+				last.endTime = spanEnd;
+			} else {
+				turns.push({ speaker: currentSpeaker, content: span.text, startTime: spanStart, endTime: spanEnd });
+			}
+			lastTurnLabelled = span.speaker !== null;
+			spanStart = spanEnd;
+		});
+	});
 
 	return {
 		turns,
 		detectedFormat: 'timestamped',
 		hasTimestamps: true,
-		speakers: turns.length > 0 ? [defaultSpeaker] : [],
+		speakers: [...new Set(turns.map((turn) => turn.speaker))],
 		continuationLineCount: 0,
 		totalLineCount: cues.length
 	};
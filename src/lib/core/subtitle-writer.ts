@@ -0,0 +1,154 @@
+/**
+ * Subtitle Writer - Builds SRT and VTT subtitles from a transcript's word array.
+ *
+ * Each turn is split into cues of at most two lines, breaking early when a cue would run
+ * longer than the duration limit. Speakers are labelled with VTT voice tags (<v Alice>) or
+ * SRT line prefixes ("ALICE: "), the forms the subtitle parser reads back.
+ * Untimed transcripts get estimated times from the speech rate, one turn after another;
+ * start-only transcripts use the speech rate to end captions before long silences.
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+import type { TimingMode } from '../../models/transcript';
+import { estimateDuration } from './timing-utils';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+	/** Characters per line, including an SRT speaker prefix */
+	maxLineLength: number;
+	maxLinesPerCue: number;
+	/** Seconds a cue may stay on screen */
+	maxCueDuration: number;
+	/** Used to estimate times for untimed transcripts */
+	speechRateWordsPerSecond: number;
+}
+
+export const DEFAULT_SUBTITLE_OPTIONS: SubtitleOptions = {
+	maxLineLength: 42,
+	maxLinesPerCue: 2,
+	maxCueDuration: 6,
+	speechRateWordsPerSecond: 3
+};
+
+interface SubtitleCue {
+	speaker: string;
+	startTime: number;
+	endTime: number;
+	lines: string[];
+}
+
+interface TimedWord {
+	word: string;
+	startTime: number;
+	endTime: number;
+}
+
+/**
+ * Times each word of a turn. Words keep their own times when the transcript has word-level
+ * timing; otherwise the turn's span is shared out evenly.
+ */
+function timeWords(words: DataPoint[], turnStart: number, turnEnd: number, useWordTimes: boolean): TimedWord[] {
+	const hasWordTimes = useWordTimes && words.some((w) => w.startTime !== words[0].startTime || w.endTime !== words[0].endTime);
+	if (hasWordTimes) return words.map(({ word, startTime, endTime }) => ({ word, startTime, endTime }));
+
+	const step = (turnEnd - turnStart) / words.length;
+	return words.map((w, i) => ({ word: w.word, startTime: turnStart + i * step, endTime: turnStart + (i + 1) * step }));
+}
+
+/** Splits one turn's words into cues that respect the line and duration limits */
+function splitTurnIntoCues(speaker: string, words: TimedWord[], prefixLength: number, options: SubtitleOptions): SubtitleCue[] {
+	const cues: SubtitleCue[] = [];
+	let cue: SubtitleCue | null = null;
+
+	for (const word of words) {
+		if (cue) {
+			const lastLine = cue.lines[cue.lines.length - 1];
+			const lineLimit = options.maxLineLength - (cue.lines.length === 1 ? prefixLength : 0);
+			const fitsLine = lastLine.length + 1 + word.word.length <= lineLimit;
+			const fitsCue = fitsLine || cue.lines.length < options.maxLinesPerCue;
+			if (fitsCue && word.endTime - cue.startTime <= options.maxCueDuration) {
+				if (fitsLine) cue.lines[cue.lines.length - 1] = `${lastLine} ${word.word}`;
+				else cue.lines.push(word.word);
+				cue.endTime = Math.max(cue.endTime, word.endTime);
+				continue;
+			}
+		}
+		cue = { speaker, startTime: word.startTime, endTime: word.endTime, lines: [word.word] };
+		cues.push(cue);
+	}
+	return cues;
+}
+
+/** Formats seconds as HH:MM:SS,mmm (SRT) or HH:MM:SS.mmm (VTT) */
+function formatTimestamp(seconds: number, format: SubtitleFormat): string {
+	const totalMs = Math.max(0, Math.round(seconds * 1000));
+	const pad = (n: number, width = 2) => String(n).padStart(width, '0');
+	const hours = Math.floor(totalMs / 3600000);
+	const minutes = Math.floor((totalMs % 3600000) / 60000);
+	const secs = Math.floor((totalMs % 60000) / 1000);
+	return `${pad(hours)}:${pad(minutes)}:${pad(secs)}${format === 'srt' ? ',' : '.'}${pad(totalMs % 1000, 3)}`;
+}
+
+/** VTT cue text cannot contain "-->" or raw "<" and "&" */
+function escapeVTT(text: string): string {
+	return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+}
+
+/**
+ * Builds SRT or VTT subtitle text for a transcript, one or more cues per turn.
+ */
+export function buildSubtitles(
+	wordArray: DataPoint[],
+	timingMode: TimingMode,
+	format: SubtitleFormat,
+	options: SubtitleOptions = DEFAULT_SUBTITLE_OPTIONS
+): string {
+	const turns = new Map<number, DataPoint[]>();
+	for (const dp of wordArray) {
+		if (!turns.has(dp.turnNumber)) turns.set(dp.turnNumber, []);
+		turns.get(dp.turnNumber)!.push(dp);
+	}
+
+	const cues: SubtitleCue[] = [];
+	let estimatedStart = 0;
+
+	for (const turnNumber of [...turns.keys()].sort((a, b) => a - b)) {
+		const turnWords = turns.get(turnNumber)!;
+		const speaker = turnWords[0].speaker;
+
+		let words: TimedWord[];
+		if (timingMode === 'untimed') {
+			// Word positions are not times: lay turns end to end at the speech rate
+			const duration = estimateDuration(turnWords.length, options.speechRateWordsPerSecond);
+			words = timeWords(turnWords, estimatedStart, estimatedStart + duration, false);
+			estimatedStart += duration;
+		} else {
+			const turnStart = turnWords.reduce((min, w) => Math.min(min, w.startTime), Infinity);
+			let turnEnd = turnWords.reduce((max, w) => Math.max(max, w.endTime), turnStart);
+			if (timingMode === 'startOnly') {
+				// Derived end times can stretch over the silence before the next turn; keep captions to the speech
+				turnEnd = Math.min(turnEnd, turnStart + estimateDuration(turnWords.length, options.speechRateWordsPerSecond));
+			}
+			words = timeWords(turnWords, turnStart, turnEnd, true);
+		}
+
+		const prefixLength = format === 'srt' ? speaker.length + 2 : 0;
+		cues.push(...splitTurnIntoCues(speaker, words, prefixLength, options));
+	}
+
+	cues.sort((a, b) => a.startTime - b.startTime);
+
+	const blocks = cues.map((cue, i) => {
+		// Zero-length cues are skipped by most players
+		const end = Math.max(cue.endTime, cue.startTime + 0.5);
+		const timing = `${formatTimestamp(cue.startTime, format)} --> ${formatTimestamp(end, format)}`;
+		if (format === 'vtt') {
+			return `${timing}\n<v ${escapeVTT(cue.speaker)}>${cue.lines.map(escapeVTT).join('\n')}</v>`;
+		}
+		return `${i + 1}\n${timing}\n${cue.speaker}: ${cue.lines.join('\n')}`;
+	});
+
+	const body = blocks.join('\n\n');
+	return format === 'vtt' ? `WEBVTT\n\n${body}\n` : `${body}\n`;
+}
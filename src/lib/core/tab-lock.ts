@@ -0,0 +1,114 @@
+/**
+ * Tab Lock - Decides which tab may save a project, from the messages tabs send each other.
+ *
+ * The first edit to a project claims it: a tab that was editing the same project gives it up
+ * and asks its user which version to keep. Opening a project claims nothing, so a tab that
+ * reloads another tab's version does not take it back. When two tabs claim at once, the later
+ * claim wins (ties go to the higher tab id), so exactly one of them yields.
+ *
+ * Kept free of BroadcastChannel and stores so it can run against a fake channel; tab-sync.ts
+ * wires it to the browser.
+ */
+
+import type { ProjectConflict } from '../../stores/projectLibraryStore';
+
+export type TabMessage =
+	| { type: 'claim'; projectId: string; from: string; at: number }
+	| { type: 'saved'; projectId: string; from: string }
+	| { type: 'yielded'; projectId: string; from: string; to: string };
+
+export interface TabChannel {
+	postMessage(message: TabMessage): void;
+}
+
+/** What the lock reads from and reports to the rest of the app */
+export interface TabLockContext {
+	activeProjectId(): string | null;
+	conflict(): ProjectConflict | null;
+	raiseConflict(conflict: ProjectConflict): void;
+	/** Another tab gave up the active project to this one */
+	yielded(): void;
+	now?(): number;
+}
+
+export interface TabLock {
+	receive(message: TabMessage): void;
+	claim(projectId: string): void;
+	opened(projectId: string): void;
+	noteEdit(projectId: string): void;
+	announceSave(projectId: string): void;
+	maySave(projectId: string | null): boolean;
+	/** The project this tab is editing, if any */
+	readonly held: string | null;
+}
+
+export function createTabLock(tabId: string, channel: TabChannel, context: TabLockContext): TabLock {
+	const now = context.now ?? Date.now;
+	/** The project this tab is editing and when it claimed it, and one that another tab has saved since this tab opened it */
+	let heldProject: string | null = null;
+	let claimedAt = 0;
+	let staleProject: string | null = null;
+
+	function raiseConflict(projectId: string, reason: ProjectConflict['reason']) {
+		if (context.conflict()?.projectId === projectId) return;
+		context.raiseConflict({ projectId, reason });
+	}
+
+	/** True while autosave has to wait for the user to resolve a conflict on the active project */
+	function isPaused(): boolean {
+		const conflict = context.conflict();
+		return conflict !== null && conflict.projectId === context.activeProjectId();
+	}
+
+	/** A claim crossing this tab's own wins only if it was made later */
+	function outranks(message: { from: string; at: number }): boolean {
+		return message.at > claimedAt || (message.at === claimedAt && message.from > tabId);
+	}
+
+	function claim(projectId: string) {
+		heldProject = projectId;
+		claimedAt = now();
+		staleProject = null;
+		channel.postMessage({ type: 'claim', projectId, from: tabId, at: claimedAt });
+	}
+
+	return {
+		receive(data) {
+			if (data.from === tabId) return;
+			const isActive = data.projectId === context.activeProjectId();
+			const isHeld = data.projectId === heldProject;
+
+			if (data.type === 'claim' && isActive && isHeld) {
+				if (!outranks(data)) return;
+				heldProject = null;
+				raiseConflict(data.projectId, 'claimed');
+				channel.postMessage({ type: 'yielded', projectId: data.projectId, from: tabId, to: data.from });
+			} else if (data.type === 'saved' && isActive && isHeld) {
+				raiseConflict(data.projectId, 'saved');
+			} else if (data.type === 'saved') {
+				staleProject = data.projectId;
+			} else if (data.type === 'yielded' && data.to === tabId && isActive) {
+				context.yielded();
+			}
+		},
+		claim,
+		opened(projectId) {
+			if (heldProject === projectId) heldProject = null;
+			if (staleProject === projectId) staleProject = null;
+		},
+		noteEdit(projectId) {
+			if (heldProject === projectId || isPaused()) return;
+			if (staleProject === projectId) raiseConflict(projectId, 'saved');
+			else claim(projectId);
+		},
+		announceSave(projectId) {
+			channel.postMessage({ type: 'saved', projectId, from: tabId });
+		},
+		maySave(projectId) {
+			return projectId === null || (projectId === heldProject && !isPaused());
+		},
+		get held() {
+			return heldProject;
+		}
+	};
+}
@@ -0,0 +1,70 @@
+/**
+ * Tab Sync - Coordinates tabs that share the project library, over a BroadcastChannel.
+ *
+ * Which tab may save a project is decided by the lock in tab-lock.ts; this module connects it to
+ * the channel and the stores. A tab that loses a project pauses its autosave and asks the user
+ * which version to keep (projectConflict). Every autosave is announced; a tab that has not
+ * edited just notes that its copy is out of date, and asks the user only if they then start
+ * editing it. Browsers without BroadcastChannel skip all of this and behave as a single tab.
+ */
+
+import { get } from 'svelte/store';
+import { activeProject, projectConflict } from '../../stores/projectLibraryStore';
+import { toast } from '../../stores/toastStore';
+import { createTabLock, type TabMessage } from './tab-lock';
+
+const CHANNEL_NAME = 'transcript-explorer-tabs';
+
+const tabId =
+	typeof crypto !== 'undefined' && 'randomUUID' in crypto ? crypto.randomUUID() : `tab-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+let channel: BroadcastChannel | null = null;
+
+const lock = createTabLock(
+	tabId,
+	{ postMessage: (message) => channel?.postMessage(message) },
+	{
+		activeProjectId: () => get(activeProject).id,
+		conflict: () => get(projectConflict),
+		raiseConflict: (conflict) => projectConflict.set(conflict),
+		yielded: () => toast.info('This project was also being edited in another tab. That tab has stopped saving it.')
+	}
+);
+
+function handleMessage({ data }: MessageEvent<TabMessage>) {
+	lock.receive(data);
+}
+
+/** Opens the channel; returns a teardown for onMount */
+export function startTabSync(): () => void {
+	if (typeof BroadcastChannel === 'undefined' || channel) return () => {};
+	channel = new BroadcastChannel(CHANNEL_NAME);
+	channel.addEventListener('message', handleMessage);
+	return () => {
+		channel?.close();
+		channel = null;
+	};
+}
+
+/** Takes the project for this tab; any other tab editing it pauses and asks its user */
+export function claimProject(projectId: string): void {
+	lock.claim(projectId);
+}
+
+/** Records a project just read from the library: its copy is current and not yet edited here */
+export function projectOpened(projectId: string): void {
+	lock.opened(projectId);
+}
+
+/** Called on each edit: claims the project, or asks the user first if another tab saved a newer version */
+export function noteProjectEdit(projectId: string): void {
+	lock.noteEdit(projectId);
+}
+
+export function announceSave(projectId: string): void {
+	lock.announceSave(projectId);
+}
+
+/** Whether autosave may write the project: new projects always, saved ones only by the tab editing them */
+export function maySaveProject(projectId: string | null): boolean {
+	return lock.maySave(projectId);
+}
@@ -0,0 +1,86 @@
+/**
+ * Text Encoding - Detects and decodes the character encoding of uploaded text files.
+ *
+ * Detection order: byte order mark, BOM-less UTF-16 (zero bytes in alternating positions),
+ * strict UTF-8, then Windows-1252 as the fallback for files from older Windows tools.
+ */
+
+export type TextEncodingName = 'utf-8' | 'utf-16le' | 'utf-16be' | 'windows-1252' | 'windows-1250' | 'windows-1251' | 'iso-8859-15' | 'macintosh';
+
+export const TEXT_ENCODING_LABELS: Record<TextEncodingName, string> = {
+	'utf-8': 'UTF-8',
+	'utf-16le': 'UTF-16 LE',
+	'utf-16be': 'UTF-16 BE',
+	'windows-1252': 'Windows-1252 (Western)',
+	'windows-1250': 'Windows-1250 (Central European)',
+	'windows-1251': 'Windows-1251 (Cyrillic)',
+	'iso-8859-15': 'ISO-8859-15 (Latin-9)',
+	macintosh: 'Mac Roman'
+};
+
+/** Bytes inspected when guessing BOM-less UTF-16 */
+const UTF16_SAMPLE_SIZE = 4096;
+
+/**
+ * Guesses BOM-less UTF-16 from mostly-ASCII text: one byte of each pair is zero.
+ */
+function detectUTF16WithoutBOM(bytes: Uint8Array): TextEncodingName | null {
+	const length = Math.min(bytes.length, UTF16_SAMPLE_SIZE) & ~1;
+	if (length < 4) return null;
+
+	let evenZeros = 0;
+	let oddZeros = 0;
+	for (let i = 0; i < length; i += 2) {
+		if (bytes[i] === 0) evenZeros++;
+		if (bytes[i + 1] === 0) oddZeros++;
+	}
+
+	const pairs = length / 2;
+	if (oddZeros > pairs * 0.4 && evenZeros < pairs * 0.05) return 'utf-16le';
+	if (evenZeros > pairs * 0.4 && oddZeros < pairs * 0.05) return 'utf-16be';
+	return null;
+}
+
+/**
+ * Detects the most likely encoding of raw file bytes.
+ */
+export function detectTextEncoding(bytes: Uint8Array): TextEncodingName {
+	if (bytes[0] === 0xef && bytes[1] === 0xbb && bytes[2] === 0xbf) return 'utf-8';
+	if (bytes[0] === 0xff && bytes[1] === 0xfe) return 'utf-16le';
+	if (bytes[0] === 0xfe && bytes[1] === 0xff) return 'utf-16be';
+
+	const utf16 = detectUTF16WithoutBOM(bytes);
+	if (utf16) return utf16;
+
+	try {
+		new TextDecoder('utf-8', { fatal: true }).decode(bytes);
+		return 'utf-8';
+	} catch {
+		return 'windows-1252';
+	}
+}
+
+/**
+ * Decodes bytes with the given encoding, dropping a matching byte order mark.
+ */
+export function decodeText(bytes: Uint8Array, encoding: TextEncodingName): string {
+	return new TextDecoder(encoding).decode(bytes);
+}
+
+/**
+ * Reads a file as text, detecting its encoding unless one is given.
+ * Throws if the file cannot be read or is empty.
+ */
+export async function readTextFile(file: File, encoding?: TextEncodingName): Promise<{ text: string; encoding: TextEncodingName }> {
+	let bytes: Uint8Array;
+	try {
+		bytes = new Uint8Array(await file.arrayBuffer());
+	} catch {
+		throw new Error(`Failed to read file: ${file.name}`);
+	}
+
+	const resolved = encoding ?? detectTextEncoding(bytes);
+	const text = decodeText(bytes, resolved);
+	if (!text) throw new Error(`Failed to read file: ${file.name}`);
+	return { text, encoding: resolved };
+}
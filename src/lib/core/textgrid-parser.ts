@@ -0,0 +1,160 @@
+/**
+ * TextGrid Parser - Parses Praat TextGrid files (long and short text formats) into annotation tiers.
+ *
+ * Long format:
+ *   item [1]:
+ *       class = "IntervalTier"
+ *       name = "Mary"
+ *       intervals: size = 1
+ *       intervals [1]:
+ *           xmin = 0
+ *           xmax = 1.5
+ *           text = "hello"
+ *
+ * Short format lists the same values one per line without labels:
+ *   "IntervalTier"
+ *   "Mary"
+ *   0
+ *   2.3
+ *   1
+ *   0
+ *   1.5
+ *   "hello"
+ *
+ * Both formats reduce to the same stream of numbers and strings once labels are dropped,
+ * so a single token reader handles either. IntervalTiers map to speakers; TextTiers
+ * (points) become instant annotations that can only be imported as codes.
+ */
+
+import type { AnnotationTier, TierAnnotation } from './tier-utils';
+
+type Token = { type: 'number'; value: number } | { type: 'string'; value: string } | { type: 'flag'; value: boolean };
+
+/**
+ * Splits TextGrid text into value tokens. Quoted strings use "" to escape a quote and
+ * may span lines; "!" starts a comment; labels such as `xmin =` or `item [1]:` are dropped.
+ */
+function tokenize(text: string): Token[] {
+	const tokens: Token[] = [];
+	let i = 0;
+
+	while (i < text.length) {
+		const ch = text[i];
+
+		if (/\s/.test(ch)) {
+			i++;
+		} else if (ch === '"') {
+			let value = '';
+			i++;
+			while (i < text.length) {
+				if (text[i] === '"') {
+					if (text[i + 1] === '"') {
+						value += '"';
+						i += 2;
+						continue;
+					}
+					i++;
+					break;
+				}
+				value += text[i++];
+			}
+			tokens.push({ type: 'string', value });
+		} else if (ch === '!') {
+			while (i < text.length && text[i] !== '\n') i++;
+		} else {
+			let word = '';
+			while (i < text.length && !/\s/.test(text[i]) && text[i] !== '"') {
+				word += text[i++];
+			}
+			if (word === '<exists>') {
+				tokens.push({ type: 'flag', value: true });
+			} else if (word === '<absent>') {
+				tokens.push({ type: 'flag', value: false });
+			} else if (/^-?\d+(\.\d+)?(e[-+]?\d+)?$/i.test(word)) {
+				tokens.push({ type: 'number', value: Number(word) });
+			}
+		}
+	}
+
+	return tokens;
+}
+
+class TokenReader {
+	private index = 0;
+
+	constructor(private tokens: Token[]) {}
+
+	number(): number {
+		const token = this.tokens[this.index++];
+		if (token?.type !== 'number') throw new Error('Invalid TextGrid file: expected a number.');
+		return token.value;
+	}
+
+	string(): string {
+		const token = this.tokens[this.index++];
+		if (token?.type !== 'string') throw new Error('Invalid TextGrid file: expected a quoted string.');
+		return token.value;
+	}
+
+	flag(): boolean {
+		const token = this.tokens[this.index];
+		if (token?.type !== 'flag') return true; // Older files omit the <exists> flag
+		this.index++;
+		return token.value;
+	}
+}
+
+/**
+ * Parses TextGrid text into tiers with start/end times in seconds.
+ * Throws if the text is not a text-format TextGrid.
+ */
+export function parseTextGridText(text: string): AnnotationTier[] {
+	const reader = new TokenReader(tokenize(text.replace(/^\uFEFF/, '')));
+
+	// Older short-format files declare "ooTextFile short"
+	if (!reader.string().startsWith('ooTextFile') || reader.string() !== 'TextGrid') {
+		throw new Error('Invalid TextGrid file: expected "ooTextFile" and "TextGrid" header.');
+	}
+
+	reader.number(); // xmin
+	reader.number(); // xmax
+	if (!reader.flag()) return [];
+
+	const tierCount = reader.number();
+	const tiers: AnnotationTier[] = [];
+	const usedIds = new Set<string>();
+
+	for (let t = 0; t < tierCount; t++) {
+		const tierClass = reader.string();
+		const name = reader.string();
+		reader.number(); // tier xmin
+		reader.number(); // tier xmax
+		const count = reader.number();
+
+		const annotations: TierAnnotation[] = [];
+		const isPoint = tierClass === 'TextTier';
+
+		for (let a = 0; a < count; a++) {
+			if (isPoint) {
+				const time = reader.number();
+				const mark = reader.string();
+				if (mark.trim()) annotations.push({ startTime: time, endTime: time, value: mark });
+			} else {
+				const start = reader.number();
+				const end = reader.number();
+				const value = reader.string();
+				// Empty intervals are silence/gaps between a speaker's turns
+				if (value.trim()) annotations.push({ startTime: start, endTime: Math.max(start, end), value });
+			}
+		}
+
+		// Praat allows duplicate tier names; ids must be unique for the role mapping
+		let id = name || `Tier ${t + 1}`;
+		if (usedIds.has(id)) id = `${id} (${t + 1})`;
+		usedIds.add(id);
+
+		tiers.push({ id, speaker: name || `SPEAKER ${t + 1}`, parentId: null, annotations, isPoint });
+	}
+
+	return tiers;
+}
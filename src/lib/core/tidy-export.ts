@@ -0,0 +1,109 @@
+/**
+ * Tidy Export - Long-format tables of the processed data for analysis in R or Python.
+ *
+ * Three tables, one observation per row: words, turns and speakers. They are built from
+ * what DynamicData hands the visualizations (current filters, enabled speakers, timeline
+ * selection and animation progress), so the numbers match what is drawn. Times are plain
+ * seconds and are left empty for untimed transcripts; flags are true/false.
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+import type { SpeakerFingerprintData, TurnClassification } from './dynamic-data';
+import { normalizeWord } from './string-utils';
+
+export type TidyValue = string | number | boolean | null;
+
+export interface TidyTable {
+	columns: string[];
+	rows: Record<string, TidyValue>[];
+}
+
+/** Separator for multiple codes in one cell; split with `strsplit(codes, ";")` or `str.split(";")` */
+const CODE_SEPARATOR = ';';
+
+const round = (value: number, places = 3) => Math.round(value * 10 ** places) / 10 ** places;
+
+const time = (seconds: number, timed: boolean): number | null => (timed ? round(seconds) : null);
+
+export function buildTidyWordTable(words: DataPoint[], timed: boolean, isStopWord: (word: string) => boolean): TidyTable {
+	return {
+		columns: ['speaker', 'turn', 'start', 'end', 'word', 'normalized_word', 'is_stopword', 'codes'],
+		rows: words.map((dp) => ({
+			speaker: dp.speaker,
+			turn: dp.turnNumber,
+			start: time(dp.startTime, timed),
+			end: time(dp.endTime, timed),
+			word: dp.word,
+			normalized_word: normalizeWord(dp.word),
+			is_stopword: isStopWord(dp.word),
+			codes: dp.codes.join(CODE_SEPARATOR)
+		}))
+	};
+}
+
+/**
+ * One row per turn. Codes are every code on any of the turn's words, in first-seen order.
+ */
+export function buildTidyTurnTable(turns: TurnClassification[], words: DataPoint[], timed: boolean): TidyTable {
+	const turnCodes = new Map<number, Set<string>>();
+	for (const dp of words) {
+		if (dp.codes.length === 0) continue;
+		let codes = turnCodes.get(dp.turnNumber);
+		if (!codes) turnCodes.set(dp.turnNumber, (codes = new Set()));
+		for (const code of dp.codes) codes.add(code);
+	}
+
+	return {
+		columns: ['turn', 'speaker', 'start', 'end', 'duration', 'word_count', 'is_question', 'is_interruption', 'is_consecutive', 'codes', 'content'],
+		rows: [...turns]
+			.sort((a, b) => a.turnNumber - b.turnNumber)
+			.map((turn) => ({
+				turn: turn.turnNumber,
+				speaker: turn.speaker,
+				start: time(turn.startTime, timed),
+				end: time(turn.endTime, timed),
+				duration: time(turn.endTime - turn.startTime, timed),
+				word_count: turn.wordCount,
+				is_question: turn.isQuestion,
+				is_interruption: turn.isInterruption,
+				is_consecutive: turn.isConsecutive,
+				codes: [...(turnCodes.get(turn.turnNumber) ?? [])].join(CODE_SEPARATOR),
+				content: turn.content
+			}))
+	};
+}
+
+/**
+ * One row per speaker with the fingerprint counts and rates. Rates are raw proportions;
+ * the radar chart's max-normalized values are left out as they only make sense on the chart.
+ */
+export function buildTidySpeakerTable(fingerprints: SpeakerFingerprintData[]): TidyTable {
+	return {
+		columns: [
+			'speaker',
+			'word_count',
+			'turn_count',
+			'mean_turn_length',
+			'question_turns',
+			'interruption_turns',
+			'consecutive_turns',
+			'participation_rate',
+			'question_rate',
+			'interruption_rate',
+			'consecutive_rate'
+		],
+		rows: fingerprints.map((fp) => ({
+			speaker: fp.speaker,
+			word_count: fp.totalWords,
+			turn_count: fp.totalTurns,
+			mean_turn_length: fp.totalTurns > 0 ? round(fp.totalWords / fp.totalTurns, 4) : 0,
+			question_turns: fp.questionTurns,
+			interruption_turns: fp.interruptionTurns,
+			consecutive_turns: fp.consecutiveTurns,
+			participation_rate: round(fp.rawParticipationRate, 4),
+			question_rate: round(fp.rawQuestionRate, 4),
+			interruption_rate: round(fp.rawInterruptionRate, 4),
+			consecutive_rate: round(fp.rawConsecutiveRate, 4)
+		}))
+	};
+}
@@ -0,0 +1,101 @@
+/**
+ * Tier Utilities - Shared model for tier-based annotation formats (ELAN .eaf, Praat .TextGrid).
+ * Each tier is mapped by the user to a speaker, a source of time-based codes, or skipped.
+ * The result is a ParseResult for createTranscriptFromParsedText plus ParsedCodes for applyCodesByTime.
+ */
+
+import { normalizeSpeakerName } from './string-utils';
+import type { ParseResult, ParsedTurn } from './text-parser';
+import type { ParsedCodes, TimeCodeEntry } from './code-utils';
+
+export type TierRole = 'speaker' | 'code' | 'skip';
+
+export interface TierAnnotation {
+	startTime: number;
+	endTime: number;
+	value: string;
+}
+
+export interface AnnotationTier {
+	id: string;
+	/** Speaker name used when the tier is mapped to a speaker (participant or tier id) */
+	speaker: string;
+	/** Parent tier id for dependent tiers, null for top-level tiers */
+	parentId: string | null;
+	annotations: TierAnnotation[];
+	/** Point tiers (Praat TextTier) mark instants rather than spans and can only become codes */
+	isPoint?: boolean;
+}
+
+export interface TierImportResult {
+	parseResult: ParseResult;
+	codes: Extract<ParsedCodes, { type: 'time' }>;
+}
+
+/**
+ * Default mapping: top-level tiers are transcription tiers (one speaker each),
+ * dependent and point tiers are skipped until the user opts them in as codes.
+ * Tiers whose every annotation is the tier's own name (code tiers written by the
+ * EAF/TextGrid export) are mapped to codes.
+ */
+export function getDefaultTierRoles(tiers: AnnotationTier[]): Record<string, TierRole> {
+	const roles: Record<string, TierRole> = {};
+	for (const tier of tiers) {
+		const isCodeTier = tier.annotations.length > 0 && tier.annotations.every((a) => a.value.trim() === tier.speaker.trim());
+		if (isCodeTier) roles[tier.id] = 'code';
+		else roles[tier.id] = tier.parentId === null && !tier.isPoint && tier.annotations.length > 0 ? 'speaker' : 'skip';
+	}
+	return roles;
+}
+
+/**
+ * Builds turns and time-based codes from the tiers according to their roles.
+ * Speaker turns are ordered by start time; each non-empty annotation becomes one turn.
+ * Code annotations use their value as the code name, falling back to the tier id when empty.
+ */
+export function buildTierImport(tiers: AnnotationTier[], roles: Record<string, TierRole>): TierImportResult {
+	const turns: ParsedTurn[] = [];
+	const codeEntries: TimeCodeEntry[] = [];
+	let annotationCount = 0;
+
+	for (const tier of tiers) {
+		const role = roles[tier.id] ?? 'skip';
+		if (role === 'skip') continue;
+
+		for (const annotation of tier.annotations) {
+			annotationCount++;
+			const value = annotation.value.trim();
+
+			if (role === 'speaker') {
+				if (!value) continue;
+				turns.push({
+					speaker: normalizeSpeakerName(tier.speaker),
+					content: value,
+					startTime: annotation.startTime,
+					endTime: annotation.endTime
+				});
+			} else {
+				codeEntries.push({
+					code: value || tier.id,
+					startTime: annotation.startTime,
+					endTime: annotation.endTime
+				});
+			}
+		}
+	}
+
+	turns.sort((a, b) => a.startTime! - b.startTime!);
+
+	return {
+		parseResult: {
+			turns,
+			detectedFormat: 'timestamped',
+			hasTimestamps: true,
+			speakers: [...new Set(turns.map((t) => t.speaker))],
+			continuationLineCount: 0,
+			totalLineCount: annotationCount,
+			detectedTimingMode: 'startEnd'
+		},
+		codes: { type: 'time', entries: codeEntries }
+	};
+}
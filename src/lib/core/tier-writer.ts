@@ -0,0 +1,234 @@
+/**
+ * Tier Writer - Writes a transcript as ELAN (.eaf) or Praat (.TextGrid) annotation tiers.
+ *
+ * Each speaker gets a tier with one annotation per turn, and each code gets a tier with one
+ * annotation per coded span (merged like time-based code files), named after the code so the
+ * tier import reads it back. startEnd times are written as they are; startOnly transcripts use
+ * their estimated end times; untimed transcripts are laid out turn after turn at the speech rate.
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+import type { TimingMode } from '../../models/transcript';
+import type { User } from '../../models/user';
+import { estimateDuration } from './timing-utils';
+import { getCodeSpans } from './code-utils';
+import type { AnnotationTier, TierAnnotation } from './tier-utils';
+
+const ORIGIN = 'Transcript Explorer';
+
+export interface ExportTiers {
+	speakerTiers: AnnotationTier[];
+	codeTiers: AnnotationTier[];
+}
+
+/**
+ * Gives untimed transcripts real times: turns run back to back, each lasting the estimated
+ * speaking time of its words, with the words spread evenly across the turn.
+ */
+function estimateWordTimes(wordArray: DataPoint[], speechRateWordsPerSecond: number): DataPoint[] {
+	const turnWordCounts = new Map<number, number>();
+	for (const dp of wordArray) turnWordCounts.set(dp.turnNumber, (turnWordCounts.get(dp.turnNumber) ?? 0) + 1);
+
+	let turnStart = 0;
+	let currentTurn: number | null = null;
+	let wordIndex = 0;
+	let step = 0;
+	return wordArray.map((dp) => {
+		if (dp.turnNumber !== currentTurn) {
+			if (currentTurn !== null) turnStart += step * turnWordCounts.get(currentTurn)!;
+			currentTurn = dp.turnNumber;
+			wordIndex = 0;
+			const count = turnWordCounts.get(dp.turnNumber)!;
+			step = estimateDuration(count, speechRateWordsPerSecond) / count;
+		}
+		const startTime = turnStart + wordIndex * step;
+		wordIndex++;
+		return dp.copyWith({ startTime, endTime: startTime + step });
+	});
+}
+
+/**
+ * Keeps a tier's annotations in order and non-overlapping, as both ELAN and Praat require
+ * for a single tier. Overlapping annotations start where the previous one ends.
+ */
+function sequence(annotations: TierAnnotation[]): TierAnnotation[] {
+	const sorted = [...annotations].sort((a, b) => a.startTime - b.startTime);
+	const result: TierAnnotation[] = [];
+	let lastEnd = 0;
+	for (const annotation of sorted) {
+		const startTime = Math.max(annotation.startTime, lastEnd);
+		if (annotation.endTime <= startTime) continue;
+		result.push({ ...annotation, startTime });
+		lastEnd = annotation.endTime;
+	}
+	return result;
+}
+
+/**
+ * Builds one tier per user (one annotation per turn) followed by one tier per code.
+ * Code tiers come in the given code order, then any other codes found on the words.
+ */
+export function buildExportTiers(
+	wordArray: DataPoint[],
+	timingMode: TimingMode,
+	users: User[],
+	codeNames: string[],
+	speechRateWordsPerSecond: number
+): ExportTiers {
+	const words = timingMode === 'untimed' ? estimateWordTimes(wordArray, speechRateWordsPerSecond) : wordArray;
+
+	const turns = new Map<number, { speaker: string; startTime: number; endTime: number; words: string[] }>();
+	for (const dp of words) {
+		const turn = turns.get(dp.turnNumber);
+		if (!turn) {
+			turns.set(dp.turnNumber, { speaker: dp.speaker, startTime: dp.startTime, endTime: dp.endTime, words: [dp.word] });
+		} else {
+			turn.startTime = Math.min(turn.startTime, dp.startTime);
+			turn.endTime = Math.max(turn.endTime, dp.endTime);
+			turn.words.push(dp.word);
+		}
+	}
+
+	const speakerNames = [...new Set([...users.map((u) => u.name), ...[...turns.values()].map((t) => t.speaker)])];
+	const speakerTiers: AnnotationTier[] = speakerNames.map((name) => ({
+		id: name,
+		speaker: name,
+		parentId: null,
+		annotations: sequence(
+			[...turns.values()]
+				.filter((turn) => turn.speaker === name)
+				.map((turn) => ({ startTime: turn.startTime, endTime: turn.endTime, value: turn.words.join(' ') }))
+		)
+	}));
+
+	const usedIds = new Set(speakerNames);
+	const spansByCode = getCodeSpans(words);
+	const codeTiers = [...new Set([...codeNames, ...spansByCode.keys()])].map((code): AnnotationTier => {
+		// Tier ids must be unique; a code may share its name with a speaker
+		let id = code;
+		for (let n = 2; usedIds.has(id); n++) id = `${code} (${n})`;
+		usedIds.add(id);
+		return {
+			id,
+			speaker: code,
+			parentId: null,
+			annotations: sequence((spansByCode.get(code) ?? []).map((span) => ({ startTime: span.start, endTime: span.end, value: code })))
+		};
+	});
+
+	return { speakerTiers, codeTiers };
+}
+
+function getEndTime(tiers: AnnotationTier[]): number {
+	let end = 0;
+	for (const tier of tiers) {
+		for (const annotation of tier.annotations) end = Math.max(end, annotation.endTime);
+	}
+	return end;
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Writes tiers as an ELAN annotation document. Times are whole milliseconds and time slots
+ * are numbered in time order. Speaker tiers carry the speaker as PARTICIPANT.
+ */
+export function buildEAF({ speakerTiers, codeTiers }: ExportTiers): string {
+	const tiers = [...speakerTiers.map((tier) => ({ tier, type: 'utterance' })), ...codeTiers.map((tier) => ({ tier, type: 'code' }))];
+
+	// Slot ids follow time order: collect every boundary, then number them after sorting
+	const boundaries = tiers.flatMap(({ tier }) => tier.annotations.flatMap((a) => [Math.round(a.startTime * 1000), Math.round(a.endTime * 1000)]));
+	const order = boundaries.map((_, i) => i).sort((a, b) => boundaries[a] - boundaries[b] || a - b);
+	const slotIds: number[] = [];
+	order.forEach((boundary, i) => (slotIds[boundary] = i + 1));
+
+	let boundary = 0;
+	let annotationId = 0;
+	const tierXml = tiers.map(({ tier, type }) => {
+		const participant = type === 'utterance' ? ` PARTICIPANT="${escapeXml(tier.speaker)}"` : '';
+		const annotations = tier.annotations.map((annotation) => {
+			const startSlot = slotIds[boundary++];
+			const endSlot = slotIds[boundary++];
+			annotationId++;
+			return [
+				'        <ANNOTATION>',
+				`            <ALIGNABLE_ANNOTATION ANNOTATION_ID="a${annotationId}" TIME_SLOT_REF1="ts${startSlot}" TIME_SLOT_REF2="ts${endSlot}">`,
+				`                <ANNOTATION_VALUE>${escapeXml(annotation.value)}</ANNOTATION_VALUE>`,
+				'            </ALIGNABLE_ANNOTATION>',
+				'        </ANNOTATION>'
+			].join('\n');
+		});
+		return [`    <TIER LINGUISTIC_TYPE_REF="${type}"${participant} TIER_ID="${escapeXml(tier.id)}">`, ...annotations, '    </TIER>'].join('\n');
+	});
+
+	const slotXml = order.map((index, i) => `        <TIME_SLOT TIME_SLOT_ID="ts${i + 1}" TIME_VALUE="${boundaries[index]}"/>`);
+
+	return [
+		'<?xml version="1.0" encoding="UTF-8"?>',
+		`<ANNOTATION_DOCUMENT AUTHOR="${ORIGIN}" DATE="${new Date().toISOString()}" FORMAT="3.0" VERSION="3.0">`,
+		'    <HEADER MEDIA_FILE="" TIME_UNITS="milliseconds"/>',
+		'    <TIME_ORDER>',
+		...slotXml,
+		'    </TIME_ORDER>',
+		...tierXml,
+		'    <LINGUISTIC_TYPE GRAPHIC_REFERENCES="false" LINGUISTIC_TYPE_ID="utterance" TIME_ALIGNABLE="true"/>',
+		'    <LINGUISTIC_TYPE GRAPHIC_REFERENCES="false" LINGUISTIC_TYPE_ID="code" TIME_ALIGNABLE="true"/>',
+		'</ANNOTATION_DOCUMENT>',
+		''
+	].join('\n');
+}
+
+function quoteTextGrid(value: string): string {
+	return `"${value.replace(/"/g, '""')}"`;
+}
+
+/**
+ * Writes tiers as a long-format Praat TextGrid. Interval tiers must cover the whole time
+ * range, so gaps between annotations are filled with empty intervals.
+ */
+export function buildTextGrid({ speakerTiers, codeTiers }: ExportTiers): string {
+	const tiers = [...speakerTiers, ...codeTiers];
+	const xmax = getEndTime(tiers);
+	const lines = [
+		'File type = "ooTextFile"',
+		'Object class = "TextGrid"',
+		'',
+		'xmin = 0',
+		`xmax = ${xmax}`,
+		'tiers? <exists>',
+		`size = ${tiers.length}`,
+		'item []:'
+	];
+
+	tiers.forEach((tier, t) => {
+		const intervals: TierAnnotation[] = [];
+		let cursor = 0;
+		for (const annotation of tier.annotations) {
+			if (annotation.startTime > cursor) intervals.push({ startTime: cursor, endTime: annotation.startTime, value: '' });
+			intervals.push(annotation);
+			cursor = annotation.endTime;
+		}
+		if (cursor < xmax || intervals.length === 0) intervals.push({ startTime: cursor, endTime: xmax, value: '' });
+
+		lines.push(
+			`    item [${t + 1}]:`,
+			'        class = "IntervalTier"',
+			`        name = ${quoteTextGrid(tier.id)}`,
+			'        xmin = 0',
+			`        xmax = ${xmax}`,
+			`        intervals: size = ${intervals.length}`
+		);
+		intervals.forEach((interval, i) => {
+			lines.push(
+				`        intervals [${i + 1}]:`,
+				`            xmin = ${interval.startTime}`,
+				`            xmax = ${interval.endTime}`,
+				`            text = ${quoteTextGrid(interval.value)}`
+			);
+		});
+	});
+
+	return lines.join('\n') + '\n';
+}
@@ -1,4 +1,4 @@
-import { Duration } from 'luxon';
+import { DateTime, Duration } from 'luxon';
 
 /**
  * Converts various time formats to seconds.
@@ -68,3 +68,21 @@ export function formatTimeCompact(seconds: number): string {
 	const duration = Duration.fromObject({ seconds: rounded });
 	return rounded < 3600 ? duration.toFormat('m:ss') : duration.toFormat('h:mm:ss');
 }
+
+const SECONDS_PER_DAY = 86400;
+
+/**
+ * Formats seconds from an absolute start (e.g. the first message of a chat export) as a
+ * clock time. Spans over a day include the weekday; spans over a week include the date.
+ */
+export function formatClockTime(seconds: number, startDate: string, spanSeconds: number): string {
+	const date = DateTime.fromISO(startDate).plus({ seconds: Math.round(Number.isFinite(seconds) ? seconds : 0) });
+	if (!date.isValid) return formatTimeCompact(seconds);
+	if (spanSeconds < SECONDS_PER_DAY) return date.toFormat('HH:mm');
+	return date.toFormat(spanSeconds < 7 * SECONDS_PER_DAY ? 'ccc HH:mm' : 'd LLL HH:mm');
+}
+
+/** Formats a timeline axis label: clock time for transcripts with a start date, elapsed time otherwise */
+export function formatTimelineLabel(seconds: number, transcript: { startDate: string | null; totalTimeInSeconds: number }): string {
+	return transcript.startDate ? formatClockTime(seconds, transcript.startDate, transcript.totalTimeInSeconds) : formatTimeCompact(seconds);
+}
@@ -4,10 +4,11 @@
  */
 
 import { DataPoint } from '../../models/dataPoint';
-import { Transcript, type TimingMode } from '../../models/transcript';
+import { Transcript, type TimingMode, type TranscriptSession } from '../../models/transcript';
 import type { User } from '../../models/user';
 import type { TranscriptionSegment } from './transcription-service';
 import type { ParseResult } from './text-parser';
+import type { TimedWord } from './word-timing-parser';
 import { getUserColors } from '../constants/ui';
 import { calculateTranscriptStats } from './transcript-stats';
 import { splitIntoWordTokens } from './string-utils';
@@ -42,6 +43,8 @@ interface TimedSegment {
 	text: string;
 	start: number;
 	end: number;
+	/** Falls back to the default speaker when the source has no speaker labels */
+	speaker?: string;
 }
 
 /**
@@ -61,18 +64,21 @@ function createTranscriptFromTimedSegments(
 	overrideDuration?: number
 ): TranscriptCreationResult {
 	const wordArray: DataPoint[] = [];
+	const speakers: string[] = [];
 
 	let turnIndex = 0;
 	for (const segment of segments) {
 		const tokens = splitIntoWordTokens(segment.text);
 		if (tokens.length === 0) continue;
 
+		const speaker = segment.speaker ?? defaultSpeaker;
+		if (!speakers.includes(speaker)) speakers.push(speaker);
 		const wordDuration = (segment.end - segment.start) / tokens.length;
 
 		tokens.forEach((token, wordIndex) => {
 			const wordStart = segment.start + wordIndex * wordDuration;
 			const wordEnd = segment.start + (wordIndex + 1) * wordDuration;
-			wordArray.push(new DataPoint(defaultSpeaker, turnIndex, token, wordStart, wordEnd));
+			wordArray.push(new DataPoint(speaker, turnIndex, token, wordStart, wordEnd));
 		});
 		turnIndex++;
 	}
@@ -88,7 +94,63 @@ function createTranscriptFromTimedSegments(
 	transcript.totalTimeInSeconds = overrideDuration ?? maxTime;
 	Object.assign(transcript, stats);
 
-	return { transcript, users: [{ name: defaultSpeaker, color: defaultColor, enabled: true }] };
+	// First speaker keeps the caller's color so single-speaker sources look as before
+	const userColors = getUserColors();
+	const users: User[] = (speakers.length > 0 ? speakers : [defaultSpeaker]).map((speaker, index) => ({
+		name: speaker,
+		color: index === 0 ? defaultColor : userColors[index % userColors.length],
+		enabled: true
+	}));
+
+	return { transcript, users };
+}
+
+/**
+ * Creates a transcript from word-timestamped input (Whisper word output, WhisperX, Rev, ...).
+ * Unlike createTranscriptFromTimedSegments, every word keeps its own start and end time.
+ * A new turn starts whenever the word's turn index or speaker changes.
+ */
+export function createTranscriptFromTimedWords(words: TimedWord[]): TranscriptCreationResult {
+	const wordArray: DataPoint[] = [];
+	const speakers: string[] = [];
+
+	let turnIndex = -1;
+	let previous: TimedWord | null = null;
+	for (const word of words) {
+		const tokens = splitIntoWordTokens(word.word);
+		if (tokens.length === 0) continue;
+
+		if (!previous || previous.turn !== word.turn || previous.speaker !== word.speaker) turnIndex++;
+		if (!speakers.includes(word.speaker)) speakers.push(word.speaker);
+
+		// Multi-token entries (e.g. "New York" in vendor exports) share the word's span
+		const tokenDuration = (word.endTime - word.startTime) / tokens.length;
+		tokens.forEach((token, tokenIndex) => {
+			const start = word.startTime + tokenIndex * tokenDuration;
+			wordArray.push(new DataPoint(word.speaker, turnIndex, token, start, start + tokenDuration));
+		});
+		previous = word;
+	}
+
+	const maxTime = wordArray.reduce((max, dp) => Math.max(max, dp.endTime), 0);
+	const stats = calculateTranscriptStats(wordArray);
+
+	const transcript = new Transcript();
+	transcript.wordArray = wordArray;
+	transcript.timingMode = 'startEnd';
+	transcript.totalNumOfWords = wordArray.length;
+	transcript.totalConversationTurns = turnIndex + 1;
+	transcript.totalTimeInSeconds = maxTime;
+	Object.assign(transcript, stats);
+
+	const userColors = getUserColors();
+	const users: User[] = speakers.map((speaker, index) => ({
+		name: speaker,
+		color: userColors[index % userColors.length],
+		enabled: true
+	}));
+
+	return { transcript, users };
 }
 
 export function createTranscriptFromWhisper(segments: TranscriptionSegment[], videoDuration: number, defaultColor: string): TranscriptCreationResult {
@@ -169,7 +231,73 @@ export function createTranscriptFromSubtitle(parseResult: ParseResult, defaultCo
 	const segments: TimedSegment[] = parseResult.turns.map((turn) => ({
 		text: turn.content,
 		start: turn.startTime ?? 0,
-		end: turn.endTime ?? turn.startTime ?? 0
+		end: turn.endTime ?? turn.startTime ?? 0,
+		speaker: turn.speaker
 	}));
 	return createTranscriptFromTimedSegments(segments, 'SPEAKER 1', defaultColor);
 }
+
+export interface SessionSource {
+	label: string;
+	transcript: Transcript;
+}
+
+/** Least precise first: combining a timed and an untimed session yields an untimed transcript */
+const TIMING_MODE_ORDER: TimingMode[] = ['untimed', 'startOnly', 'startEnd'];
+
+/**
+ * Concatenates several transcripts (e.g. one per recording of a lesson) into one.
+ * Turns are renumbered consecutively and each session's times are offset to start where
+ * the previous session ended. Session boundaries are kept in transcript.sessions.
+ * Speakers with the same name are merged across sessions. The first session's start date is
+ * kept; later sessions follow on by duration, so their own dates are not used.
+ */
+export function createTranscriptFromSessions(sources: SessionSource[]): TranscriptCreationResult {
+	const wordArray: DataPoint[] = [];
+	const sessions: TranscriptSession[] = [];
+	const speakers: string[] = [];
+	let nextTurn = 0;
+	let timeOffset = 0;
+
+	for (const { label, transcript } of sources) {
+		if (transcript.wordArray.length === 0) continue;
+		sessions.push({ label, startTurn: nextTurn, timeOffset });
+
+		const turnMap = new Map<number, number>();
+		for (const dp of transcript.wordArray) {
+			if (!turnMap.has(dp.turnNumber)) turnMap.set(dp.turnNumber, nextTurn + turnMap.size);
+			if (!speakers.includes(dp.speaker)) speakers.push(dp.speaker);
+			wordArray.push(
+				dp.copyWith({
+					turnNumber: turnMap.get(dp.turnNumber)!,
+					startTime: dp.startTime + timeOffset,
+					endTime: dp.endTime + timeOffset
+				})
+			);
+		}
+
+		nextTurn += turnMap.size;
+		timeOffset += transcript.wordArray.reduce((max, dp) => Math.max(max, dp.startTime, dp.endTime), 0);
+	}
+
+	const modeIndex = Math.min(...sources.map((source) => TIMING_MODE_ORDER.indexOf(source.transcript.timingMode)));
+
+	const transcript = new Transcript();
+	transcript.wordArray = wordArray;
+	transcript.timingMode = TIMING_MODE_ORDER[Math.max(0, modeIndex)];
+	transcript.sessions = sessions;
+	transcript.startDate = sources.find((source) => source.transcript.wordArray.length > 0)?.transcript.startDate ?? null;
+	transcript.totalNumOfWords = wordArray.length;
+	transcript.totalConversationTurns = nextTurn;
+	transcript.totalTimeInSeconds = timeOffset;
+	Object.assign(transcript, calculateTranscriptStats(wordArray));
+
+	const userColors = getUserColors();
+	const users: User[] = speakers.map((speaker, index) => ({
+		name: speaker,
+		color: userColors[index % userColors.length],
+		enabled: true
+	}));
+
+	return { transcript, users };
+}
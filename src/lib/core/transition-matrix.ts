@@ -0,0 +1,112 @@
+/**
+ * Transition Matrix - Lag-sequential statistics for speaker-to-speaker turn transitions.
+ *
+ * Every (from, to) speaker pair becomes a cell with its observed count, the count expected
+ * if the next speaker were independent of the current one, the word-weighted count (words
+ * in the turns that followed), the adjusted residual (z-score) and its two-tailed p-value.
+ * The turn network styles its edges with the same residuals.
+ *
+ *   expected[i][j] = rowSum[i] * colSum[j] / grandTotal
+ *   z[i][j]        = (observed - expected) / sqrt(expected * (1 - rowSum/grandTotal) * (1 - colSum/grandTotal))
+ */
+
+import type { DataPoint } from '../../models/dataPoint';
+
+export type TransitionCounts = Map<string, Map<string, { count: number; wordCount: number; turnStartPoints: DataPoint[] }>>;
+
+export interface TransitionCell {
+	from: string;
+	to: string;
+	observed: number;
+	expected: number;
+	wordCount: number;
+	z: number;
+	p: number;
+}
+
+/**
+ * Complementary error function (Numerical Recipes `erfcc`), fractional error below 1.2e-7,
+ * so small p-values keep their precision.
+ */
+function erfc(x: number): number {
+	const z = Math.abs(x);
+	const t = 1 / (1 + 0.5 * z);
+	const r =
+		t *
+		Math.exp(
+			-z * z -
+				1.26551223 +
+				t *
+					(1.00002368 +
+						t *
+							(0.37409196 +
+								t * (0.09678418 + t * (-0.18628806 + t * (0.27886807 + t * (-1.13520398 + t * (1.48851587 + t * (-0.82215223 + t * 0.17087277))))))))
+		);
+	return x >= 0 ? r : 2 - r;
+}
+
+/** Two-tailed p-value of a standard normal z-score */
+export function twoTailedP(z: number): number {
+	return Math.min(1, erfc(Math.abs(z) / Math.SQRT2));
+}
+
+/**
+ * Builds every cell of the square matrix over the speakers that appear as source or target.
+ * Speakers come in `speakerOrder` first, then any others in first-seen order. Cells with no
+ * expected transitions get z = 0 and p = 1. Returns no cells when there are no transitions.
+ */
+export function buildTransitionMatrix(transitions: TransitionCounts, speakerOrder: string[] = []): TransitionCell[] {
+	const seen = new Set<string>();
+	for (const [from, targets] of transitions) {
+		seen.add(from);
+		for (const to of targets.keys()) seen.add(to);
+	}
+	const speakers = [...speakerOrder.filter((s) => seen.has(s)), ...[...seen].filter((s) => !speakerOrder.includes(s))];
+
+	const rowSum = new Map<string, number>();
+	const colSum = new Map<string, number>();
+	let grandTotal = 0;
+	for (const [from, targets] of transitions) {
+		for (const [to, entry] of targets) {
+			rowSum.set(from, (rowSum.get(from) ?? 0) + entry.count);
+			colSum.set(to, (colSum.get(to) ?? 0) + entry.count);
+			grandTotal += entry.count;
+		}
+	}
+	if (grandTotal === 0) return [];
+
+	const cells: TransitionCell[] = [];
+	for (const from of speakers) {
+		for (const to of speakers) {
+			const entry = transitions.get(from)?.get(to);
+			const observed = entry?.count ?? 0;
+			const ri = rowSum.get(from) ?? 0;
+			const cj = colSum.get(to) ?? 0;
+			const expected = (ri * cj) / grandTotal;
+			const denom = expected > 0 ? Math.sqrt(expected * (1 - ri / grandTotal) * (1 - cj / grandTotal)) : 0;
+			const z = denom > 0 ? (observed - expected) / denom : 0;
+			cells.push({ from, to, observed, expected, wordCount: entry?.wordCount ?? 0, z, p: twoTailedP(z) });
+		}
+	}
+	return cells;
+}
+
+/**
+ * CSV rows for the matrix, one per cell. Expected counts and z-scores keep 4 decimals;
+ * p-values keep 4 significant digits so very small values stay readable.
+ */
+export function buildTransitionTable(cells: TransitionCell[]): { columns: string[]; rows: Record<string, string | number>[] } {
+	const round = (value: number) => Math.round(value * 10000) / 10000;
+	return {
+		columns: ['from', 'to', 'observed', 'expected', 'word_weighted', 'z', 'p'],
+		rows: cells.map((cell) => ({
+			from: cell.from,
+			to: cell.to,
+			observed: cell.observed,
+			expected: round(cell.expected),
+			word_weighted: cell.wordCount,
+			z: round(cell.z),
+			p: Number(cell.p.toPrecision(4))
+		}))
+	};
+}
@@ -1,4 +1,5 @@
-import type { DataPoint } from '../../models/dataPoint';
+import { DataPoint } from '../../models/dataPoint';
+import { splitIntoWordTokens } from './string-utils';
 
 export interface Turn {
 	turnNumber: number;
@@ -41,3 +42,120 @@ export function getTurnsFromWordArray(wordArray: DataPoint[]): Turn[] {
 export function getTurnContent(turn: Turn): string {
 	return turn.words.join(' ');
 }
+
+/**
+ * Splits a turn in two before the word at `wordIndex` (counted within the turn).
+ * The later words become a new turn by the same speaker and later turns move up by one.
+ * The split time is the boundary word's own start time when words are timed individually,
+ * otherwise a share of the turn's duration by word count. Words keep their codes.
+ * Returns null if either part would be empty.
+ */
+export function splitTurn(wordArray: DataPoint[], turnNumber: number, wordIndex: number): DataPoint[] | null {
+	const turnWords = wordArray.filter((dp) => dp.turnNumber === turnNumber);
+	if (wordIndex <= 0 || wordIndex >= turnWords.length) return null;
+
+	const start = turnWords[0].startTime;
+	const end = Math.max(...turnWords.map((dp) => dp.endTime));
+	const boundary = turnWords[wordIndex].startTime;
+	const splitTime = boundary > start ? boundary : start + ((end - start) * wordIndex) / turnWords.length;
+
+	let position = 0;
+	return wordArray.map((dp) => {
+		if (dp.turnNumber > turnNumber) return dp.copyWith({ turnNumber: dp.turnNumber + 1 });
+		if (dp.turnNumber < turnNumber) return dp;
+		return position++ < wordIndex
+			? dp.copyWith({ endTime: Math.min(dp.endTime, splitTime) })
+			: dp.copyWith({ turnNumber: turnNumber + 1, startTime: Math.max(dp.startTime, splitTime) });
+	});
+}
+
+/**
+ * Replaces a turn's words with `tokens`. Words that are kept (matched in order on their text)
+ * keep their DataPoint, so their codes and times survive the edit; new words take the turn's
+ * speaker and the first word's times.
+ */
+export function replaceTurnWords(wordArray: DataPoint[], turnNumber: number, tokens: string[]): DataPoint[] {
+	const turnWords = wordArray.filter((dp) => dp.turnNumber === turnNumber);
+	if (turnWords.length === 0) return wordArray;
+
+	// Longest common subsequence of old words and new tokens
+	const n = turnWords.length;
+	const m = tokens.length;
+	const table = Array.from({ length: n + 1 }, () => new Array<number>(m + 1).fill(0));
+	for (let i = n - 1; i >= 0; i--) {
+		for (let j = m - 1; j >= 0; j--) {
+			table[i][j] = turnWords[i].word === tokens[j] ? table[i + 1][j + 1] + 1 : Math.max(table[i + 1][j], table[i][j + 1]);
+		}
+	}
+
+	const first = turnWords[0];
+	const newWords: DataPoint[] = [];
+	let i = 0;
+	for (let j = 0; j < m; j++) {
+		while (i < n && turnWords[i].word !== tokens[j] && table[i + 1][j] >= table[i][j + 1]) i++;
+		if (i < n && turnWords[i].word === tokens[j]) {
+			newWords.push(turnWords[i++]);
+		} else {
+			newWords.push(new DataPoint(first.speaker, turnNumber, tokens[j], first.startTime, first.endTime));
+		}
+	}
+
+	const start = wordArray.indexOf(first);
+	return [...wordArray.slice(0, start), ...newWords, ...wordArray.slice(start + n)];
+}
+
+/**
+ * Splits a turn being edited at the cursor, given the edited text on either side of it.
+ * The edit and the split are one change: kept words keep their codes, and a word the cursor
+ * falls inside is cut in two, both halves keeping that word's codes.
+ * Returns null unless there are words on both sides of the cursor.
+ */
+export function splitTurnAtText(wordArray: DataPoint[], turnNumber: number, before: string, after: string): DataPoint[] | null {
+	const head = splitIntoWordTokens(before);
+	const tail = splitIntoWordTokens(after);
+	if (head.length === 0 || tail.length === 0) return null;
+
+	const cut = before.match(/\S+$/)?.[0] === head[head.length - 1] && after.match(/^\S+/)?.[0] === tail[0];
+	const tokens = cut ? [...head.slice(0, -1), head[head.length - 1] + tail[0], ...tail.slice(1)] : [...head, ...tail];
+	let edited = replaceTurnWords(wordArray, turnNumber, tokens);
+	if (cut) {
+		const position = edited.findIndex((dp) => dp.turnNumber === turnNumber) + head.length - 1;
+		const word = edited[position];
+		edited = [
+			...edited.slice(0, position),
+			word.copyWith({ word: head[head.length - 1] }),
+			word.copyWith({ word: tail[0] }),
+			...edited.slice(position + 1)
+		];
+	}
+	return splitTurn(edited, turnNumber, head.length);
+}
+
+function isTimedAsWhole(words: DataPoint[]): boolean {
+	return words.every((dp) => dp.startTime === words[0].startTime && dp.endTime === words[0].endTime);
+}
+
+/**
+ * Joins the turn after `turnNumber` onto it, under this turn's speaker; later turns move down by one.
+ * Turns timed as a whole get one span from the first start to the last end, while
+ * individually timed words keep their times. Words keep their codes.
+ * Returns null if there is no next turn.
+ */
+export function mergeTurnWithNext(wordArray: DataPoint[], turnNumber: number): DataPoint[] | null {
+	const turnWords = wordArray.filter((dp) => dp.turnNumber === turnNumber);
+	const nextTurnNumber = wordArray.find((dp) => dp.turnNumber > turnNumber)?.turnNumber;
+	if (turnWords.length === 0 || nextTurnNumber === undefined) return null;
+
+	const nextWords = wordArray.filter((dp) => dp.turnNumber === nextTurnNumber);
+	const span =
+		isTimedAsWhole(turnWords) && isTimedAsWhole(nextWords)
+			? { startTime: turnWords[0].startTime, endTime: Math.max(turnWords[0].endTime, nextWords[0].endTime) }
+			: {};
+	const speaker = turnWords[0].speaker;
+
+	return wordArray.map((dp) => {
+		if (dp.turnNumber > nextTurnNumber) return dp.copyWith({ turnNumber: dp.turnNumber - 1 });
+		if (dp.turnNumber < turnNumber) return dp;
+		return dp.copyWith({ turnNumber, speaker, ...span });
+	});
+}
@@ -0,0 +1,222 @@
+/**
+ * WebM Muxer - Minimal WebM (Matroska) writer for a single video track.
+ *
+ * Takes frames already encoded by the browser's WebCodecs VideoEncoder (VP8 or VP9) and
+ * wraps them in EBML: header, segment info, one track, clusters of SimpleBlocks and cues
+ * so players can seek. The whole file is built in memory, so element sizes are known up
+ * front and no unknown-size elements are written. Audio and lacing are not supported.
+ */
+
+export type WebMCodec = 'V_VP8' | 'V_VP9';
+
+export interface WebMTrack {
+	codec: WebMCodec;
+	width: number;
+	height: number;
+	frameRate: number;
+}
+
+export interface EncodedVideoFrame {
+	data: Uint8Array;
+	/** Presentation time in milliseconds */
+	timestamp: number;
+	keyframe: boolean;
+}
+
+// Element IDs (Matroska spec), written as their raw bytes
+const EBML = 0x1a45dfa3;
+const EBML_VERSION = 0x4286;
+const EBML_READ_VERSION = 0x42f7;
+const EBML_MAX_ID_LENGTH = 0x42f2;
+const EBML_MAX_SIZE_LENGTH = 0x42f3;
+const DOC_TYPE = 0x4282;
+const DOC_TYPE_VERSION = 0x4287;
+const DOC_TYPE_READ_VERSION = 0x4285;
+const SEGMENT = 0x18538067;
+const INFO = 0x1549a966;
+const TIMECODE_SCALE = 0x2ad7b1;
+const MUXING_APP = 0x4d80;
+const WRITING_APP = 0x5741;
+const DURATION = 0x4489;
+const TRACKS = 0x1654ae6b;
+const TRACK_ENTRY = 0xae;
+const TRACK_NUMBER = 0xd7;
+const TRACK_UID = 0x73c5;
+const TRACK_TYPE = 0x83;
+const FLAG_LACING = 0x9c;
+const CODEC_ID = 0x86;
+const DEFAULT_DURATION = 0x23e383;
+const VIDEO = 0xe0;
+const PIXEL_WIDTH = 0xb0;
+const PIXEL_HEIGHT = 0xba;
+const CLUSTER = 0x1f43b675;
+const TIMECODE = 0xe7;
+const SIMPLE_BLOCK = 0xa3;
+const CUES = 0x1c53bb6b;
+const CUE_POINT = 0xbb;
+const CUE_TIME = 0xb3;
+const CUE_TRACK_POSITIONS = 0xb7;
+const CUE_TRACK = 0xf7;
+const CUE_CLUSTER_POSITION = 0xf1;
+
+const TRACK_TYPE_VIDEO = 1;
+const APP_NAME = 'Transcript Explorer';
+
+/** SimpleBlock timecodes are signed 16-bit offsets from their cluster */
+const MAX_CLUSTER_SPAN_MS = 32767;
+
+function idBytes(id: number): number[] {
+	const bytes: number[] = [];
+	for (let value = id; value > 0; value = Math.floor(value / 256)) bytes.unshift(value & 0xff);
+	return bytes;
+}
+
+/** Variable-length size: the leading 1 bit marks the length, all-ones values are reserved */
+function sizeBytes(size: number): number[] {
+	let length = 1;
+	while (size >= 2 ** (7 * length) - 1) length++;
+	const bytes: number[] = [];
+	let value = size;
+	for (let i = 0; i < length; i++) {
+		bytes.unshift(value % 256);
+		value = Math.floor(value / 256);
+	}
+	bytes[0] |= 1 << (8 - length);
+	return bytes;
+}
+
+function uintBytes(value: number): number[] {
+	const bytes: number[] = [];
+	for (let v = value; v > 0; v = Math.floor(v / 256)) bytes.unshift(v % 256);
+	return bytes.length ? bytes : [0];
+}
+
+function element(id: number, payload: Uint8Array | number[]): Uint8Array {
+	const body = payload instanceof Uint8Array ? payload : new Uint8Array(payload);
+	const header = [...idBytes(id), ...sizeBytes(body.length)];
+	const out = new Uint8Array(header.length + body.length);
+	out.set(header);
+	out.set(body, header.length);
+	return out;
+}
+
+function concat(parts: Uint8Array[]): Uint8Array {
+	const out = new Uint8Array(parts.reduce((total, part) => total + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		out.set(part, offset);
+		offset += part.length;
+	}
+	return out;
+}
+
+function uintElement(id: number, value: number): Uint8Array {
+	return element(id, uintBytes(value));
+}
+
+function stringElement(id: number, value: string): Uint8Array {
+	return element(id, new TextEncoder().encode(value));
+}
+
+function floatElement(id: number, value: number): Uint8Array {
+	const bytes = new Uint8Array(8);
+	new DataView(bytes.buffer).setFloat64(0, value);
+	return element(id, bytes);
+}
+
+function simpleBlock(frame: EncodedVideoFrame, clusterTime: number): Uint8Array {
+	const header = new Uint8Array(4);
+	header[0] = 0x81; // track number 1 as a one-byte vint
+	new DataView(header.buffer).setInt16(1, Math.round(frame.timestamp - clusterTime));
+	header[3] = frame.keyframe ? 0x80 : 0;
+	return element(SIMPLE_BLOCK, concat([header, frame.data]));
+}
+
+/**
+ * Builds a WebM file from encoded frames in presentation order. A cluster starts at
+ * every keyframe (and whenever a cluster would outgrow its 16-bit timecode range), and
+ * each keyframe cluster gets a cue point.
+ */
+export function buildWebM(track: WebMTrack, frames: EncodedVideoFrame[]): Uint8Array<ArrayBuffer> {
+	const header = element(EBML, [
+		...uintElement(EBML_VERSION, 1),
+		...uintElement(EBML_READ_VERSION, 1),
+		...uintElement(EBML_MAX_ID_LENGTH, 4),
+		...uintElement(EBML_MAX_SIZE_LENGTH, 8),
+		...stringElement(DOC_TYPE, 'webm'),
+		...uintElement(DOC_TYPE_VERSION, 2),
+		...uintElement(DOC_TYPE_READ_VERSION, 2)
+	]);
+
+	const frameDuration = 1000 / track.frameRate;
+	const lastFrame = frames[frames.length - 1];
+	const info = element(
+		INFO,
+		concat([
+			uintElement(TIMECODE_SCALE, 1_000_000), // timecodes in milliseconds
+			stringElement(MUXING_APP, APP_NAME),
+			stringElement(WRITING_APP, APP_NAME),
+			floatElement(DURATION, lastFrame ? lastFrame.timestamp + frameDuration : 0)
+		])
+	);
+
+	const tracks = element(
+		TRACKS,
+		element(
+			TRACK_ENTRY,
+			concat([
+				uintElement(TRACK_NUMBER, 1),
+				uintElement(TRACK_UID, 1),
+				uintElement(TRACK_TYPE, TRACK_TYPE_VIDEO),
+				uintElement(FLAG_LACING, 0),
+				stringElement(CODEC_ID, track.codec),
+				uintElement(DEFAULT_DURATION, Math.round(frameDuration * 1_000_000)),
+				element(VIDEO, concat([uintElement(PIXEL_WIDTH, track.width), uintElement(PIXEL_HEIGHT, track.height)]))
+			])
+		)
+	);
+
+	const clusters: Uint8Array[] = [];
+	const cuePoints: Uint8Array[] = [];
+	// Cluster positions are offsets from the start of the segment's payload
+	let position = info.length + tracks.length;
+	let blocks: Uint8Array[] = [];
+	let clusterTime = 0;
+
+	const closeCluster = () => {
+		if (blocks.length === 0) return;
+		const cluster = element(CLUSTER, concat([uintElement(TIMECODE, Math.round(clusterTime)), ...blocks]));
+		clusters.push(cluster);
+		position += cluster.length;
+		blocks = [];
+	};
+
+	for (const frame of frames) {
+		if (blocks.length === 0 || frame.keyframe || frame.timestamp - clusterTime > MAX_CLUSTER_SPAN_MS) {
+			closeCluster();
+			clusterTime = frame.timestamp;
+			if (frame.keyframe) {
+				cuePoints.push(
+					element(
+						CUE_POINT,
+						concat([
+							uintElement(CUE_TIME, Math.round(clusterTime)),
+							element(CUE_TRACK_POSITIONS, concat([uintElement(CUE_TRACK, 1), uintElement(CUE_CLUSTER_POSITION, position)]))
+						])
+					)
+				);
+			}
+		}
+		blocks.push(simpleBlock(frame, Math.round(clusterTime)));
+	}
+	closeCluster();
+
+	const segmentParts = [info, tracks, ...clusters];
+	if (cuePoints.length) segmentParts.push(element(CUES, concat(cuePoints)));
+	const segment = element(SEGMENT, concat(segmentParts));
+
+	const out = new Uint8Array(header.length + segment.length);
+	out.set(header);
+	out.set(segment, header.length);
+	return out;
+}
@@ -0,0 +1,249 @@
+/**
+ * Word Timing Parser - Parses word-timestamped transcription JSON into timed words.
+ *
+ * Supported shapes:
+ * 1. transformers.js (return_timestamps: 'word'):
+ *      { text, chunks: [{ text: " Hello", timestamp: [0.5, 0.9] }] }
+ * 2. WhisperX / OpenAI Whisper verbose_json:
+ *      { segments: [{ start, end, text, speaker?, words: [{ word, start, end, speaker? }] }] }
+ *      (OpenAI puts words in a top-level "words" array instead)
+ * 3. Rev:
+ *      { monologues: [{ speaker, speaker_name?, elements: [{ type: "text", value, ts, end_ts }] }] }
+ * 4. Otter / Descript-style utterance lists:
+ *      [{ speaker: "Ana" | { name }, words: [{ text, start, end }] }] (also under "utterances",
+ *      "transcripts" or "paragraphs"; "_ms" and "offset" time keys are milliseconds)
+ *
+ * Each word keeps its own start/end time. Turns break at segment/utterance boundaries
+ * and speaker changes; speakers come from diarization labels when present.
+ */
+
+import { estimateDuration } from './timing-utils';
+import { normalizeSpeakerName } from './string-utils';
+
+export interface TimedWord {
+	speaker: string;
+	word: string;
+	startTime: number;
+	endTime: number;
+	/** Index of the turn (segment/utterance, split at speaker changes) the word belongs to */
+	turn: number;
+}
+
+type JsonObject = Record<string, unknown>;
+
+interface RawWord {
+	text: string;
+	start: number | null;
+	end: number | null;
+	speaker: string | null;
+}
+
+const DEFAULT_SPEAKER = 'SPEAKER 1';
+const PAUSE_THRESHOLD = 1.0; // seconds - matches in-app Whisper segmenting
+
+const WORD_KEYS = ['word', 'punctuated_word', 'text', 'value'];
+const START_KEYS = ['start', 'start_time', 'startTime', 'ts', 'start_ms', 'startMs', 'start_offset', 'startOffset'];
+const END_KEYS = ['end', 'end_time', 'endTime', 'end_ts', 'end_ms', 'endMs', 'end_offset', 'endOffset'];
+const SEGMENT_KEYS = ['segments', 'monologues', 'utterances', 'transcripts', 'paragraphs'];
+const SEGMENT_WORD_KEYS = ['words', 'elements'];
+
+function isObject(value: unknown): value is JsonObject {
+	return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** Reads the first present time key, converting millisecond keys to seconds */
+function readTime(obj: JsonObject, keys: string[]): number | null {
+	for (const key of keys) {
+		const value = obj[key];
+		if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+		return /ms|offset/i.test(key) ? value / 1000 : value;
+	}
+	return null;
+}
+
+function readText(obj: JsonObject): string {
+	for (const key of WORD_KEYS) {
+		if (typeof obj[key] === 'string') return obj[key] as string;
+	}
+	return '';
+}
+
+/**
+ * Reads a diarization label. Numeric ids and "SPEAKER_00" labels become "SPEAKER 1" so they
+ * match the app's default speaker naming.
+ */
+function readSpeaker(obj: JsonObject): string | null {
+	const raw = obj.speaker_name ?? obj.speaker ?? obj.speaker_label ?? obj.speaker_id;
+	const value = isObject(raw) ? (raw.name ?? raw.label ?? raw.id) : raw;
+	if (typeof value === 'number') return `SPEAKER ${value + 1}`;
+	if (typeof value !== 'string' || !value.trim()) return null;
+
+	const label = value.trim().match(/^(?:SPEAKER|spk)[_ ]?(\d+)$/i);
+	if (label) return `SPEAKER ${Number(label[1]) + 1}`;
+	return normalizeSpeakerName(value);
+}
+
+/**
+ * Fills missing word times from neighbouring words and guarantees end >= start.
+ * Unaligned words (e.g. numbers in WhisperX) start where the previous word ended.
+ */
+function resolveTimes(turns: RawWord[][], speechRate: number): TimedWord[] {
+	const flat = turns.flatMap((words, turn) => words.map((word) => ({ ...word, turn })));
+	const result: TimedWord[] = [];
+	let previousEnd = 0;
+
+	for (let i = 0; i < flat.length; i++) {
+		const raw = flat[i];
+		const startTime = raw.start ?? previousEnd;
+		let endTime = raw.end;
+		if (endTime === null) {
+			let next = i + 1;
+			while (next < flat.length && flat[next].start === null) next++;
+			const nextStart = next < flat.length ? flat[next].start! : null;
+			endTime = nextStart !== null && nextStart > startTime ? nextStart : startTime + estimateDuration(1, speechRate);
+		}
+		endTime = Math.max(startTime, endTime);
+		previousEnd = endTime;
+
+		result.push({
+			speaker: raw.speaker ?? DEFAULT_SPEAKER,
+			word: raw.text,
+			startTime,
+			endTime,
+			turn: raw.turn
+		});
+	}
+	return result;
+}
+
+/** transformers.js word chunks: no segments, so split turns on pauses like the in-app transcriber */
+function parseTransformersChunks(chunks: unknown[]): RawWord[][] {
+	const turns: RawWord[][] = [];
+	let current: RawWord[] = [];
+
+	for (const chunk of chunks) {
+		if (!isObject(chunk)) continue;
+		const text = readText(chunk).trim();
+		const timestamp = Array.isArray(chunk.timestamp) ? chunk.timestamp : [];
+		if (!text) continue;
+
+		const start = typeof timestamp[0] === 'number' ? timestamp[0] : null;
+		const end = typeof timestamp[1] === 'number' ? timestamp[1] : null;
+		const last = current[current.length - 1];
+		if (last && start !== null) {
+			const pause = start - (last.end ?? last.start ?? start);
+			if (pause > PAUSE_THRESHOLD || (/[.!?]$/.test(last.text) && pause > 0.3)) {
+				turns.push(current);
+				current = [];
+			}
+		}
+		current.push({ text, start, end, speaker: null });
+	}
+
+	if (current.length > 0) turns.push(current);
+	return turns;
+}
+
+/** Reads one segment's word list; punctuation elements (Rev) attach to the preceding word */
+function parseSegmentWords(segment: JsonObject, wordList: unknown[]): RawWord[] {
+	const segmentSpeaker = readSpeaker(segment);
+	const words: RawWord[] = [];
+
+	for (const item of wordList) {
+		if (!isObject(item)) continue;
+		const text = readText(item);
+		if (item.type === 'punct' || !/[\p{L}\p{N}]/u.test(text)) {
+			const last = words[words.length - 1];
+			if (last && text.trim()) last.text += text.trim();
+			continue;
+		}
+		if (!text.trim()) continue;
+
+		words.push({
+			text: text.trim(),
+			start: readTime(item, START_KEYS),
+			end: readTime(item, END_KEYS),
+			speaker: readSpeaker(item) ?? segmentSpeaker
+		});
+	}
+
+	// Trailing unaligned words (WhisperX leaves numbers unaligned) end with their segment
+	const last = words[words.length - 1];
+	if (last && last.end === null) last.end = readTime(segment, END_KEYS);
+	return words;
+}
+
+/** Splits a segment's words wherever the per-word speaker changes (WhisperX assigns speakers per word) */
+function splitBySpeaker(words: RawWord[]): RawWord[][] {
+	const turns: RawWord[][] = [];
+	for (const word of words) {
+		const current = turns[turns.length - 1];
+		if (current && current[0].speaker === word.speaker) {
+			current.push(word);
+		} else {
+			turns.push([word]);
+		}
+	}
+	return turns;
+}
+
+/** OpenAI verbose_json: words are top-level, so assign them to the segment containing their start */
+function assignWordsToSegments(segments: JsonObject[], words: unknown[]): Map<JsonObject, unknown[]> {
+	const bySegment = new Map<JsonObject, unknown[]>(segments.map((segment) => [segment, []]));
+	let segmentIndex = 0;
+	for (const word of words) {
+		if (!isObject(word)) continue;
+		const start = readTime(word, START_KEYS) ?? 0;
+		while (segmentIndex < segments.length - 1 && start >= (readTime(segments[segmentIndex], END_KEYS) ?? Infinity)) {
+			segmentIndex++;
+		}
+		bySegment.get(segments[segmentIndex])?.push(word);
+	}
+	return bySegment;
+}
+
+function findSegments(data: unknown): JsonObject[] | null {
+	if (Array.isArray(data)) return data.filter(isObject);
+	if (!isObject(data)) return null;
+	for (const key of SEGMENT_KEYS) {
+		if (Array.isArray(data[key])) return (data[key] as unknown[]).filter(isObject);
+	}
+	return null;
+}
+
+/**
+ * Returns true if the parsed JSON looks like a word-timestamped transcription.
+ */
+export function isWordTimingJSON(data: unknown): boolean {
+	if (isObject(data) && Array.isArray(data.chunks)) return true;
+	const segments = findSegments(data);
+	if (!segments || segments.length === 0) return false;
+	return (isObject(data) && Array.isArray(data.words)) || segments.some((s) => SEGMENT_WORD_KEYS.some((k) => Array.isArray(s[k])));
+}
+
+/**
+ * Parses word-timestamped JSON into timed words with one entry per spoken word.
+ * Throws if the JSON has no recognizable word list.
+ */
+export function parseWordTimingJSON(data: unknown, speechRateWordsPerSecond: number = 3): TimedWord[] {
+	if (isObject(data) && Array.isArray(data.chunks)) {
+		return resolveTimes(parseTransformersChunks(data.chunks), speechRateWordsPerSecond);
+	}
+
+	const segments = findSegments(data);
+	if (!segments || !isWordTimingJSON(data)) {
+		throw new Error('Unrecognized JSON transcript. Expected word-level timestamps (Whisper, WhisperX, Rev, Otter or Descript export).');
+	}
+
+	const topLevelWords = isObject(data) && Array.isArray(data.words) ? assignWordsToSegments(segments, data.words) : null;
+	const turns: RawWord[][] = [];
+	for (const segment of segments) {
+		const wordList = topLevelWords?.get(segment) ?? SEGMENT_WORD_KEYS.map((k) => segment[k]).find(Array.isArray) ?? [];
+		turns.push(...splitBySpeaker(parseSegmentWords(segment, wordList)));
+	}
+
+	return resolveTimes(
+		turns.filter((t) => t.length > 0),
+		speechRateWordsPerSecond
+	);
+}
@@ -0,0 +1,197 @@
+/**
+ * Zip Utilities - Minimal ZIP archive reading and writing for spreadsheet and project
+ * containers (.xlsx, .ods, .qdpx). Entries are inflated and deflated with the browser's
+ * native DecompressionStream/CompressionStream, so no zip library is bundled.
+ * ZIP64 archives and encrypted entries are not supported.
+ */
+
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const LOCAL_FILE_HEADER = 0x04034b50;
+
+const METHOD_STORED = 0;
+const METHOD_DEFLATE = 8;
+
+interface ZipEntry {
+	method: number;
+	compressedSize: number;
+	localHeaderOffset: number;
+}
+
+export interface ZipReader {
+	/** Entry paths in archive order (e.g. "xl/worksheets/sheet1.xml") */
+	names: string[];
+	readBytes(name: string): Promise<Uint8Array | null>;
+	readText(name: string): Promise<string | null>;
+}
+
+export interface ZipFileInput {
+	name: string;
+	data: string | Uint8Array<ArrayBuffer>;
+}
+
+async function inflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array> {
+	const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+async function deflateRaw(bytes: Uint8Array<ArrayBuffer>): Promise<Uint8Array<ArrayBuffer>> {
+	const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate-raw'));
+	return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+let crcTable: Uint32Array | null = null;
+
+function crc32(bytes: Uint8Array): number {
+	if (!crcTable) {
+		crcTable = new Uint32Array(256);
+		for (let n = 0; n < 256; n++) {
+			let c = n;
+			for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+			crcTable[n] = c >>> 0;
+		}
+	}
+	let crc = 0xffffffff;
+	for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+	return (crc ^ 0xffffffff) >>> 0;
+}
+
+/** DOS date/time fields used by ZIP headers */
+function toDosDateTime(date: Date): { time: number; date: number } {
+	return {
+		time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+		date: ((Math.max(date.getFullYear(), 1980) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+	};
+}
+
+function findEndOfCentralDirectory(view: DataView): number {
+	// The EOCD record is 22 bytes plus an optional comment of up to 65535 bytes
+	const minOffset = Math.max(0, view.byteLength - 22 - 0xffff);
+	for (let offset = view.byteLength - 22; offset >= minOffset; offset--) {
+		if (view.getUint32(offset, true) === END_OF_CENTRAL_DIRECTORY) return offset;
+	}
+	return -1;
+}
+
+/**
+ * Opens a ZIP archive for reading. Only the central directory is parsed up front;
+ * entries are decompressed on demand.
+ * Throws if the data is not a readable ZIP archive.
+ */
+export function openZip(data: ArrayBuffer): ZipReader {
+	const view = new DataView(data);
+	const bytes = new Uint8Array(data);
+	const decoder = new TextDecoder();
+
+	const eocd = view.byteLength >= 22 ? findEndOfCentralDirectory(view) : -1;
+	if (eocd < 0) throw new Error('Invalid archive: the file is not a ZIP container.');
+
+	const entryCount = view.getUint16(eocd + 10, true);
+	let offset = view.getUint32(eocd + 16, true);
+	if (offset === 0xffffffff) throw new Error('Unsupported archive: ZIP64 files are not supported.');
+
+	const entries = new Map<string, ZipEntry>();
+	for (let i = 0; i < entryCount; i++) {
+		if (offset + 46 > view.byteLength || view.getUint32(offset, true) !== CENTRAL_DIRECTORY_ENTRY) {
+			throw new Error('Invalid archive: corrupt ZIP central directory.');
+		}
+		const nameLength = view.getUint16(offset + 28, true);
+		const extraLength = view.getUint16(offset + 30, true);
+		const commentLength = view.getUint16(offset + 32, true);
+		const name = decoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+
+		entries.set(name, {
+			method: view.getUint16(offset + 10, true),
+			compressedSize: view.getUint32(offset + 20, true),
+			localHeaderOffset: view.getUint32(offset + 42, true)
+		});
+		offset += 46 + nameLength + extraLength + commentLength;
+	}
+
+	const readBytes = async (name: string): Promise<Uint8Array | null> => {
+		const entry = entries.get(name);
+		if (!entry) return null;
+
+		const header = entry.localHeaderOffset;
+		if (view.getUint32(header, true) !== LOCAL_FILE_HEADER) {
+			throw new Error(`Invalid archive: corrupt entry "${name}".`);
+		}
+		// Local name/extra lengths can differ from the central directory's copy
+		const dataStart = header + 30 + view.getUint16(header + 26, true) + view.getUint16(header + 28, true);
+		const compressed = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+
+		if (entry.method === METHOD_STORED) return compressed;
+		if (entry.method === METHOD_DEFLATE) return inflateRaw(compressed);
+		throw new Error(`Unsupported archive: entry "${name}" uses compression method ${entry.method}.`);
+	};
+
+	return {
+		names: [...entries.keys()],
+		readBytes,
+		readText: async (name) => {
+			const entryBytes = await readBytes(name);
+			return entryBytes ? decoder.decode(entryBytes) : null;
+		}
+	};
+}
+
+/**
+ * Builds a ZIP archive from the given files. Entries are deflated unless compression
+ * would not make them smaller. Names are stored as UTF-8.
+ */
+export async function createZip(files: ZipFileInput[]): Promise<Blob> {
+	const encoder = new TextEncoder();
+	const stamp = toDosDateTime(new Date());
+	const parts: Uint8Array<ArrayBuffer>[] = [];
+	const centralParts: Uint8Array<ArrayBuffer>[] = [];
+	let offset = 0;
+
+	for (const file of files) {
+		const name = encoder.encode(file.name);
+		const raw = typeof file.data === 'string' ? encoder.encode(file.data) : file.data;
+		const deflated = await deflateRaw(raw);
+		const method = deflated.length < raw.length ? METHOD_DEFLATE : METHOD_STORED;
+		const content = method === METHOD_DEFLATE ? deflated : raw;
+		const crc = crc32(raw);
+
+		const local = new DataView(new ArrayBuffer(30));
+		local.setUint32(0, LOCAL_FILE_HEADER, true);
+		local.setUint16(4, 20, true);
+		local.setUint16(6, 0x0800, true); // UTF-8 names
+		local.setUint16(8, method, true);
+		local.setUint16(10, stamp.time, true);
+		local.setUint16(12, stamp.date, true);
+		local.setUint32(14, crc, true);
+		local.setUint32(18, content.length, true);
+		local.setUint32(22, raw.length, true);
+		local.setUint16(26, name.length, true);
+
+		const central = new DataView(new ArrayBuffer(46));
+		central.setUint32(0, CENTRAL_DIRECTORY_ENTRY, true);
+		central.setUint16(4, 20, true);
+		central.setUint16(6, 20, true);
+		central.setUint16(8, 0x0800, true);
+		central.setUint16(10, method, true);
+		central.setUint16(12, stamp.time, true);
+		central.setUint16(14, stamp.date, true);
+		central.setUint32(16, crc, true);
+		central.setUint32(20, content.length, true);
+		central.setUint32(24, raw.length, true);
+		central.setUint16(28, name.length, true);
+		central.setUint32(42, offset, true);
+
+		parts.push(new Uint8Array(local.buffer), name, content);
+		centralParts.push(new Uint8Array(central.buffer), name);
+		offset += 30 + name.length + content.length;
+	}
+
+	const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+	const end = new DataView(new ArrayBuffer(22));
+	end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true);
+	end.setUint16(8, files.length, true);
+	end.setUint16(10, files.length, true);
+	end.setUint32(12, centralSize, true);
+	end.setUint32(16, offset, true);
+
+	return new Blob([...parts, ...centralParts, new Uint8Array(end.buffer)], { type: 'application/zip' });
+}
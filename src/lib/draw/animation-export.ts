@@ -0,0 +1,209 @@
+/**
+ * Animation Export - Renders timeline playback to a WebM video without playing it in real time.
+ *
+ * The sketch loop is paused and the timeline is stepped through the selected range one
+ * frame at a time: each frame moves `currTime`, reveals the words up to it (as the live
+ * animation does) and redraws the visualization into an offscreen figure canvas. Frames are
+ * encoded with WebCodecs (VP9, or VP8 where VP9 is unavailable) and muxed into WebM.
+ * A local video file can be drawn picture-in-picture from a hidden copy of the player
+ * that is seeked to each frame's time. YouTube videos cannot be captured.
+ */
+
+import type p5 from 'p5';
+import { get } from 'svelte/store';
+import TimelineStore from '../../stores/timelineStore';
+import AppSettingsStore from '../../stores/appSettingsStore';
+import type { VideoState } from '../../stores/videoStore';
+import type { TimingMode } from '../../models/transcript';
+import { buildWebM, type EncodedVideoFrame, type WebMCodec } from '../core/webm-muxer';
+import { createFigureCanvas, DEFAULT_FIGURE_OPTIONS } from './figure-export';
+
+export interface AnimationOptions {
+	frameRate: number;
+	/** Draw the local video picture-in-picture where the video player sits on screen */
+	includeVideo: boolean;
+	whiteBackground: boolean;
+}
+
+export const DEFAULT_ANIMATION_OPTIONS: AnimationOptions = {
+	frameRate: 30,
+	includeVideo: true,
+	whiteBackground: false
+};
+
+export const ANIMATION_FRAME_RATES = [24, 30, 60];
+
+const CODECS: { config: string; webm: WebMCodec }[] = [
+	{ config: 'vp09.00.51.08', webm: 'V_VP9' },
+	{ config: 'vp8', webm: 'V_VP8' }
+];
+
+const KEYFRAME_INTERVAL_SECONDS = 2;
+const MAX_ENCODE_QUEUE = 8;
+/** Bits per pixel per frame; enough for flat visualization graphics */
+const BITS_PER_PIXEL = 0.1;
+
+/** Sketch members used to step the animation; defined in igsSketch, not in the p5 typings */
+interface AnimationSketch {
+	animationCounter: number;
+	setAnimationCounter(targetIndex: number): void;
+	getAnimationTargetIndex(): number;
+}
+
+export function canExportAnimation(): boolean {
+	return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined';
+}
+
+/** Only local files can be drawn into the frames, and only timed transcripts line up with them */
+export function canIncludeVideo(videoState: VideoState, timingMode: TimingMode): boolean {
+	return videoState.source.type === 'file' && !!videoState.source.fileUrl && timingMode !== 'untimed';
+}
+
+async function pickCodec(width: number, height: number, frameRate: number): Promise<{ config: VideoEncoderConfig; webm: WebMCodec }> {
+	for (const codec of CODECS) {
+		const config: VideoEncoderConfig = {
+			codec: codec.config,
+			width,
+			height,
+			framerate: frameRate,
+			bitrate: Math.max(1_000_000, Math.round(width * height * frameRate * BITS_PER_PIXEL))
+		};
+		const support = await VideoEncoder.isConfigSupported(config).catch(() => null);
+		if (support?.supported) return { config, webm: codec.webm };
+	}
+	throw new Error('This browser cannot encode WebM video. Try a recent version of Chrome, Edge or Firefox.');
+}
+
+function waitForEvent(target: EventTarget, type: string): Promise<void> {
+	return new Promise((resolve, reject) => {
+		target.addEventListener(type, () => resolve(), { once: true });
+		target.addEventListener('error', () => reject(new Error('The video file could not be read.')), { once: true });
+	});
+}
+
+async function loadVideo(url: string): Promise<HTMLVideoElement> {
+	const video = document.createElement('video');
+	video.muted = true;
+	video.preload = 'auto';
+	video.src = url;
+	await waitForEvent(video, 'loadeddata');
+	return video;
+}
+
+async function seekVideo(video: HTMLVideoElement, time: number): Promise<void> {
+	const target = Math.min(Math.max(0, time), video.duration || 0);
+	if (Math.abs(video.currentTime - target) < 0.001) return;
+	const seeked = waitForEvent(video, 'seeked');
+	video.currentTime = target;
+	await seeked;
+}
+
+/** The on-screen player's box when it is showing, otherwise the bottom-right quarter */
+function getVideoRect(videoState: VideoState, width: number, height: number): { x: number; y: number; w: number; h: number } {
+	if (videoState.isVisible) {
+		const w = Math.min(videoState.size.width, width);
+		const h = Math.min(videoState.size.height, height);
+		return { x: Math.min(Math.max(0, videoState.position.x), width - w), y: Math.min(Math.max(0, videoState.position.y), height - h), w, h };
+	}
+	const w = width / 4;
+	const h = w / videoState.aspectRatio;
+	return { x: width - w - 20, y: height - h - 20, w, h };
+}
+
+/**
+ * Encodes playback of the timeline's selected range as WebM. Transcript time advances at
+ * the animation rate setting, so the video runs at the speed of the live animation.
+ * The timeline position and revealed words are restored afterwards.
+ */
+export async function renderAnimation(
+	sk: p5,
+	options: AnimationOptions,
+	videoState: VideoState,
+	timingMode: TimingMode,
+	onProgress: (fraction: number) => void,
+	signal?: AbortSignal
+): Promise<Blob> {
+	const timeline = get(TimelineStore);
+	const rate = get(AppSettingsStore).animationRate;
+	const start = timeline.leftMarker;
+	const end = timeline.rightMarker;
+	if (!(end > start) || !(rate > 0)) throw new Error('Select a range on the timeline to export.');
+
+	const frameCount = Math.ceil(((end - start) / rate) * options.frameRate) + 1;
+	const figure = createFigureCanvas(sk, {
+		...DEFAULT_FIGURE_OPTIONS,
+		format: 'png',
+		pixelDensity: 1,
+		whiteBackground: options.whiteBackground,
+		includeLegend: false
+	});
+	const { config, webm } = await pickCodec(figure.canvas.width, figure.canvas.height, options.frameRate);
+	const video = options.includeVideo && canIncludeVideo(videoState, timingMode) ? await loadVideo(videoState.source.fileUrl!) : null;
+	const videoRect = getVideoRect(videoState, figure.width, figure.height);
+
+	const frames: EncodedVideoFrame[] = [];
+	let encodeError: Error | null = null;
+	const encoder = new VideoEncoder({
+		output: (chunk) => {
+			const data = new Uint8Array(chunk.byteLength);
+			chunk.copyTo(data);
+			frames.push({ data, timestamp: chunk.timestamp / 1000, keyframe: chunk.type === 'key' });
+		},
+		error: (err) => {
+			encodeError = err;
+		}
+	});
+	encoder.configure(config);
+
+	const animationSketch = sk as unknown as AnimationSketch;
+	const savedTime = timeline.currTime;
+	const savedCounter = animationSketch.animationCounter;
+	const frameDuration = 1_000_000 / options.frameRate;
+	sk.noLoop();
+	TimelineStore.update((t) => {
+		t.isAnimating = false;
+		return t;
+	});
+
+	try {
+		for (let i = 0; i < frameCount; i++) {
+			if (signal?.aborted) throw new DOMException('Animation export cancelled.', 'AbortError');
+			if (encodeError) throw encodeError;
+
+			const time = Math.min(end, start + (i * rate) / options.frameRate);
+			TimelineStore.update((t) => {
+				t.currTime = time;
+				return t;
+			});
+			animationSketch.setAnimationCounter(animationSketch.getAnimationTargetIndex());
+			figure.draw();
+			if (video) {
+				await seekVideo(video, time);
+				figure.context.drawImage(video, videoRect.x, videoRect.y, videoRect.w, videoRect.h);
+			}
+
+			const frame = new VideoFrame(figure.canvas, { timestamp: Math.round(i * frameDuration), duration: Math.round(frameDuration) });
+			encoder.encode(frame, { keyFrame: i % (options.frameRate * KEYFRAME_INTERVAL_SECONDS) === 0 });
+			frame.close();
+
+			// Keep memory bounded and let the page repaint progress between frames
+			while (encoder.encodeQueueSize > MAX_ENCODE_QUEUE) await new Promise((resolve) => setTimeout(resolve, 5));
+			if (i % 10 === 0) await new Promise((resolve) => setTimeout(resolve));
+			onProgress((i + 1) / frameCount);
+		}
+		await encoder.flush();
+		if (encodeError) throw encodeError;
+	} finally {
+		if (encoder.state !== 'closed') encoder.close();
+		video?.removeAttribute('src');
+		TimelineStore.update((t) => {
+			t.currTime = savedTime;
+			return t;
+		});
+		animationSketch.setAnimationCounter(savedCounter);
+		sk.loop();
+	}
+
+	const webmBytes = buildWebM({ codec: webm, width: figure.canvas.width, height: figure.canvas.height, frameRate: options.frameRate }, frames);
+	return new Blob([webmBytes], { type: 'video/webm' });
+}
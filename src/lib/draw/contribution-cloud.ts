@@ -6,7 +6,8 @@
  * Words are colored by speaker and can be separated by speaker.
  *
  * Performance: Uses an offscreen buffer that only re-renders when data changes.
- * Hover effects are drawn on top of the cached buffer each frame.
+ * Hover effects are drawn on top of the cached buffer each frame. Figure export
+ * bypasses the buffer and draws the words directly, so they stay vector in SVG.
  */
 
 import type p5 from 'p5';
@@ -95,6 +96,10 @@ export class ContributionCloud {
 	draw(words: DataPoint[]): { hoveredWord: DataPoint | null; hasOverflow: boolean; hoveredSpeaker: string | null } {
 		const layoutWords = words.filter((w) => this.isWordVisible(w));
 		const scaling = calculateScaling(this.ctx.sk, layoutWords, this.bounds, this.ctx.config, this.fullTranscriptMaxCount);
+		if (this.ctx.isFigure) {
+			this.drawFigure(layoutWords, scaling);
+			return { hoveredWord: null, hasOverflow: false, hoveredSpeaker: null };
+		}
 		const cacheKey = this.getBufferCacheKey(layoutWords.length);
 
 		// Also re-render if the buffer is owned by a dead p5 instance (workspace
@@ -166,26 +171,41 @@ export class ContributionCloud {
 		bufferCache.positions = positions;
 		bufferCache.hasOverflow = positions.length > 0 && positions[positions.length - 1].y > this.bounds.height;
 
+		this.drawWords(buffer, positions, scaling);
+		bufferCache.buffer = buffer;
+	}
+
+	/** Draws the words straight onto the sketch, cut off at the panel bottom like the buffer */
+	drawFigure(words: DataPoint[], scaling: Scaling): void {
+		const sk = this.ctx.sk;
+		const positions = this.calculateWordPositions(words, scaling).filter((pos) => pos.y + pos.descent <= this.bounds.height);
+		sk.push();
+		sk.translate(this.bounds.x, this.bounds.y);
+		sk.textAlign(sk.LEFT, sk.BASELINE);
+		// The sketch has the same drawing API as a graphics buffer
+		this.drawWords(sk as unknown as p5.Graphics, positions, scaling);
+		sk.pop();
+	}
+
+	drawWords(target: p5.Graphics, positions: WordPosition[], scaling: Scaling): void {
 		if (this.ctx.config.separateToggle) {
-			this.drawSpeakerBackgrounds(buffer, positions, scaling);
+			this.drawSpeakerBackgrounds(target, positions, scaling);
 		}
 
 		for (const pos of positions) {
-			buffer.textSize(pos.textSize);
-			buffer.noStroke();
+			target.textSize(pos.textSize);
+			target.noStroke();
 			if (pos.user?.enabled) {
 				const color = getWordColor(pos.word.codes, pos.user.color, this.ctx.codeColorMap, this.ctx.config.codeColorMode);
-				buffer.fill(color);
+				target.fill(color);
 			} else {
 				// Disabled-speaker words are drawn in the canvas bg color
 				// so they effectively disappear while still participating
 				// in layout (same behavior as before; just theme-aware).
-				buffer.fill(this.ctx.theme.bg);
+				target.fill(this.ctx.theme.bg);
 			}
-			buffer.text(stripPunctuation(pos.word.word), pos.x, pos.y);
+			target.text(stripPunctuation(pos.word.word), pos.x, pos.y);
 		}
-
-		bufferCache.buffer = buffer;
 	}
 
 	calculateWordPositions(words: DataPoint[], scaling: Scaling): WordPosition[] {
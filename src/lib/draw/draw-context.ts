@@ -26,6 +26,8 @@ export class DrawContext {
 	transcript: Transcript;
 	timeline: Timeline;
 	theme: DrawTheme;
+	/** True while rendering a figure for export: draw straight to the output, skip offscreen caches */
+	isFigure = false;
 
 	constructor(sk: p5) {
 		this.sk = sk;
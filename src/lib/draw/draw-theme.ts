@@ -39,8 +39,9 @@ export interface DrawTheme {
 }
 
 // Light defaults mirror the :root block in app.css. These are what we
-// fall back to on the server or before the first browser read.
-const LIGHT_DEFAULTS: DrawTheme = {
+// fall back to on the server or before the first browser read, and what
+// figure export draws with when a white background is requested.
+export const LIGHT_DEFAULTS: DrawTheme = {
 	bg: '#ffffff',
 	fg: '#111827',
 	fgMuted: '#6b7280',
@@ -6,6 +6,7 @@ import type { HoverState } from '../../stores/hoverStore';
 import type { Bounds } from './types/bounds';
 import { formatTimeCompact } from '../core/time-utils';
 import type { DrawTheme } from './draw-theme';
+import type { SessionBoundary } from '../core/session-utils';
 
 const DIM_ALPHA = 0.2;
 
@@ -71,13 +72,15 @@ export function getCrossHighlight(sk: p5, bounds: Bounds, dashboardToggle: boole
 
 /**
  * Draws a horizontal time axis with tick marks and labels below the grid area.
+ * Labels are elapsed time unless a formatter is given (e.g. clock times for chat exports).
  */
 export function drawTimeAxis(
 	sk: p5,
 	bounds: Bounds,
 	grid: { gx: number; gy: number; gw: number; gh: number },
 	timeline: { leftMarker: number; rightMarker: number },
-	theme: DrawTheme
+	theme: DrawTheme,
+	formatLabel: (seconds: number) => string = formatTimeCompact
 ): void {
 	const fontSize = Math.max(8, Math.min(10, bounds.height * 0.025));
 	sk.textSize(fontSize);
@@ -101,7 +104,7 @@ export function drawTimeAxis(
 		// Time label
 		sk.noStroke();
 		sk.fill(theme.fgMuted);
-		sk.text(formatTimeCompact(time), x, grid.gy + grid.gh + 8);
+		sk.text(formatLabel(time), x, grid.gy + grid.gh + 8);
 	}
 }
 
@@ -123,6 +126,42 @@ export function drawPlayhead(sk: p5, currTime: number, leftMarker: number, right
 	sk.pop();
 }
 
+const SESSION_DIVIDER_DASH = [4, 4];
+const SESSION_LABEL_SIZE = 10;
+
+/**
+ * Draws dashed vertical dividers where each session after the first begins, labelled with
+ * the session name. Used by time-axis views of combined multi-session transcripts.
+ */
+export function drawSessionDividers(
+	sk: p5,
+	sessions: SessionBoundary[],
+	leftMarker: number,
+	rightMarker: number,
+	region: Bounds,
+	theme: DrawTheme
+): void {
+	const range = rightMarker - leftMarker;
+	if (sessions.length < 2 || range <= 0) return;
+	sk.push();
+	sk.textSize(SESSION_LABEL_SIZE);
+	sk.textAlign(sk.LEFT, sk.TOP);
+	for (let i = 1; i < sessions.length; i++) {
+		const time = sessions[i].startTime;
+		if (time <= leftMarker || time >= rightMarker) continue;
+		const x = region.x + ((time - leftMarker) / range) * region.width;
+		sk.stroke(theme.fgMuted);
+		sk.strokeWeight(1);
+		sk.drawingContext.setLineDash(SESSION_DIVIDER_DASH);
+		sk.line(x, region.y, x, region.y + region.height);
+		sk.drawingContext.setLineDash([]);
+		sk.noStroke();
+		sk.fill(theme.fgMuted);
+		sk.text(sessions[i].label, x + 3, region.y);
+	}
+	sk.pop();
+}
+
 const TOOLTIP_MAX_TURNS = 4;
 const TOOLTIP_PREVIEW_WORDS = 8;
 const TURN_SEPARATOR = '<span style="opacity: 0.2">---</span>';
@@ -155,8 +194,8 @@ export function formatTurnPreviewLines(turns: TurnPreview[]): string {
 	return turnLines.join('\n' + TURN_SEPARATOR + '\n');
 }
 
-const NO_CODE_COLOR = '#999999';
-const MULTI_CODE_COLOR = '#000000';
+export const NO_CODE_COLOR = '#999999';
+export const MULTI_CODE_COLOR = '#000000';
 
 /**
  * Pre-compute a map from enabled code names to their colors.
@@ -75,6 +75,19 @@ export class Draw {
 		finalizeTooltipFrame();
 	}
 
+	/**
+	 * Draws one frame for figure export: the active panel, or the dashboard when none is
+	 * active, like drawViz but without touching the hover and tooltip stores.
+	 */
+	drawFigure(ctx: DrawContext): void {
+		const activePanel = TOGGLE_TO_PANEL.find(([toggle]) => ctx.config[toggle]);
+		if (activePanel) {
+			this.updatePanel(activePanel[1], this.getFullScreenBounds(), ctx);
+		} else {
+			this.drawDashboard(ctx);
+		}
+	}
+
 	/** Write draw results to stores. Single place for all store writes per frame. */
 	applyDrawResult(r: DrawResult, isDashboard: boolean): void {
 		// Compute cross-highlight fields for next frame
@@ -0,0 +1,235 @@
+/**
+ * Figure Export - Renders the current visualization as an SVG or high-DPI PNG figure.
+ *
+ * The figure is drawn by the same draw classes as the live canvas: for one frame the p5
+ * renderer's drawing context is swapped for an SvgContext (vector) or an offscreen canvas
+ * at the chosen pixel density (PNG). The mouse is moved off the canvas and dashboard
+ * cross-highlighting is cleared so no hover state ends up in the figure. An optional
+ * legend band below the visualization lists speaker colors, and code colors when
+ * coloring by code.
+ */
+
+import type p5 from 'p5';
+import { Draw } from './draw';
+import { DrawContext } from './draw-context';
+import { LIGHT_DEFAULTS } from './draw-theme';
+import { MULTI_CODE_COLOR, NO_CODE_COLOR } from './draw-utils';
+import { SvgContext } from './svg-context';
+import { initialHoverState } from '../../stores/hoverStore';
+import { CANVAS_SPACING } from '../constants/ui';
+
+export type FigureFormat = 'svg' | 'png';
+
+/** 'view' draws what the canvas currently shows; 'dashboard' draws the dashboard panels */
+export type FigureTarget = 'view' | 'dashboard';
+
+export interface FigureOptions {
+	format: FigureFormat;
+	target: FigureTarget;
+	/** Output pixels per canvas pixel (PNG only) */
+	pixelDensity: number;
+	/** Draw on white with the light palette, even in dark mode */
+	whiteBackground: boolean;
+	includeLegend: boolean;
+}
+
+export const DEFAULT_FIGURE_OPTIONS: FigureOptions = {
+	format: 'svg',
+	target: 'view',
+	pixelDensity: 2,
+	whiteBackground: true,
+	includeLegend: true
+};
+
+export const FIGURE_PIXEL_DENSITIES = [1, 2, 3, 4];
+
+const LEGEND_TEXT_SIZE = 13;
+const LEGEND_SWATCH_SIZE = 10;
+const LEGEND_ITEM_GAP = 20;
+const LEGEND_ROW_HEIGHT = 22;
+
+const PANEL_TOGGLES = [
+	'speakerGardenToggle',
+	'turnChartToggle',
+	'contributionCloudToggle',
+	'turnNetworkToggle',
+	'wordRainToggle',
+	'speakerHeatmapToggle',
+	'turnLengthToggle',
+	'speakerFingerprintToggle',
+	'questionFlowToggle',
+	'wordJourneyToggle'
+] as const;
+
+/** Sketch internals swapped during a figure frame; not covered by the p5 typings */
+interface FigureSketch {
+	mouseX: number;
+	mouseY: number;
+	drawingContext: CanvasRenderingContext2D;
+	shouldDraw: (item: unknown) => boolean;
+	_renderer: {
+		drawingContext: CanvasRenderingContext2D;
+		_cachedFillStyle: string | CanvasGradient | CanvasPattern;
+		_cachedStrokeStyle: string | CanvasGradient | CanvasPattern;
+	};
+}
+
+/** Canvas state p5 keeps between calls; copied onto the figure context so p5's caches stay valid */
+const STYLE_KEYS = ['fillStyle', 'strokeStyle', 'lineWidth', 'lineCap', 'lineJoin', 'font', 'textAlign', 'textBaseline'] as const;
+
+interface LegendItem {
+	label: string;
+	color: string;
+}
+
+interface PlacedLegendItem extends LegendItem {
+	x: number;
+	y: number;
+}
+
+function getLegendItems(ctx: DrawContext): LegendItem[] {
+	const items = ctx.users.filter((user) => user.enabled).map((user) => ({ label: user.name, color: user.color }));
+	if (ctx.config.codeColorMode) {
+		for (const [code, color] of ctx.codeColorMap) items.push({ label: code, color });
+		items.push({ label: 'Uncoded', color: NO_CODE_COLOR }, { label: 'Multiple codes', color: MULTI_CODE_COLOR });
+	}
+	return items;
+}
+
+/** Flows legend items left to right, wrapping to new rows within the figure width */
+function layoutLegend(sk: p5, items: LegendItem[], width: number): { placed: PlacedLegendItem[]; height: number } {
+	if (items.length === 0) return { placed: [], height: 0 };
+	sk.push();
+	sk.textSize(LEGEND_TEXT_SIZE);
+	const placed: PlacedLegendItem[] = [];
+	let x = CANVAS_SPACING;
+	let y = 0;
+	for (const item of items) {
+		const itemWidth = LEGEND_SWATCH_SIZE + 6 + sk.textWidth(item.label);
+		if (x > CANVAS_SPACING && x + itemWidth > width - CANVAS_SPACING) {
+			x = CANVAS_SPACING;
+			y += LEGEND_ROW_HEIGHT;
+		}
+		placed.push({ ...item, x, y });
+		x += itemWidth + LEGEND_ITEM_GAP;
+	}
+	sk.pop();
+	return { placed, height: y + LEGEND_ROW_HEIGHT + CANVAS_SPACING / 2 };
+}
+
+function drawLegend(sk: p5, placed: PlacedLegendItem[], top: number, textColor: string): void {
+	sk.push();
+	sk.textSize(LEGEND_TEXT_SIZE);
+	sk.textAlign(sk.LEFT, sk.CENTER);
+	for (const item of placed) {
+		const centerY = top + item.y + LEGEND_ROW_HEIGHT / 2;
+		sk.noStroke();
+		sk.fill(item.color);
+		sk.circle(item.x + LEGEND_SWATCH_SIZE / 2, centerY, LEGEND_SWATCH_SIZE);
+		sk.fill(textColor);
+		sk.text(item.label, item.x + LEGEND_SWATCH_SIZE + 6, centerY);
+	}
+	sk.pop();
+}
+
+/**
+ * Draws one figure frame into `target`. Everything the swap touches is restored
+ * afterwards, so the live canvas carries on with its next frame unchanged.
+ */
+function drawFigureFrame(sk: p5, target: CanvasRenderingContext2D, options: FigureOptions, legend: PlacedLegendItem[], legendHeight: number): void {
+	const figureSketch = sk as unknown as FigureSketch;
+	const renderer = figureSketch._renderer;
+	const liveContext = renderer.drawingContext;
+	const { mouseX, mouseY, shouldDraw } = figureSketch;
+
+	const ctx = new DrawContext(sk);
+	ctx.isFigure = true;
+	ctx.hover = initialHoverState;
+	if (options.whiteBackground) ctx.theme = LIGHT_DEFAULTS;
+	if (options.target === 'dashboard') {
+		for (const toggle of PANEL_TOGGLES) ctx.config[toggle] = false;
+		ctx.config.dashboardToggle = true;
+	}
+
+	for (const key of STYLE_KEYS) (target as unknown as Record<string, unknown>)[key] = liveContext[key];
+	renderer.drawingContext = target;
+	figureSketch.drawingContext = target;
+	figureSketch.mouseX = -Infinity;
+	figureSketch.mouseY = -Infinity;
+	figureSketch.shouldDraw = () => true;
+
+	sk.push();
+	try {
+		sk.noStroke();
+		sk.fill(ctx.theme.bg);
+		sk.rect(0, 0, sk.width, sk.height + legendHeight);
+		new Draw(sk).drawFigure(ctx);
+		drawLegend(sk, legend, sk.height, ctx.theme.fg);
+	} finally {
+		sk.pop();
+		renderer.drawingContext = liveContext;
+		figureSketch.drawingContext = liveContext;
+		renderer._cachedFillStyle = liveContext.fillStyle;
+		renderer._cachedStrokeStyle = liveContext.strokeStyle;
+		figureSketch.mouseX = mouseX;
+		figureSketch.mouseY = mouseY;
+		figureSketch.shouldDraw = shouldDraw;
+	}
+}
+
+export interface FigureCanvas {
+	canvas: HTMLCanvasElement;
+	context: CanvasRenderingContext2D;
+	/** Figure size in canvas pixels (the backing canvas is `pixelDensity` times larger) */
+	width: number;
+	height: number;
+	/** Redraws the visualization as it is now; called once per frame for animations */
+	draw(): void;
+}
+
+/**
+ * Creates an offscreen canvas sized for the figure at `pixelDensity`. The legend is laid
+ * out once, so its height stays fixed across redraws.
+ */
+export function createFigureCanvas(sk: p5, options: FigureOptions): FigureCanvas {
+	const legend = options.includeLegend ? layoutLegend(sk, getLegendItems(new DrawContext(sk)), sk.width) : { placed: [], height: 0 };
+	const width = sk.width;
+	const height = sk.height + legend.height;
+	const density = options.pixelDensity;
+
+	const canvas = document.createElement('canvas');
+	canvas.width = Math.round(width * density);
+	canvas.height = Math.round(height * density);
+	const context = canvas.getContext('2d');
+	if (!context) throw new Error('Could not create an image canvas for the figure.');
+
+	return {
+		canvas,
+		context,
+		width,
+		height,
+		draw: () => {
+			context.setTransform(density, 0, 0, density, 0, 0);
+			drawFigureFrame(sk, context, options, legend.placed, legend.height);
+		}
+	};
+}
+
+/**
+ * Renders the visualization as a figure file. SVG keeps shapes and text as vectors;
+ * PNG is drawn at `pixelDensity` output pixels per canvas pixel.
+ */
+export async function renderFigure(sk: p5, options: FigureOptions): Promise<Blob> {
+	if (options.format === 'svg') {
+		const legend = options.includeLegend ? layoutLegend(sk, getLegendItems(new DrawContext(sk)), sk.width) : { placed: [], height: 0 };
+		const svg = new SvgContext();
+		drawFigureFrame(sk, svg as unknown as CanvasRenderingContext2D, options, legend.placed, legend.height);
+		return new Blob([svg.toSVG(sk.width, sk.height + legend.height)], { type: 'image/svg+xml;charset=utf-8' });
+	}
+
+	const { canvas, draw } = createFigureCanvas(sk, options);
+	draw();
+	return new Promise((resolve, reject) => {
+		canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error('Could not encode the figure as PNG.'))), 'image/png');
+	});
+}
@@ -4,6 +4,7 @@ import type { Bounds } from './types/bounds';
 import type { QuestionAnswerPair } from '../core/dynamic-data';
 import { withDimming, getCrossHighlight, drawTimeAxis, getWordColor } from './draw-utils';
 import { normalizeWord } from '../core/string-utils';
+import { formatTimelineLabel } from '../core/time-utils';
 import { DrawContext } from './draw-context';
 import { pickTextColor } from './draw-theme';
 
@@ -88,7 +89,7 @@ export class QuestionFlow {
 		this.drawSpeakerLabels();
 
 		// Draw timeline axis
-		drawTimeAxis(this.ctx.sk, this.bounds, this, this.timeline, this.ctx.theme);
+		drawTimeAxis(this.ctx.sk, this.bounds, this, this.timeline, this.ctx.theme, (time) => formatTimelineLabel(time, this.ctx.transcript));
 
 		// Render all pairs
 		const rendered = this.renderPairs(pairs, wordCounts, maxWords);
@@ -1,9 +1,10 @@
 import { showTooltip } from '../../stores/tooltipStore';
-import { formatTimeCompact } from '../core/time-utils';
+import { formatTimelineLabel } from '../core/time-utils';
 import type { DataPoint } from '../../models/dataPoint';
 import type { Bounds } from './types/bounds';
 import { DEFAULT_SPEAKER_COLOR } from '../constants/ui';
-import { withDimming, formatTurnPreviewLines, getCrossHighlight, getDominantCodeColor } from './draw-utils';
+import { withDimming, formatTurnPreviewLines, getCrossHighlight, getDominantCodeColor, drawSessionDividers } from './draw-utils';
+import { getSessionBoundaries } from '../core/session-utils';
 import { normalizeWord } from '../core/string-utils';
 import { DrawContext } from './draw-context';
 import { registerVizCacheReset } from './viz-cache-registry';
@@ -74,6 +75,14 @@ export class SpeakerHeatmap {
 		this.drawSpeakerLabels(speakers, grid, cellHeight);
 		this.drawCells(binnedData, speakers, grid, cellWidth, cellHeight, searchTerm);
 		this.drawTimeLabels(binnedData, grid, cellWidth);
+		drawSessionDividers(
+			this.ctx.sk,
+			getSessionBoundaries(this.ctx.transcript),
+			this.ctx.timeline.leftMarker,
+			this.ctx.timeline.rightMarker,
+			grid,
+			this.ctx.theme
+		);
 
 		const hovered = this.findHoveredCell(binnedData, speakers, grid, cellWidth, cellHeight, searchTerm);
 		if (hovered) {
@@ -169,13 +178,13 @@ export class SpeakerHeatmap {
 		this.ctx.sk.textAlign(this.ctx.sk.CENTER, this.ctx.sk.TOP);
 		for (let col = 0; col < numBins - labelStep / 2; col += labelStep) {
 			const bin = binnedData.bins[col];
-			const label = isUntimed ? String(Math.round(bin.startTime)) : formatTimeCompact(bin.startTime);
+			const label = isUntimed ? String(Math.round(bin.startTime)) : formatTimelineLabel(bin.startTime, this.ctx.transcript);
 			this.ctx.sk.text(label, grid.x + col * cellWidth + cellWidth / 2, grid.y + grid.height + 5);
 		}
 
 		// Always label the end
 		const lastBin = binnedData.bins[numBins - 1];
-		const label = isUntimed ? String(Math.round(lastBin.endTime)) : formatTimeCompact(lastBin.endTime);
+		const label = isUntimed ? String(Math.round(lastBin.endTime)) : formatTimelineLabel(lastBin.endTime, this.ctx.transcript);
 		this.ctx.sk.textAlign(this.ctx.sk.RIGHT, this.ctx.sk.TOP);
 		this.ctx.sk.text(label, grid.x + grid.width, grid.y + grid.height + 5);
 	}
@@ -225,7 +234,7 @@ export class SpeakerHeatmap {
 		const isUntimed = this.ctx.transcript.timingMode === 'untimed';
 		const timeRange = isUntimed
 			? `Words ${Math.round(bin.startTime)}-${Math.round(bin.endTime)}`
-			: `${formatTimeCompact(bin.startTime)} - ${formatTimeCompact(bin.endTime)}`;
+			: `${formatTimelineLabel(bin.startTime, this.ctx.transcript)} - ${formatTimelineLabel(bin.endTime, this.ctx.transcript)}`;
 
 		// Group words by turn into TurnPreview format
 		const turnMap = new Map<number, DataPoint[]>();
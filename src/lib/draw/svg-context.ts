@@ -0,0 +1,493 @@
+/**
+ * SVG Context - A stand-in for CanvasRenderingContext2D that records drawing as SVG.
+ *
+ * p5's 2D renderer draws everything through its `drawingContext`, so swapping this in for
+ * one frame captures any visualization as vector output without changes to the draw classes.
+ * Paths are stored in canvas pixel coordinates (the current transform is applied as points
+ * are added, as canvas does); arcs and ellipses become cubic Béziers. Text drawn with a
+ * loaded p5 font arrives as glyph paths; system-font text becomes <text> elements.
+ */
+
+type Matrix = [number, number, number, number, number, number];
+
+interface ContextState {
+	fillStyle: string;
+	strokeStyle: string;
+	lineWidth: number;
+	lineCap: CanvasLineCap;
+	lineJoin: CanvasLineJoin;
+	miterLimit: number;
+	globalAlpha: number;
+	font: string;
+	textAlign: CanvasTextAlign;
+	textBaseline: CanvasTextBaseline;
+	lineDash: number[];
+	lineDashOffset: number;
+	transform: Matrix;
+	clipId: string | null;
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+const TEXT_ANCHOR: Record<CanvasTextAlign, string> = { left: 'start', start: 'start', center: 'middle', right: 'end', end: 'end' };
+
+const DOMINANT_BASELINE: Record<CanvasTextBaseline, string> = {
+	top: 'text-before-edge',
+	hanging: 'hanging',
+	middle: 'central',
+	alphabetic: 'alphabetic',
+	ideographic: 'ideographic',
+	bottom: 'text-after-edge'
+};
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+	return [
+		m[0] * n[0] + m[2] * n[1],
+		m[1] * n[0] + m[3] * n[1],
+		m[0] * n[2] + m[2] * n[3],
+		m[1] * n[2] + m[3] * n[3],
+		m[0] * n[4] + m[2] * n[5] + m[4],
+		m[1] * n[4] + m[3] * n[5] + m[5]
+	];
+}
+
+function round(value: number): number {
+	return Math.round(value * 100) / 100;
+}
+
+function escapeXml(value: string): string {
+	return value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Splits a CSS color into an SVG paint and opacity. `rgba()` is not valid SVG 1.1 paint,
+ * and some editors (Illustrator, older Inkscape) drop it, so alpha goes to *-opacity.
+ */
+function toPaint(color: string): { paint: string; opacity: number } {
+	const match = color.trim().match(/^rgba?\(([^)]+)\)$/i);
+	if (!match) return { paint: color, opacity: 1 };
+	const parts = match[1].split(/[\s,/]+/).filter(Boolean);
+	const [r, g, b] = parts.slice(0, 3).map((p) => Math.round(parseFloat(p)));
+	const alpha = parts[3] === undefined ? 1 : parts[3].endsWith('%') ? parseFloat(parts[3]) / 100 : parseFloat(parts[3]);
+	return { paint: `rgb(${r},${g},${b})`, opacity: Number.isNaN(alpha) ? 1 : alpha };
+}
+
+export class SvgContext {
+	private state: ContextState = {
+		fillStyle: '#000000',
+		strokeStyle: '#000000',
+		lineWidth: 1,
+		lineCap: 'butt',
+		lineJoin: 'miter',
+		miterLimit: 10,
+		globalAlpha: 1,
+		font: '10px sans-serif',
+		textAlign: 'start',
+		textBaseline: 'alphabetic',
+		lineDash: [],
+		lineDashOffset: 0,
+		transform: [...IDENTITY],
+		clipId: null
+	};
+	private stack: ContextState[] = [];
+	private path: string[] = [];
+	private current: [number, number] | null = null;
+	private subpathStart: [number, number] | null = null;
+	private elements: string[] = [];
+	private defs: string[] = [];
+	private nextId = 1;
+	private measureContext: CanvasRenderingContext2D | null = null;
+
+	// Unused compositing and effect properties: accepted so callers can set them, but not recorded
+	globalCompositeOperation: GlobalCompositeOperation = 'source-over';
+	imageSmoothingEnabled = true;
+	shadowBlur = 0;
+	shadowColor = 'rgba(0, 0, 0, 0)';
+	shadowOffsetX = 0;
+	shadowOffsetY = 0;
+
+	get fillStyle(): string {
+		return this.state.fillStyle;
+	}
+	set fillStyle(value: string) {
+		this.state.fillStyle = value;
+	}
+	get strokeStyle(): string {
+		return this.state.strokeStyle;
+	}
+	set strokeStyle(value: string) {
+		this.state.strokeStyle = value;
+	}
+	get lineWidth(): number {
+		return this.state.lineWidth;
+	}
+	set lineWidth(value: number) {
+		this.state.lineWidth = value;
+	}
+	get lineCap(): CanvasLineCap {
+		return this.state.lineCap;
+	}
+	set lineCap(value: CanvasLineCap) {
+		this.state.lineCap = value;
+	}
+	get lineJoin(): CanvasLineJoin {
+		return this.state.lineJoin;
+	}
+	set lineJoin(value: CanvasLineJoin) {
+		this.state.lineJoin = value;
+	}
+	get miterLimit(): number {
+		return this.state.miterLimit;
+	}
+	set miterLimit(value: number) {
+		this.state.miterLimit = value;
+	}
+	get globalAlpha(): number {
+		return this.state.globalAlpha;
+	}
+	set globalAlpha(value: number) {
+		this.state.globalAlpha = value;
+	}
+	get font(): string {
+		return this.state.font;
+	}
+	set font(value: string) {
+		this.state.font = value;
+	}
+	get textAlign(): CanvasTextAlign {
+		return this.state.textAlign;
+	}
+	set textAlign(value: CanvasTextAlign) {
+		this.state.textAlign = value;
+	}
+	get textBaseline(): CanvasTextBaseline {
+		return this.state.textBaseline;
+	}
+	set textBaseline(value: CanvasTextBaseline) {
+		this.state.textBaseline = value;
+	}
+	get lineDashOffset(): number {
+		return this.state.lineDashOffset;
+	}
+	set lineDashOffset(value: number) {
+		this.state.lineDashOffset = value;
+	}
+
+	// ============ State ============
+
+	save(): void {
+		this.stack.push({ ...this.state, lineDash: [...this.state.lineDash], transform: [...this.state.transform] });
+	}
+
+	restore(): void {
+		const state = this.stack.pop();
+		if (state) this.state = state;
+	}
+
+	setLineDash(segments: number[]): void {
+		this.state.lineDash = [...segments];
+	}
+
+	getLineDash(): number[] {
+		return [...this.state.lineDash];
+	}
+
+	// ============ Transforms ============
+
+	transform(a: number, b: number, c: number, d: number, e: number, f: number): void {
+		this.state.transform = multiply(this.state.transform, [a, b, c, d, e, f]);
+	}
+
+	setTransform(a?: number | DOMMatrix2DInit, b?: number, c?: number, d?: number, e?: number, f?: number): void {
+		if (typeof a === 'number') {
+			this.state.transform = [a, b ?? 0, c ?? 0, d ?? 1, e ?? 0, f ?? 0];
+		} else {
+			this.state.transform = [a?.a ?? 1, a?.b ?? 0, a?.c ?? 0, a?.d ?? 1, a?.e ?? 0, a?.f ?? 0];
+		}
+	}
+
+	resetTransform(): void {
+		this.state.transform = [...IDENTITY];
+	}
+
+	getTransform(): DOMMatrix {
+		return new DOMMatrix(this.state.transform);
+	}
+
+	translate(x: number, y: number): void {
+		this.transform(1, 0, 0, 1, x, y);
+	}
+
+	scale(x: number, y: number): void {
+		this.transform(x, 0, 0, y, 0, 0);
+	}
+
+	rotate(angle: number): void {
+		const cos = Math.cos(angle);
+		const sin = Math.sin(angle);
+		this.transform(cos, sin, -sin, cos, 0, 0);
+	}
+
+	private apply(x: number, y: number): [number, number] {
+		const m = this.state.transform;
+		return [m[0] * x + m[2] * y + m[4], m[1] * x + m[3] * y + m[5]];
+	}
+
+	/** Average scale of the current transform, for line widths and dash lengths */
+	private scaleFactor(): number {
+		const m = this.state.transform;
+		return Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+	}
+
+	// ============ Paths ============
+
+	beginPath(): void {
+		this.path = [];
+		this.current = null;
+		this.subpathStart = null;
+	}
+
+	moveTo(x: number, y: number): void {
+		const point = this.apply(x, y);
+		this.path.push(`M${round(point[0])} ${round(point[1])}`);
+		this.current = point;
+		this.subpathStart = point;
+	}
+
+	lineTo(x: number, y: number): void {
+		if (!this.current) return this.moveTo(x, y);
+		const point = this.apply(x, y);
+		this.path.push(`L${round(point[0])} ${round(point[1])}`);
+		this.current = point;
+	}
+
+	bezierCurveTo(cp1x: number, cp1y: number, cp2x: number, cp2y: number, x: number, y: number): void {
+		if (!this.current) this.moveTo(cp1x, cp1y);
+		const points = [this.apply(cp1x, cp1y), this.apply(cp2x, cp2y), this.apply(x, y)];
+		this.path.push(`C${points.map(([px, py]) => `${round(px)} ${round(py)}`).join(' ')}`);
+		this.current = points[2];
+	}
+
+	quadraticCurveTo(cpx: number, cpy: number, x: number, y: number): void {
+		if (!this.current) this.moveTo(cpx, cpy);
+		const points = [this.apply(cpx, cpy), this.apply(x, y)];
+		this.path.push(`Q${points.map(([px, py]) => `${round(px)} ${round(py)}`).join(' ')}`);
+		this.current = points[1];
+	}
+
+	closePath(): void {
+		if (!this.current) return;
+		this.path.push('Z');
+		this.current = this.subpathStart;
+	}
+
+	rect(x: number, y: number, width: number, height: number): void {
+		this.moveTo(x, y);
+		this.lineTo(x + width, y);
+		this.lineTo(x + width, y + height);
+		this.lineTo(x, y + height);
+		this.closePath();
+	}
+
+	roundRect(x: number, y: number, width: number, height: number, radii: number | DOMPointInit | (number | DOMPointInit)[] = 0): void {
+		const list = (Array.isArray(radii) ? radii : [radii]).map((r) => (typeof r === 'number' ? r : (r.x ?? 0)));
+		const [tl, tr = tl, br = tl, bl = tr] = list.length ? list : [0];
+		this.moveTo(x + tl, y);
+		this.lineTo(x + width - tr, y);
+		if (tr) this.ellipse(x + width - tr, y + tr, tr, tr, 0, -Math.PI / 2, 0);
+		this.lineTo(x + width, y + height - br);
+		if (br) this.ellipse(x + width - br, y + height - br, br, br, 0, 0, Math.PI / 2);
+		this.lineTo(x + bl, y + height);
+		if (bl) this.ellipse(x + bl, y + height - bl, bl, bl, 0, Math.PI / 2, Math.PI);
+		this.lineTo(x, y + tl);
+		if (tl) this.ellipse(x + tl, y + tl, tl, tl, 0, Math.PI, (Math.PI * 3) / 2);
+		this.closePath();
+	}
+
+	arc(x: number, y: number, radius: number, startAngle: number, endAngle: number, counterclockwise = false): void {
+		this.ellipse(x, y, radius, radius, 0, startAngle, endAngle, counterclockwise);
+	}
+
+	/** Approximates the arc with one cubic Bézier per quarter turn */
+	ellipse(
+		x: number,
+		y: number,
+		radiusX: number,
+		radiusY: number,
+		rotation: number,
+		startAngle: number,
+		endAngle: number,
+		counterclockwise = false
+	): void {
+		const fullTurn = Math.PI * 2;
+		let sweep = endAngle - startAngle;
+		if (!counterclockwise) {
+			sweep = sweep >= fullTurn ? fullTurn : ((sweep % fullTurn) + fullTurn) % fullTurn;
+		} else {
+			sweep = sweep <= -fullTurn ? -fullTurn : -(((-sweep % fullTurn) + fullTurn) % fullTurn);
+		}
+
+		const cos = Math.cos(rotation);
+		const sin = Math.sin(rotation);
+		const point = (angle: number, offset = 0): [number, number] => {
+			const ux = Math.cos(angle) - offset * Math.sin(angle);
+			const uy = Math.sin(angle) + offset * Math.cos(angle);
+			return [x + radiusX * ux * cos - radiusY * uy * sin, y + radiusX * ux * sin + radiusY * uy * cos];
+		};
+
+		const [startX, startY] = point(startAngle);
+		if (this.current) this.lineTo(startX, startY);
+		else this.moveTo(startX, startY);
+
+		const segments = Math.max(1, Math.ceil(Math.abs(sweep) / (Math.PI / 2) - 1e-9));
+		const delta = sweep / segments;
+		const k = (4 / 3) * Math.tan(delta / 4);
+		for (let i = 0; i < segments; i++) {
+			const a1 = startAngle + i * delta;
+			const a2 = a1 + delta;
+			const [c1x, c1y] = point(a1, k);
+			const [c2x, c2y] = point(a2, -k);
+			const [ex, ey] = point(a2);
+			this.bezierCurveTo(c1x, c1y, c2x, c2y, ex, ey);
+		}
+	}
+
+	// ============ Painting ============
+
+	private clipAttribute(): string {
+		return this.state.clipId ? ` clip-path="url(#${this.state.clipId})"` : '';
+	}
+
+	private fillAttributes(): string {
+		const { paint, opacity } = toPaint(this.state.fillStyle);
+		const alpha = opacity * this.state.globalAlpha;
+		return `fill="${escapeXml(paint)}"${alpha < 1 ? ` fill-opacity="${round(alpha)}"` : ''}`;
+	}
+
+	private strokeAttributes(): string {
+		const { paint, opacity } = toPaint(this.state.strokeStyle);
+		const alpha = opacity * this.state.globalAlpha;
+		const scale = this.scaleFactor();
+		let attributes = `fill="none" stroke="${escapeXml(paint)}" stroke-width="${round(this.state.lineWidth * scale)}"`;
+		if (alpha < 1) attributes += ` stroke-opacity="${round(alpha)}"`;
+		if (this.state.lineCap !== 'butt') attributes += ` stroke-linecap="${this.state.lineCap}"`;
+		if (this.state.lineJoin !== 'miter') attributes += ` stroke-linejoin="${this.state.lineJoin}"`;
+		if (this.state.lineDash.length) {
+			attributes += ` stroke-dasharray="${this.state.lineDash.map((d) => round(d * scale)).join(' ')}"`;
+			if (this.state.lineDashOffset) attributes += ` stroke-dashoffset="${round(this.state.lineDashOffset * scale)}"`;
+		}
+		return attributes;
+	}
+
+	fill(fillRule?: CanvasFillRule): void {
+		if (!this.path.length) return;
+		const rule = fillRule === 'evenodd' ? ' fill-rule="evenodd"' : '';
+		this.elements.push(`<path d="${this.path.join('')}" ${this.fillAttributes()}${rule}${this.clipAttribute()}/>`);
+	}
+
+	stroke(): void {
+		if (!this.path.length) return;
+		this.elements.push(`<path d="${this.path.join('')}" ${this.strokeAttributes()}${this.clipAttribute()}/>`);
+	}
+
+	clip(fillRule?: CanvasFillRule): void {
+		const id = `clip${this.nextId++}`;
+		const rule = fillRule === 'evenodd' ? ' clip-rule="evenodd"' : '';
+		// A clip inside a clip: the new region is itself clipped by the outer one
+		const parent = this.state.clipId ? ` clip-path="url(#${this.state.clipId})"` : '';
+		this.defs.push(`<clipPath id="${id}"${parent}><path d="${this.path.join('')}"${rule}/></clipPath>`);
+		this.state.clipId = id;
+	}
+
+	/** Runs a shape on its own path so the caller's current path is left intact */
+	private withPath(build: () => void, paint: () => void): void {
+		const saved = { path: this.path, current: this.current, subpathStart: this.subpathStart };
+		this.beginPath();
+		build();
+		paint();
+		this.path = saved.path;
+		this.current = saved.current;
+		this.subpathStart = saved.subpathStart;
+	}
+
+	fillRect(x: number, y: number, width: number, height: number): void {
+		this.withPath(
+			() => this.rect(x, y, width, height),
+			() => this.fill()
+		);
+	}
+
+	strokeRect(x: number, y: number, width: number, height: number): void {
+		this.withPath(
+			() => this.rect(x, y, width, height),
+			() => this.stroke()
+		);
+	}
+
+	/** Vector output has nothing to erase; p5 only clears whole frames */
+	clearRect(): void {}
+
+	// ============ Text ============
+
+	private textElement(text: string, x: number, y: number, paint: string): void {
+		const m = this.state.transform;
+		const anchor = TEXT_ANCHOR[this.state.textAlign] ?? 'start';
+		const baseline = DOMINANT_BASELINE[this.state.textBaseline] ?? 'alphabetic';
+		this.elements.push(
+			`<text transform="matrix(${m.map(round).join(' ')})" x="${round(x)}" y="${round(y)}" style="font: ${escapeXml(this.state.font)}; white-space: pre"` +
+				` text-anchor="${anchor}" dominant-baseline="${baseline}" ${paint}${this.clipAttribute()}>${escapeXml(text)}</text>`
+		);
+	}
+
+	fillText(text: string, x: number, y: number): void {
+		this.textElement(text, x, y, this.fillAttributes());
+	}
+
+	strokeText(text: string, x: number, y: number): void {
+		this.textElement(text, x, y, this.strokeAttributes());
+	}
+
+	measureText(text: string): TextMetrics {
+		if (!this.measureContext) this.measureContext = document.createElement('canvas').getContext('2d');
+		if (!this.measureContext) return { width: 0 } as TextMetrics;
+		this.measureContext.font = this.state.font;
+		return this.measureContext.measureText(text);
+	}
+
+	// ============ Images ============
+
+	/** Embeds raster sources (p5 graphics buffers, images) as PNG data URLs */
+	drawImage(image: CanvasImageSource, ...args: number[]): void {
+		const sourceWidth = 'width' in image ? Number(image.width) : 0;
+		const sourceHeight = 'height' in image ? Number(image.height) : 0;
+		let [sx, sy, sw, sh] = [0, 0, sourceWidth, sourceHeight];
+		let [dx, dy, dw, dh] = [args[0], args[1], args[2] ?? sourceWidth, args[3] ?? sourceHeight];
+		if (args.length === 8) [sx, sy, sw, sh, dx, dy, dw, dh] = args;
+		if (!sw || !sh || !dw || !dh) return;
+
+		const canvas = document.createElement('canvas');
+		canvas.width = Math.round(sw);
+		canvas.height = Math.round(sh);
+		canvas.getContext('2d')?.drawImage(image, sx, sy, sw, sh, 0, 0, sw, sh);
+
+		const m = this.state.transform;
+		const opacity = this.state.globalAlpha < 1 ? ` opacity="${round(this.state.globalAlpha)}"` : '';
+		this.elements.push(
+			`<image transform="matrix(${m.map(round).join(' ')})" x="${round(dx)}" y="${round(dy)}" width="${round(dw)}" height="${round(dh)}"` +
+				` preserveAspectRatio="none" href="${canvas.toDataURL('image/png')}"${opacity}${this.clipAttribute()}/>`
+		);
+	}
+
+	// ============ Output ============
+
+	/** Serializes everything drawn so far as a standalone SVG document */
+	toSVG(width: number, height: number): string {
+		const defs = this.defs.length ? `<defs>${this.defs.join('')}</defs>\n` : '';
+		return (
+			`<svg xmlns="http://www.w3.org/2000/svg" width="${round(width)}" height="${round(height)}" viewBox="0 0 ${round(width)} ${round(height)}">\n` +
+			defs +
+			this.elements.join('\n') +
+			'\n</svg>\n'
+		);
+	}
+}
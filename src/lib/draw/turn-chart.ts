@@ -2,12 +2,13 @@ import type p5 from 'p5';
 import { get } from 'svelte/store';
 import VideoStore from '../../stores/videoStore';
 import { showTooltip } from '../../stores/tooltipStore';
-import { formatTimeCompact } from '../core/time-utils';
+import { formatTimeCompact, formatTimelineLabel } from '../core/time-utils';
 import type { DataPoint } from '../../models/dataPoint';
 import type { User } from '../../models/user';
 import type { Bounds } from './types/bounds';
 import { CANVAS_SPACING } from '../constants/ui';
-import { drawPlayhead, getWordColor } from './draw-utils';
+import { drawPlayhead, drawSessionDividers, getWordColor } from './draw-utils';
+import { getSessionBoundaries } from '../core/session-utils';
 import { DrawContext } from './draw-context';
 
 function formatDuration(seconds: number): string {
@@ -120,6 +121,14 @@ export class TurnChart {
 		}
 
 		this.drawTimeline();
+		drawSessionDividers(
+			this.ctx.sk,
+			getSessionBoundaries(this.ctx.transcript),
+			this.ctx.timeline.leftMarker,
+			this.ctx.timeline.rightMarker,
+			{ x: this.bounds.x, y: this.bounds.y, width: this.bounds.width, height: this.panelBottom - this.bounds.y },
+			this.ctx.theme
+		);
 		this.ctx.sk.textSize(this.ctx.sk.toolTipTextSize);
 		for (const key in sortedAnimationWordArray) {
 			const turnArray = sortedAnimationWordArray[key];
@@ -218,7 +227,7 @@ export class TurnChart {
 			this.ctx.sk.line(x, y, x, y + tickLength);
 			// Label
 			this.ctx.sk.noStroke();
-			this.ctx.sk.text(formatTimeCompact(time), x, y + tickLength + 2);
+			this.ctx.sk.text(formatTimelineLabel(time, this.ctx.transcript), x, y + tickLength + 2);
 		}
 	}
 
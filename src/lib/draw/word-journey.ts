@@ -1,5 +1,5 @@
 import { showTooltip } from '../../stores/tooltipStore';
-import { formatTimeCompact } from '../core/time-utils';
+import { formatTimeCompact, formatTimelineLabel } from '../core/time-utils';
 import type { DataPoint } from '../../models/dataPoint';
 import type { Bounds } from './types/bounds';
 import type { WordOccurrence } from '../core/dynamic-data';
@@ -63,7 +63,7 @@ export class WordJourney {
 		this.drawSpeakerLanes();
 
 		// Draw timeline axis
-		drawTimeAxis(this.ctx.sk, this.bounds, this, this.timeline, this.ctx.theme);
+		drawTimeAxis(this.ctx.sk, this.bounds, this, this.timeline, this.ctx.theme, (time) => formatTimelineLabel(time, this.ctx.transcript));
 
 		// Render occurrences
 		const rendered = this.renderOccurrences(data.occurrences);
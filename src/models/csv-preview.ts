@@ -1,6 +1,8 @@
 import type { ParseResult as PapaParseResult } from 'papaparse';
 import type { ColumnMatch } from '$lib/core/column-mapper';
 import type { ParseResult } from '$lib/core/text-parser';
+import type { AnnotationTier, TierImportResult, TierRole } from '$lib/core/tier-utils';
+import type { TextEncodingName } from '$lib/core/text-encoding';
 import type { TimingMode } from './transcript';
 
 export interface CodePreview {
@@ -27,4 +29,22 @@ export interface CSVPreview {
 	wordCount: number;
 	timingMode: TimingMode | null;
 	error: string | null;
+	/** Sheet names for spreadsheet uploads (.xlsx/.ods); empty for CSV files */
+	sheetNames: string[];
+	selectedSheet: string | null;
+	/** Encoding used to decode a CSV file (null for spreadsheets), and the one detected on upload */
+	encoding: TextEncodingName | null;
+	detectedEncoding: TextEncodingName | null;
+}
+
+export interface TierPreview {
+	fileName: string;
+	formatLabel: string;
+	tiers: AnnotationTier[];
+	tierRoles: Record<string, TierRole>;
+	importResult: TierImportResult | null;
+	speakerCount: number;
+	turnCount: number;
+	codeCount: number;
+	error: string | null;
 }
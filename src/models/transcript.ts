@@ -2,6 +2,17 @@ import type { DataPoint } from './dataPoint';
 
 export type TimingMode = 'untimed' | 'startOnly' | 'startEnd';
 
+/**
+ * A source transcript combined into this one (e.g. one of several recordings of a lesson).
+ * Spans the turns from startTurn up to the next session's startTurn.
+ */
+export interface TranscriptSession {
+	label: string;
+	startTurn: number;
+	/** Seconds added to the session's original times when it was combined */
+	timeOffset: number;
+}
+
 export class Transcript {
 	wordArray: DataPoint[];
 	totalTimeInSeconds: number;
@@ -13,6 +24,9 @@ export class Transcript {
 	maxCountOfMostRepeatedWord: number;
 	mostFrequentWord: string;
 	timingMode: TimingMode;
+	sessions: TranscriptSession[];
+	/** ISO datetime that time 0 corresponds to, for chat exports with absolute timestamps */
+	startDate: string | null;
 
 	constructor() {
 		this.wordArray = [];
@@ -25,5 +39,7 @@ export class Transcript {
 		this.maxCountOfMostRepeatedWord = 0;
 		this.mostFrequentWord = '';
 		this.timingMode = 'untimed';
+		this.sessions = [];
+		this.startDate = null;
 	}
 }
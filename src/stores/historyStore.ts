@@ -1,11 +1,25 @@
 import { writable, get } from 'svelte/store';
 import type { DataPoint } from '../models/dataPoint';
+import type { User } from '../models/user';
+import type { TranscriptSession } from '../models/transcript';
+import UserStore from './userStore';
+import TranscriptStore from './transcriptStore';
+import CodeStore, { type CodeEntry } from './codeStore';
 
 const MAX_HISTORY = 50;
 
+export interface HistoryEntry {
+	wordArray: DataPoint[];
+	// Session boundaries move when turns are added, deleted, split or merged
+	sessions: TranscriptSession[];
+	// Only set for changes that replace the speakers and codes too (restoring a snapshot)
+	users?: User[];
+	codes?: CodeEntry[];
+}
+
 interface HistoryState {
-	past: DataPoint[][];
-	future: DataPoint[][];
+	past: HistoryEntry[];
+	future: HistoryEntry[];
 }
 
 function createHistoryStore() {
@@ -14,19 +28,29 @@ function createHistoryStore() {
 		future: []
 	});
 
-	const snapshot = (wordArray: DataPoint[]) => wordArray.map((dp) => dp.copyWith());
+	// Sessions always come from the current transcript: entries are taken just before a change or while undoing one
+	const snapshot = (wordArray: DataPoint[], users?: User[], codes?: CodeEntry[]): HistoryEntry => ({
+		wordArray: wordArray.map((dp) => dp.copyWith()),
+		sessions: get(TranscriptStore).sessions.map((session) => ({ ...session })),
+		users: users?.map((u) => ({ ...u })),
+		codes: codes?.map((c) => ({ ...c }))
+	});
+
+	// The entry that undoes `entry`: the current words, plus the current speakers and codes if `entry` replaces them
+	const inverse = (entry: HistoryEntry, currentWordArray: DataPoint[]) =>
+		snapshot(currentWordArray, entry.users && get(UserStore), entry.codes && get(CodeStore));
 
 	return {
 		subscribe,
 
-		pushState(wordArray: DataPoint[]) {
+		pushState(wordArray: DataPoint[], extras?: Pick<HistoryEntry, 'users' | 'codes'>) {
 			update((h) => ({
-				past: [...h.past.slice(-(MAX_HISTORY - 1)), snapshot(wordArray)],
+				past: [...h.past.slice(-(MAX_HISTORY - 1)), snapshot(wordArray, extras?.users, extras?.codes)],
 				future: []
 			}));
 		},
 
-		undo(currentWordArray: DataPoint[]): DataPoint[] | null {
+		undo(currentWordArray: DataPoint[]): HistoryEntry | null {
 			const state = get({ subscribe });
 			if (state.past.length === 0) return null;
 
@@ -35,13 +59,13 @@ function createHistoryStore() {
 
 			set({
 				past: newPast,
-				future: [...state.future, snapshot(currentWordArray)]
+				future: [...state.future, inverse(previousState, currentWordArray)]
 			});
 
 			return previousState;
 		},
 
-		redo(currentWordArray: DataPoint[]): DataPoint[] | null {
+		redo(currentWordArray: DataPoint[]): HistoryEntry | null {
 			const state = get({ subscribe });
 			if (state.future.length === 0) return null;
 
@@ -49,7 +73,7 @@ function createHistoryStore() {
 			const nextState = newFuture.pop()!;
 
 			set({
-				past: [...state.past, snapshot(currentWordArray)],
+				past: [...state.past, inverse(nextState, currentWordArray)],
 				future: newFuture
 			});
 
@@ -1,6 +1,12 @@
-import { writable } from 'svelte/store';
+import { get, writable } from 'svelte/store';
 import type p5 from 'p5';
+import type { DynamicData } from '../lib/core/dynamic-data';
 
 const P5Store = writable<p5 | null>(null);
 
+/** The sketch's DynamicData, which holds the filtered data the visualizations draw */
+export function getDynamicData(): DynamicData | undefined {
+	return (get(P5Store) as unknown as { dynamicData?: DynamicData } | null)?.dynamicData;
+}
+
 export default P5Store;
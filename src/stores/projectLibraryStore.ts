@@ -0,0 +1,62 @@
+import { derived, writable } from 'svelte/store';
+
+/**
+ * Projects saved in the browser's project library (IndexedDB, see
+ * `src/lib/core/project-library.ts`). Only the summaries live here; the
+ * transcript, speakers, codes and settings are read from the database when a
+ * project is opened.
+ *
+ * The active project is the one autosave writes to. Its id is null until the
+ * first save of a newly loaded transcript creates a library entry. Autosave
+ * also keeps the storage estimate current so space can be watched.
+ */
+export interface ProjectSummary {
+	id: string;
+	name: string;
+	createdAt: number;
+	/** Last autosave or edit */
+	updatedAt: number;
+	/** Last time the project was loaded or opened from the library */
+	openedAt: number;
+	wordCount: number;
+	turnCount: number;
+	speakerCount: number;
+	/** Size of the saved records in bytes; missing for projects saved before sizes were kept */
+	storedBytes?: number;
+}
+
+/** Browser storage used by the site and the most it may use, in bytes */
+export interface StorageSpace {
+	usage: number;
+	quota: number;
+}
+
+export interface ActiveProject {
+	id: string | null;
+	name: string;
+}
+
+export const MAX_RECENTS = 5;
+
+const ProjectLibraryStore = writable<ProjectSummary[]>([]);
+
+export const activeProject = writable<ActiveProject>({ id: null, name: '' });
+
+/**
+ * Set when another tab opened or saved the active project. Only one tab edits a project at a
+ * time, so autosave pauses until the user reloads the other tab's data or keeps their own.
+ */
+export interface ProjectConflict {
+	projectId: string;
+	reason: 'claimed' | 'saved';
+}
+
+export const projectConflict = writable<ProjectConflict | null>(null);
+
+/** Last storage estimate, refreshed after each autosave; null where the browser does not report it */
+export const storageSpace = writable<StorageSpace | null>(null);
+
+/** Most recently opened projects, for the Recents menu */
+export const recentProjects = derived(ProjectLibraryStore, (projects) => [...projects].sort((a, b) => b.openedAt - a.openedAt).slice(0, MAX_RECENTS));
+
+export default ProjectLibraryStore;
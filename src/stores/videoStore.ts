@@ -6,6 +6,7 @@ export interface VideoSource {
 	type: 'youtube' | 'file' | null;
 	videoId?: string;
 	fileUrl?: string;
+	fileName?: string;
 }
 
 // Snippets mode state (null = continuous/idle)
@@ -7,7 +7,17 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import Papa from 'papaparse';
-import { testCodeFile, getCodeFormatLabel, extractCodeNames, parseCodeFile } from '../src/lib/core/code-utils.js';
+import {
+	testCodeFile,
+	getCodeFormatLabel,
+	extractCodeNames,
+	parseCodeFile,
+	applyCodesByTurn,
+	applyCodesByTime,
+	buildCodeExportTable,
+	type CodeExportLayout
+} from '../src/lib/core/code-utils.js';
+import { DataPoint } from '../src/models/dataPoint.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
@@ -533,6 +543,71 @@ function runNegativeTimeTest() {
 	}
 }
 
+// ============ Export Round-Trip Tests ============
+
+function runExportRoundTripTests() {
+	section('EXPORT ROUND TRIP');
+
+	// Four back-to-back turns of two words; coding turn 1 and skipping turn 3 catch off-by-one and range errors
+	const makeWords = () =>
+		[1, 2, 3, 4].flatMap((turn) => [
+			new DataPoint('A', turn, `w${turn}a`, turn * 2 - 2, turn * 2 - 1),
+			new DataPoint('A', turn, `w${turn}b`, turn * 2 - 1, turn * 2)
+		]);
+	const source = makeWords();
+	source[0].codes = ['question'];
+	source[1].codes = ['question'];
+	source[2].codes = ['question', 'polite'];
+	source[3].codes = ['question', 'polite'];
+	source[6].codes = ['question'];
+	source[7].codes = ['question'];
+
+	const turnCodes = (words: DataPoint[]) => words.map((dp) => `${dp.turnNumber}:${[...dp.codes].sort().join('+')}`).join(' ');
+	const layouts: [CodeExportLayout, string][] = [
+		['turn', 'Turn-based'],
+		['turn-range', 'Turn range'],
+		['time', 'Time-based']
+	];
+
+	for (const [layout, label] of layouts) {
+		testFile(layout);
+		const { columns, rows } = buildCodeExportTable(source, layout);
+		const results = Papa.parse<Record<string, unknown>>(Papa.unparse(rows, { header: true, columns }), {
+			dynamicTyping: true,
+			skipEmptyLines: 'greedy',
+			header: true
+		});
+		assert(testCodeFile(results), `${layout} export should be detected as a code file`);
+		assert(getCodeFormatLabel(results.meta.fields!) === label, `${layout} export should be read as ${label}`);
+
+		const parsed = parseCodeFile(results, `codes-${layout}.csv`);
+		const target = makeWords();
+		if (parsed.type === 'turn') applyCodesByTurn(target, parsed);
+		else applyCodesByTime(target, parsed);
+		assert(turnCodes(target) === turnCodes(source), `${layout} round trip should restore codes (got ${turnCodes(target)})`);
+		console.log(`  ${rows.length} rows`);
+	}
+
+	const turnRows = buildCodeExportTable(source, 'turn').rows;
+	assert(
+		turnRows[0].turn === 1 && turnRows[0].code === 'question',
+		`turn export should keep the transcript's turn numbers (got ${turnRows[0].turn})`
+	);
+
+	const ranges = buildCodeExportTable(source, 'turn-range').rows;
+	assert(ranges.length === 3, `turn ranges should collapse to 3 rows (got ${ranges.length})`);
+	assert(
+		ranges.some((r) => r.code === 'question' && r.turn_start === 1 && r.turn_end === 2),
+		'question should cover turns 1-2 as one range'
+	);
+
+	const spans = buildCodeExportTable(source, 'time').rows;
+	assert(
+		spans.some((r) => r.code === 'question' && r.start === 0 && r.end === 4),
+		'adjacent time spans should merge into 0-4'
+	);
+}
+
 // ============ Run all tests ============
 
 try {
@@ -544,6 +619,7 @@ try {
 	runTimeBasedTests();
 	runErrorTests();
 	runNegativeTimeTest();
+	runExportRoundTripTests();
 } catch (e) {
 	console.error('\nFATAL ERROR:', e);
 	process.exit(2);
@@ -7,15 +7,55 @@ import fs from 'fs';
 import path from 'path';
 import { fileURLToPath } from 'url';
 import Papa from 'papaparse';
+import { DOMParser } from '@xmldom/xmldom';
 import { parseCSVRows, parseTXTLines } from '../src/lib/core/csv-txt-parser.js';
 import { parseSubtitleText } from '../src/lib/core/subtitle-parser.js';
+import { buildSubtitles, DEFAULT_SUBTITLE_OPTIONS } from '../src/lib/core/subtitle-writer.js';
+import { buildExportTiers, buildTextGrid } from '../src/lib/core/tier-writer.js';
+import { buildTidyWordTable, buildTidyTurnTable } from '../src/lib/core/tidy-export.js';
+import { buildTranscriptHTML, buildDocxDocument, DEFAULT_DOCUMENT_OPTIONS } from '../src/lib/core/document-writer.js';
+import { buildTransitionMatrix, buildTransitionTable, twoTailedP } from '../src/lib/core/transition-matrix.js';
+import { diffSnapshots } from '../src/lib/core/snapshots.js';
+import { splitTurn, splitTurnAtText, mergeTurnWithNext } from '../src/lib/core/turn-utils.js';
+import { DataPoint } from '../src/models/dataPoint.js';
+import { Transcript } from '../src/models/transcript.js';
+import {
+	contentHash,
+	encodeCompactWords,
+	decodeCompactWords,
+	packTranscriptJSON,
+	splitTranscriptParts,
+	unpackTranscript
+} from '../src/lib/core/compact-transcript.js';
+import { checkProjectData, migrateProjectData, ProjectDataError, PROJECT_SCHEMA_VERSION } from '../src/lib/core/project-schema.js';
 import { parseTranscriptText } from '../src/lib/core/text-parser.js';
 import { testTranscript } from '../src/lib/core/core-utils.js';
-import { createTranscriptFromParsedText, createTranscriptFromSubtitle } from '../src/lib/core/transcript-factory.js';
+import {
+	createTranscriptFromParsedText,
+	createTranscriptFromSessions,
+	createTranscriptFromSubtitle,
+	createTranscriptFromTimedWords
+} from '../src/lib/core/transcript-factory.js';
+import { parseEAFText } from '../src/lib/core/eaf-parser.js';
+import { buildTierImport, getDefaultTierRoles } from '../src/lib/core/tier-utils.js';
+import { applyCodesByTime, applyCodesByTurn } from '../src/lib/core/code-utils.js';
+import { parseTextGridText } from '../src/lib/core/textgrid-parser.js';
+import { parseCHATText, isCHATText } from '../src/lib/core/chat-parser.js';
+import { isWordTimingJSON, parseWordTimingJSON } from '../src/lib/core/word-timing-parser.js';
+import { readSpreadsheet, findFirstDataSheet, sheetToParseResult } from '../src/lib/core/spreadsheet-parser.js';
+import { detectTextEncoding, decodeText } from '../src/lib/core/text-encoding.js';
+import { createCSVPreview, getPreviewSource, parseCSVText } from '../src/lib/core/csv-preview.js';
+import { readQDPX, parseQDCText, sourceMatchesWords, applyQdaSelections } from '../src/lib/core/refi-qda.js';
+import { parseChatExportJSON } from '../src/lib/core/chat-export-parser.js';
+import { createTabLock, type TabLock, type TabMessage } from '../src/lib/core/tab-lock.js';
+import type { ProjectConflict } from '../src/stores/projectLibraryStore.js';
 
 const __filename = fileURLToPath(import.meta.url);
 const __dirname = path.dirname(__filename);
 
+// The XML-based parsers use the browser's DOMParser
+globalThis.DOMParser = DOMParser as unknown as typeof globalThis.DOMParser;
+
 // ============ Test Helpers ============
 
 let totalTests = 0;
@@ -51,7 +91,9 @@ function parseCSVFile(filePath: string): {
 	parseResult: ReturnType<typeof parseCSVRows> | null;
 	papaResult: Papa.ParseResult<Record<string, unknown>> | null;
 } {
-	const content = fs.readFileSync(filePath, 'utf-8');
+	// Decode like the app does so the Windows-1252 and UTF-16 fixtures read correctly
+	const bytes = new Uint8Array(fs.readFileSync(filePath));
+	const content = decodeText(bytes, detectTextEncoding(bytes));
 	const papaResult = Papa.parse<Record<string, unknown>>(content, {
 		dynamicTyping: true,
 		skipEmptyLines: 'greedy',
@@ -243,8 +285,28 @@ function runCSVTests() {
 				// Should not crash on overlapping times
 				assert(transcript.totalNumOfWords > 0, `${file}: should produce words`);
 				break;
+
+			case '21-windows-1252-encoding.csv':
+			case '22-utf16le-bom-encoding.csv':
+				assert(parseResult.speakers.includes('JOSÉ'), `${file}: accented speaker names should decode (got ${parseResult.speakers.join(', ')})`);
+				break;
 		}
 	}
+
+	// Changing the encoding in the preview re-decodes the file and rebuilds the whole preview
+	testFile('re-decoding a Latin-1 CSV preview');
+	const latin1 = new Uint8Array(fs.readFileSync(path.join(csvDir, '21-windows-1252-encoding.csv')));
+	const source = { sheetNames: [], selectedSheet: null, encoding: 'utf-8' as const, detectedEncoding: 'utf-8' as const };
+	const misread = createCSVPreview('latin1.csv', parseCSVText(decodeText(latin1, 'utf-8')), source, 3);
+	const redecoded = createCSVPreview(
+		'latin1.csv',
+		parseCSVText(decodeText(latin1, 'windows-1252')),
+		{ ...getPreviewSource(misread), encoding: 'windows-1252' },
+		3
+	);
+	assert(redecoded.encoding === 'windows-1252' && redecoded.detectedEncoding === 'utf-8', 'preview should record the chosen and detected encodings');
+	assert(redecoded.rawData[0].speaker === 'José', `preview rows should come from the re-decoded text (got ${redecoded.rawData[0].speaker})`);
+	assert(redecoded.parseResult?.turns[0].content.startsWith('Buenos días') === true, 'import should use the re-decoded text, not the first decoding');
 }
 
 // ============ TXT Tests ============
@@ -354,6 +416,903 @@ function runSubtitleTests() {
 	}
 }
 
+function runSubtitleSpeakerTests() {
+	section('SUBTITLE SPEAKERS');
+	const read = (file: string) => parseSubtitleText(fs.readFileSync(path.join(__dirname, 'srt', file), 'utf-8'));
+	const summary = (turns: { speaker: string; content: string }[]) => turns.map((t) => `${t.speaker}: ${t.content}`).join(' | ');
+
+	testFile('speakers.srt');
+	const srt = read('speakers.srt');
+	assert(srt.speakers.join('|') === 'ALICE|BOB|CARLA', `prefixes should become speakers (got ${srt.speakers.join('|')})`);
+	assert(
+		summary(srt.turns.slice(-2)) === "ALICE: Let's get started. | ALICE: Open your books to page ten.",
+		`an unlabelled cue should continue the speaker in its own turn (got ${summary(srt.turns.slice(-2))})`
+	);
+
+	testFile('speakers.vtt');
+	const vtt = read('speakers.vtt');
+	assert(vtt.turns.map((t) => t.speaker).join('|') === 'ALICE|BOB|CARLA|CARLA', `labelled cues should merge by speaker (got ${summary(vtt.turns)})`);
+
+	testFile('colons without speakers');
+	const captions = ['The answer is: yes.', 'Note: bring a calculator.', 'Chapter 1: Fractions', 'See you tomorrow.'];
+	const plain = parseSubtitleText(captions.map((caption, i) => `${i + 1}\n00:00:0${i},000 --> 00:00:0${i + 1},000\n${caption}\n`).join('\n'));
+	assert(plain.speakers.join('|') === 'SPEAKER 1', `one-off prefixes should not become speakers (got ${plain.speakers.join('|')})`);
+	assert(plain.turns.map((t) => t.content).join('|') === captions.join('|'), 'every cue should stay its own turn with its text intact');
+
+	testFile('sparse caption markers');
+	const sparse = ['>> ALICE: Ready?', 'Let us begin.', '>> BOB: Yes.', '>> ALICE: Good.', '>> BOB: Okay.', 'Starting now.', 'Page one.'];
+	const marked = parseSubtitleText(sparse.map((caption, i) => `00:00:0${i}.000 --> 00:00:0${i + 1}.000\n${caption}\n`).join('\n'));
+	assert(marked.speakers.join('|') === 'ALICE|BOB', `names used repeatedly should become speakers (got ${marked.speakers.join('|')})`);
+	assert(marked.turns.length === sparse.length, `unlabelled cues should not be merged (got ${summary(marked.turns)})`);
+}
+
+// ============ ELAN import ============
+
+function runEAFTests() {
+	section('ELAN IMPORT');
+	testFile('basic.eaf');
+	const tiers = parseEAFText(fs.readFileSync(path.join(__dirname, 'eaf', 'basic.eaf'), 'utf-8'));
+	assert(tiers.map((t) => t.id).join('|') === 'Teacher|Student|Teacher moves', 'should read every tier');
+	const roles = getDefaultTierRoles(tiers);
+	assert(roles['Teacher'] === 'speaker' && roles['Student'] === 'speaker', 'top-level tiers should default to speakers');
+	assert(roles['Teacher moves'] === 'skip', 'dependent tiers should be skipped until chosen as codes');
+
+	const { parseResult, codes } = buildTierImport(tiers, { ...roles, 'Teacher moves': 'code' });
+	assert(parseResult.speakers.join('|') === 'TEACHER|STUDENT', `should have both speakers (got ${parseResult.speakers.join('|')})`);
+	assert(parseResult.turns.length === 3, `should have one turn per annotation (got ${parseResult.turns.length})`);
+	assert(parseResult.turns.map((t) => t.speaker).join('|') === 'TEACHER|STUDENT|TEACHER', 'turns should be ordered by start time');
+	assert(parseResult.turns[0].startTime === 0.5 && parseResult.turns[0].endTime === 2.8, 'milliseconds should become seconds');
+	assert(parseResult.turns[1].startTime === 3.1 && parseResult.turns[1].endTime === 6.4, 'each turn should keep its time slots');
+	const entries = codes.entries.map((e) => `${e.code}@${e.startTime}-${e.endTime}`).join('|');
+	assert(entries === 'Question@0.5-2.8|Press for reasoning@7-9.5', `reference annotations should take their parent's span (got ${entries})`);
+
+	const { transcript } = createTranscriptFromParsedText(parseResult, parseResult.detectedTimingMode);
+	applyCodesByTime(transcript.wordArray, codes);
+	const codedTurns = (code: string) => [...new Set(transcript.wordArray.filter((dp) => dp.codes.includes(code)).map((dp) => dp.turnNumber))];
+	assert(codedTurns('Question').join() === '0', 'Question should be applied to the first turn only');
+	assert(codedTurns('Press for reasoning').join() === '2', 'Press for reasoning should be applied to the last turn only');
+}
+
+// ============ TextGrid import ============
+
+function runTextGridTests() {
+	section('TEXTGRID IMPORT');
+	const readTiers = (file: string) => parseTextGridText(fs.readFileSync(path.join(__dirname, 'textgrid', file), 'utf-8'));
+
+	testFile('short.TextGrid');
+	const short = readTiers('short.TextGrid');
+	const shortImport = buildTierImport(short, getDefaultTierRoles(short)).parseResult;
+	assert(shortImport.speakers.join('|') === 'ALICE|BOB', `short format should read both tiers (got ${shortImport.speakers.join('|')})`);
+	assert(shortImport.turns.length === 2, `empty intervals should not become turns (got ${shortImport.turns.length})`);
+	assert(shortImport.turns[1].startTime === 3 && shortImport.turns[1].endTime === 6, 'intervals should keep their times');
+	assert(shortImport.turns[1].content === 'Sure, I finished it last night.', 'interval text should become the turn');
+
+	testFile('long.TextGrid');
+	const long = readTiers('long.TextGrid');
+	const roles = getDefaultTierRoles(long);
+	assert(long.find((t) => t.id === 'Events')?.isPoint === true, 'TextTier should be read as a point tier');
+	assert(roles['Events'] === 'skip', 'point tiers should be skipped until chosen as codes');
+	const { parseResult, codes } = buildTierImport(long, { ...roles, Events: 'code' });
+	assert(parseResult.speakers.join('|') === 'TEACHER|STUDENT', `should have both speakers (got ${parseResult.speakers.join('|')})`);
+	assert(parseResult.turns.map((t) => t.speaker).join('|') === 'TEACHER|STUDENT|TEACHER', 'turns should be ordered by start time');
+	assert(parseResult.turns[2].startTime === 4.1 && parseResult.turns[2].endTime === 7.2, 'intervals should keep their times');
+	assert(parseResult.turns[2].content === 'Can someone read the "first" question?', 'doubled quotes should be unescaped');
+	const entries = codes.entries.map((e) => `${e.code}@${e.startTime}-${e.endTime}`).join('|');
+	assert(entries === 'greeting@1.2-1.2|question@5-5', `points should become instant codes (got ${entries})`);
+
+	const { transcript } = createTranscriptFromParsedText(parseResult, parseResult.detectedTimingMode);
+	applyCodesByTime(transcript.wordArray, codes);
+	const codedTurns = (code: string) => [...new Set(transcript.wordArray.filter((dp) => dp.codes.includes(code)).map((dp) => dp.turnNumber))];
+	assert(codedTurns('greeting').join() === '0', `greeting should mark the first turn (got ${codedTurns('greeting').join()})`);
+	assert(codedTurns('question').join() === '2', `question should mark the last turn (got ${codedTurns('question').join()})`);
+}
+
+// ============ CHAT import ============
+
+function runCHATTests() {
+	section('CHAT IMPORT');
+	testFile('classroom.cha');
+	const text = fs.readFileSync(path.join(__dirname, 'chat', 'classroom.cha'), 'utf-8');
+	assert(isCHATText(text), 'should be detected as CHAT');
+	const { parseResult, codes } = parseCHATText(text);
+	assert(parseResult.speakers.join('|') === 'MS LOPEZ|CHI', `participant names should be used where given (got ${parseResult.speakers.join('|')})`);
+	assert(parseResult.turns.length === 4, `unintelligible-only lines should be dropped (got ${parseResult.turns.length} turns)`);
+	assert(parseResult.turns[0].content === 'okay who can tell me what a what a noun is?', 'transcription codes should be stripped');
+	assert(parseResult.turns[1].content === 'a person place or thing.', 'fillers and pauses should be stripped');
+	assert(parseResult.turns[0].startTime === 1.2 && parseResult.turns[0].endTime === 4.8, 'bullets should give the turn times');
+	assert(parseResult.turns[3].startTime === 10.2 && parseResult.turns[3].endTime === 11, 'a bullet on a continuation line should belong to its turn');
+
+	const entries = codes.entries.map((e) => `${e.code}@${e.turns.join(',')}`).join('|');
+	assert(entries === '%com@0,3|$QUE@0,2|%act@1|$PRAISE@2', `dependent tiers should become turn codes (got ${entries})`);
+	assert(!codes.entries.some((e) => e.code.includes('mor') || e.code.includes('picture')), '%mor and comment text should not become codes');
+
+	const { transcript } = createTranscriptFromParsedText(parseResult, parseResult.detectedTimingMode);
+	applyCodesByTurn(transcript.wordArray, codes);
+	const coded = transcript.wordArray.filter((dp) => dp.codes.includes('%act'));
+	assert(coded.length > 0 && coded.every((dp) => dp.turnNumber === 1 && dp.speaker === 'CHI'), 'codes should land on their turn');
+}
+
+// ============ Word-timed JSON import ============
+
+function runWordTimingTests() {
+	section('WORD-TIMED JSON IMPORT');
+	const readWords = (file: string) => {
+		const data = JSON.parse(fs.readFileSync(path.join(__dirname, 'json', file), 'utf-8'));
+		assert(isWordTimingJSON(data), `${file}: should be detected as word-timed JSON`);
+		return parseWordTimingJSON(data);
+	};
+	const turnsOf = (words: ReturnType<typeof parseWordTimingJSON>) => [...new Set(words.map((w) => `${w.turn}:${w.speaker}`))].join('|');
+
+	testFile('whisperx.json');
+	const whisperx = readWords('whisperx.json');
+	assert(turnsOf(whisperx) === '0:SPEAKER 1|1:SPEAKER 2', `diarization labels should give the speakers (got ${turnsOf(whisperx)})`);
+	assert(whisperx.length === 12, `should have one entry per word (got ${whisperx.length})`);
+	const { transcript, users } = createTranscriptFromTimedWords(whisperx);
+	assert(users.length === 2 && transcript.timingMode === 'startEnd', 'transcript should have both speakers and start/end timing');
+	const together = transcript.wordArray[6];
+	assert(together.word === 'together.' && together.startTime === 2.3 && together.endTime === 3.1, 'each word should keep its own times');
+	assert(transcript.wordArray[7].startTime === 3.6, 'the next turn should start at its first word');
+
+	testFile('rev.json');
+	const rev = readWords('rev.json');
+	assert(turnsOf(rev) === '0:TEACHER|1:SPEAKER 2', `speaker names should be used where given (got ${turnsOf(rev)})`);
+	assert(rev.map((w) => w.word).join(' ') === 'What do you notice? The slope changes.', 'punctuation should attach to the word before it');
+	assert(rev[3].startTime === 0.9 && rev[3].endTime === 1.4, 'words should keep their ts and end_ts');
+
+	testFile('transformers-word.json');
+	const chunks = readWords('transformers-word.json');
+	assert(turnsOf(chunks) === '0:SPEAKER 1|1:SPEAKER 1', `a pause should start a new turn (got ${turnsOf(chunks)})`);
+	assert(chunks[2].word === 'Open' && chunks[2].startTime === 1.6 && chunks[2].endTime === 1.84, 'chunks should keep their timestamps');
+	const last = chunks[chunks.length - 1];
+	assert(last.startTime === 2.6 && last.endTime > last.startTime, 'a missing end time should be estimated');
+}
+
+// ============ Spreadsheet import ============
+
+async function runSpreadsheetTests() {
+	section('SPREADSHEET IMPORT');
+	const readSheets = async (file: string) => {
+		const sheets = await readSpreadsheet(new Uint8Array(fs.readFileSync(path.join(__dirname, 'spreadsheet', file))).buffer, file);
+		const selected = findFirstDataSheet(sheets);
+		const papaResult = sheetToParseResult(sheets[selected]);
+		assert(testTranscript(papaResult), `${file}: the selected sheet should have speaker and content columns`);
+		return { sheets, selected, parseResult: parseCSVRows(papaResult.data, 3) };
+	};
+
+	testFile('transcript.xlsx');
+	const xlsx = await readSheets('transcript.xlsx');
+	assert(xlsx.sheets.map((sheet) => sheet.name).join('|') === 'Notes|Transcript', 'should list every sheet');
+	assert(xlsx.selected === 1, 'should skip the notes sheet and open the first sheet with data');
+	assert(xlsx.sheets[1].rows[1][0] === '0042', 'text cells should keep leading zeros');
+	const widths = xlsx.sheets[1].rows.map((row) => row.length).join(',');
+	assert(widths === '5,5,5', `formatted empty cells, even at XFD1048576, should not add rows or columns (got widths ${widths})`);
+	assert(xlsx.parseResult.speakers.join('|') === 'ANA|BJÖRN', `should read the speaker column (got ${xlsx.parseResult.speakers.join('|')})`);
+	assert(xlsx.parseResult.turns.length === 2, `blank rows should be skipped (got ${xlsx.parseResult.turns.length} turns)`);
+	assert(xlsx.parseResult.turns[0].content === '¿Qué observan en la gráfica?', 'shared strings should keep their accents');
+	assert(xlsx.parseResult.turns[1].startTime === 9 && xlsx.parseResult.turns[1].endTime === 12.25, 'numeric cells should give the times');
+	assert(xlsx.parseResult.detectedTimingMode === 'startEnd', 'start and end columns should give start/end timing');
+
+	testFile('transcript.ods');
+	const ods = await readSheets('transcript.ods');
+	assert(ods.parseResult.speakers.join('|') === 'ANA|BEN', `should read the speaker column (got ${ods.parseResult.speakers.join('|')})`);
+	assert(ods.parseResult.turns[0].content === "Wie  geht's?", 'repeated spaces should be expanded');
+	assert(ods.parseResult.turns[0].startTime === 5.5 && ods.parseResult.turns[1].startTime === 9, 'numeric cells should give the times');
+	assert(ods.parseResult.detectedTimingMode === 'startOnly', 'a start column alone should give start-only timing');
+}
+
+// ============ REFI-QDA import ============
+
+async function runQDATests() {
+	section('REFI-QDA IMPORT');
+	testFile('codebook.qdc');
+	const codebook = parseQDCText(fs.readFileSync(path.join(__dirname, 'qdpx', 'codebook.qdc'), 'utf-8'));
+	const names = codebook.map((code) => code.name).join('|');
+	assert(names === 'Challenges|Negative|Positive|Support', `only codable codes should be read, nested ones included (got ${names})`);
+	assert(codebook[0].color === '#d55e00', 'code colors should be kept');
+
+	testFile('interview.qdpx');
+	const project = await readQDPX(new Uint8Array(fs.readFileSync(path.join(__dirname, 'qdpx', 'interview.qdpx'))).buffer);
+	assert(project.codes.length === 5 && project.codes[4].name === 'Unused', 'the project codebook should be read');
+	assert(project.sources.length === 1 && project.sources[0].name === 'Interview 1', 'the text source should be read');
+	const [source] = project.sources;
+	assert(source.text.startsWith('Interviewer: How did the first week'), 'the source text should be read from the archive');
+	const selections = source.selections.map((s) => `${s.codes.join()}@${s.start}-${s.end}`).join('|');
+	assert(
+		selections === 'Challenges@71-108|Negative@113-125|Support@181-215|Support@265-297|Positive@298-324',
+		`selections should resolve their code references (got ${selections})`
+	);
+
+	const parseResult = parseTranscriptText(source.text);
+	assert(
+		parseResult.speakers.join('|') === 'INTERVIEWER|PRIYA|MARCO',
+		`the source should parse into speakers (got ${parseResult.speakers.join('|')})`
+	);
+	assert(parseResult.turns.length === 5, `the source should parse into turns (got ${parseResult.turns.length})`);
+	const { transcript } = createTranscriptFromParsedText(parseResult);
+	assert(sourceMatchesWords(source, transcript.wordArray), 'the source should match a transcript made from it');
+	const other = createTranscriptFromParsedText(parseTranscriptText('Ana: something else entirely')).transcript;
+	assert(!sourceMatchesWords(source, other.wordArray), 'the source should not match an unrelated transcript');
+
+	const codedWords = applyQdaSelections(transcript.wordArray, source);
+	assert(codedWords === 27, `selections should code the words they cover (got ${codedWords})`);
+	const codedWordsOf = (code: string) =>
+		transcript.wordArray
+			.filter((dp) => dp.codes.includes(code))
+			.map((dp) => dp.word)
+			.join(' ');
+	assert(codedWordsOf('Negative') === 'I felt lost.', `Negative should cover its selection (got ${codedWordsOf('Negative')})`);
+	assert(
+		transcript.wordArray.filter((dp) => dp.codes.includes('Support')).every((dp) => dp.turnNumber === 3 || dp.turnNumber === 4),
+		'Support should cover both of its selections'
+	);
+}
+
+// ============ Combined sessions ============
+
+function runSessionTests() {
+	section('COMBINED SESSIONS');
+	const readSubtitles = (file: string) =>
+		createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(path.join(__dirname, 'srt', file), 'utf-8')), '#6a3d9a').transcript;
+	const first = readSubtitles('speakers.vtt');
+	first.startDate = '2024-03-04T08:00:00.000Z';
+	const second = readSubtitles('basic.srt');
+	const untimed = createTranscriptFromParsedText(parseTranscriptText('Alice: One more thing.\nBob: Sure.')).transcript;
+
+	testFile('speakers.vtt + basic.srt + untimed text');
+	const firstTurns = new Set(first.wordArray.map((dp) => dp.turnNumber)).size;
+	const secondTurns = new Set(second.wordArray.map((dp) => dp.turnNumber)).size;
+	const firstEnd = Math.max(...first.wordArray.map((dp) => dp.endTime));
+	const { transcript, users } = createTranscriptFromSessions([
+		{ label: 'Lesson 1', transcript: first },
+		{ label: 'Empty', transcript: new Transcript() },
+		{ label: 'Lesson 2', transcript: second },
+		{ label: 'Lesson 3', transcript: untimed }
+	]);
+	const boundaries = transcript.sessions.map((session) => `${session.label}@${session.startTurn}+${session.timeOffset}`).join('|');
+	const secondOffset = firstEnd;
+	const thirdOffset = secondOffset + Math.max(...second.wordArray.map((dp) => dp.endTime));
+	assert(
+		boundaries === `Lesson 1@0+0|Lesson 2@${firstTurns}+${secondOffset}|Lesson 3@${firstTurns + secondTurns}+${thirdOffset}`,
+		`sessions should start where the previous one ended, skipping empty ones (got ${boundaries})`
+	);
+	const turnNumbers = [...new Set(transcript.wordArray.map((dp) => dp.turnNumber))];
+	assert(
+		turnNumbers.every((turn, i) => turn === i) && turnNumbers.length === transcript.totalConversationTurns,
+		'turns should be renumbered consecutively across sessions'
+	);
+	const secondStart = transcript.wordArray.find((dp) => dp.turnNumber === firstTurns)!;
+	assert(secondStart.startTime === second.wordArray[0].startTime + secondOffset, 'later sessions should be offset by the earlier ones');
+	assert(users.map((user) => user.name).join('|') === 'ALICE|BOB|CARLA|SPEAKER 1', 'speakers with the same name should be merged');
+	assert(transcript.timingMode === 'untimed', 'an untimed session should make the combined transcript untimed');
+	assert(transcript.startDate === first.startDate, 'the first session should give the start date');
+}
+
+// ============ Chat export import ============
+
+function runChatExportTests() {
+	section('CHAT EXPORT IMPORT');
+	const readExport = (file: string) => parseChatExportJSON(JSON.parse(fs.readFileSync(path.join(__dirname, 'json', file), 'utf-8')));
+	const summarize = (result: ReturnType<typeof parseChatExportJSON>) => ({
+		speakers: result?.parseResult.speakers.join('|'),
+		times: result?.parseResult.turns.map((t) => Math.round(t.startTime!)).join(','),
+		codes: result?.codes.entries.map((e) => `${e.code}@${e.turns.join(',')}`).join('|')
+	});
+
+	testFile('slack-channel.json');
+	const slack = readExport('slack-channel.json');
+	const slackSummary = summarize(slack);
+	assert(slack?.format === 'slack', 'should be detected as a Slack export');
+	assert(slackSummary.speakers === 'AVA CHEN|BEN ORTIZ|SAM PATEL', `profile names should give the speakers (got ${slackSummary.speakers})`);
+	assert(slack?.parseResult.turns.length === 7, `join messages should be skipped (got ${slack?.parseResult.turns.length} turns)`);
+	assert(slackSummary.times === '0,1800,3600,97200,118800,284400,601200', `times should run on across days (got ${slackSummary.times})`);
+	assert(slack?.startDate === '2024-03-04T08:00:00.000Z', 'the first message should give the start date');
+	assert(slack?.parseResult.turns[2].content === 'Yes, @Ben Ortiz. The PDF is on the course page.', 'mentions and links should be resolved');
+	assert(slack?.parseResult.turns[3].content.includes(' & '), 'HTML entities should be decoded');
+	assert(slackSummary.codes === 'thread@0,1,2|reply to: AVA CHEN@1,2', `threads and replies should become turn codes (got ${slackSummary.codes})`);
+
+	testFile('discord-export.json');
+	const discord = readExport('discord-export.json');
+	const discordSummary = summarize(discord);
+	assert(discord?.format === 'discord', 'should be detected as a Discord export');
+	assert(discordSummary.speakers === 'AVA|BEN|SAM', `nicknames should give the speakers (got ${discordSummary.speakers})`);
+	assert(discordSummary.times === '0,1620,134100,168600,372600', `empty system messages should be skipped (got ${discordSummary.times})`);
+	assert(discordSummary.codes === 'reply to: AVA@1|reply to: SAM@3', `replies should become turn codes (got ${discordSummary.codes})`);
+
+	testFile('teams-chat.json');
+	const teams = readExport('teams-chat.json');
+	const teamsSummary = summarize(teams);
+	assert(teams?.format === 'teams', 'should be detected as a Teams export');
+	assert(teamsSummary.speakers === 'AVA CHEN|BEN ORTIZ|SAM PATEL', `display names should give the speakers (got ${teamsSummary.speakers})`);
+	assert(teamsSummary.times === '0,3600,90000,180000', `nested replies should be read and system events skipped (got ${teamsSummary.times})`);
+	assert(teams?.parseResult.turns[1].content === 'Friday works for me, Ava Chen.', 'HTML should be stripped from message bodies');
+	assert(teamsSummary.codes === 'thread@0,1,2|reply to: AVA CHEN@1,2', `threads and replies should become turn codes (got ${teamsSummary.codes})`);
+
+	const { transcript } = createTranscriptFromParsedText(teams!.parseResult, teams!.parseResult.detectedTimingMode);
+	applyCodesByTurn(transcript.wordArray, teams!.codes);
+	const lastWord = transcript.wordArray[transcript.wordArray.length - 1];
+	assert(lastWord.startTime >= 180000, 'the transcript should keep the days between messages');
+	const replyTurns = [...new Set(transcript.wordArray.filter((dp) => dp.codes.includes('reply to: AVA CHEN')).map((dp) => dp.turnNumber))];
+	assert(replyTurns.join() === '1,2', `reply codes should land on the replies (got ${replyTurns.join()})`);
+
+	testFile('many threads');
+	const threaded = Array.from({ length: 30 }, (_, i) => {
+		const ts = `${1709539200 + i * 60}.000100`;
+		return [
+			{ type: 'message', user: 'U1', user_profile: { real_name: 'Ava Chen' }, text: 'Quick question about the reading', ts, thread_ts: ts },
+			{
+				type: 'message',
+				user: 'U2',
+				user_profile: { real_name: 'Ben Ortiz' },
+				text: 'Sure, go ahead',
+				ts: `${1709539230 + i * 60}.000100`,
+				thread_ts: ts
+			}
+		];
+	}).flat();
+	const threadCodes = parseChatExportJSON(threaded)?.codes.entries.map((e) => `${e.code}:${e.turns.length}`);
+	assert(
+		threadCodes?.join('|') === 'thread:60|reply to: AVA CHEN:30',
+		`threads should share one code however many there are (got ${threadCodes?.join('|')})`
+	);
+}
+
+// ============ Subtitle export round trip ============
+
+function runSubtitleExportTests() {
+	section('SRT/VTT EXPORT');
+	const filePath = path.join(__dirname, 'srt', 'speakers.vtt');
+	const { transcript } = createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(filePath, 'utf-8')), '#6a3d9a');
+	const original = transcript.wordArray.map((dp) => `${dp.speaker}:${dp.word}`).join(' ');
+
+	for (const format of ['srt', 'vtt'] as const) {
+		testFile(`speakers.vtt -> ${format}`);
+		const text = buildSubtitles(transcript.wordArray, transcript.timingMode, format);
+		const reparsed = createTranscriptFromSubtitle(parseSubtitleText(text), '#6a3d9a').transcript;
+		const words = reparsed.wordArray.map((dp) => `${dp.speaker}:${dp.word}`).join(' ');
+		assert(words === original, `${format}: re-imported words and speakers should match`);
+		assert(Math.abs(reparsed.wordArray[0].startTime - transcript.wordArray[0].startTime) < 0.001, `${format}: first cue should keep its start time`);
+	}
+
+	testFile('line and duration limits');
+	const options = { ...DEFAULT_SUBTITLE_OPTIONS, maxLineLength: 20, maxCueDuration: 2 };
+	const text = buildSubtitles(transcript.wordArray, transcript.timingMode, 'vtt', options);
+	const cues = text.split('\n\n').slice(1);
+	for (const cue of cues) {
+		const [timing, ...lines] = cue.trim().split('\n');
+		const [start, end] = timing.split(' --> ').map((t) => t.split(':').reduce((total, part) => total * 60 + Number(part), 0));
+		assert(lines.length <= 2, `cue should have at most 2 lines (got ${lines.length})`);
+		assert(end - start <= 2.001, `cue should last at most 2s (got ${(end - start).toFixed(3)})`);
+	}
+	console.log(`  ${cues.length} cues`);
+
+	testFile('untimed estimate');
+	const untimed = buildSubtitles(transcript.wordArray, 'untimed', 'srt', { ...DEFAULT_SUBTITLE_OPTIONS, speechRateWordsPerSecond: 2 });
+	const firstTurn = parseSubtitleText(untimed).turns[0];
+	assert(firstTurn.startTime === 0, 'untimed subtitles should start at 0');
+	assert(firstTurn.endTime! > 0, 'untimed subtitles should have estimated end times');
+}
+
+// ============ TextGrid export round trip ============
+
+function runTierExportTests() {
+	section('TEXTGRID EXPORT');
+	const filePath = path.join(__dirname, 'srt', 'speakers.vtt');
+	const { transcript, users } = createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(filePath, 'utf-8')), '#6a3d9a');
+	const wordArray = transcript.wordArray;
+	wordArray.slice(0, 3).forEach((dp) => (dp.codes = ['opening']));
+
+	testFile('speakers.vtt -> TextGrid');
+	const tiers = buildExportTiers(wordArray, transcript.timingMode, users, ['opening'], 3);
+	const reparsed = parseTextGridText(buildTextGrid(tiers));
+	const roles = getDefaultTierRoles(reparsed);
+	assert(reparsed.length === users.length + 1, `should write one tier per speaker plus one per code (got ${reparsed.length})`);
+	assert(roles['opening'] === 'code', 'code tier should be read back as a code');
+
+	const { parseResult, codes } = buildTierImport(reparsed, roles);
+	const turnCount = new Set(wordArray.map((dp) => dp.turnNumber)).size;
+	assert(parseResult.turns.length === turnCount, `should keep every turn (got ${parseResult.turns.length} of ${turnCount})`);
+	assert(parseResult.turns[0].startTime === wordArray[0].startTime, 'first turn should keep its start time');
+	const span = codes?.type === 'time' ? codes.entries[0] : null;
+	assert(span?.startTime === wordArray[0].startTime && span?.endTime === wordArray[2].endTime, 'code span should cover the coded words');
+}
+
+function runTidyExportTests() {
+	section('TIDY EXPORT');
+	const filePath = path.join(__dirname, 'srt', 'speakers.vtt');
+	const { transcript } = createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(filePath, 'utf-8')), '#6a3d9a');
+	const wordArray = transcript.wordArray;
+	wordArray.slice(0, 2).forEach((dp) => (dp.codes = ['opening', 'greeting']));
+
+	testFile('speakers.vtt -> tidy words');
+	const wordTable = buildTidyWordTable(wordArray, true, (word) => word.toLowerCase() === 'the');
+	assert(wordTable.rows.length === wordArray.length, `should write one row per word (got ${wordTable.rows.length})`);
+	assert(wordTable.rows[0].codes === 'opening;greeting', `codes should be joined with ";" (got ${wordTable.rows[0].codes})`);
+	assert(
+		wordTable.rows.every((row) => row.is_stopword === (String(row.normalized_word) === 'the')),
+		'stopword flag should follow the given stopword test'
+	);
+	const untimed = buildTidyWordTable(wordArray, false, () => false);
+	assert(
+		untimed.rows.every((row) => row.start === null && row.end === null),
+		'untimed transcripts should leave times empty'
+	);
+
+	testFile('speakers.vtt -> tidy turns');
+	const first = wordArray[0];
+	const turnTable = buildTidyTurnTable(
+		[
+			{
+				turnNumber: first.turnNumber,
+				speaker: first.speaker,
+				startTime: 1,
+				endTime: 3.5,
+				wordCount: 2,
+				content: 'why not?',
+				isQuestion: true,
+				isInterruption: false,
+				isConsecutive: false
+			}
+		],
+		wordArray,
+		true
+	);
+	const row = turnTable.rows[0];
+	assert(row.duration === 2.5 && row.is_question === true, 'turn row should carry duration and flags');
+	assert(row.codes === 'opening;greeting', `turn codes should collect the codes of its words (got ${row.codes})`);
+}
+
+// ============ Formatted document ============
+
+function runDocumentExportTests() {
+	section('DOCUMENT EXPORT');
+	const filePath = path.join(__dirname, 'srt', 'speakers.vtt');
+	const { transcript, users } = createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(filePath, 'utf-8')), '#6a3d9a');
+	transcript.wordArray[0].word = 'R&D <b>';
+	transcript.wordArray.slice(0, 2).forEach((dp) => (dp.codes = ['opening']));
+	const codes = [{ code: 'opening', color: '#ff0000', enabled: true }];
+	const input = { transcript, users, codes, options: { ...DEFAULT_DOCUMENT_OPTIONS, includeTurnNumbers: true }, title: 'Transcript' };
+
+	testFile('speakers.vtt -> html');
+	const html = buildTranscriptHTML(input);
+	assert(html.includes('R&amp;D &lt;b&gt;') && !html.includes('<b>'), 'word text should be escaped');
+	assert(html.includes('background:#ff9999'), 'coded span and legend should use a tint of the code color');
+	assert((html.match(/<mark /g) ?? []).length === 1, 'adjacent words with the same codes should share one highlight');
+	assert(html.includes(`#${transcript.wordArray[0].turnNumber}`), 'turn numbers should be shown when enabled');
+	const uncoded = buildTranscriptHTML({ ...input, options: { ...input.options, highlightCodes: false } });
+	assert(!uncoded.includes('<mark ') && !uncoded.includes('<h2>Codes</h2>'), 'turning off highlights should drop marks and the legend');
+
+	testFile('speakers.vtt -> docx');
+	const docx = buildDocxDocument(input);
+	assert(docx.includes('w:fill="FF9999"'), 'coded runs should be shaded with the code tint');
+	assert(docx.includes(`w:val="${users[0].color.slice(1).toUpperCase()}"`), 'speaker names should use their colors');
+	assert(
+		!buildDocxDocument({ ...input, transcript: { ...transcript, wordArray: [transcript.wordArray[0].copyWith({ word: 'a\u0007b' })] } }).includes(
+			'\u0007'
+		),
+		'control characters should be dropped'
+	);
+}
+
+// ============ Transition matrix ============
+
+function runTransitionMatrixTests() {
+	section('TRANSITION MATRIX');
+	const entry = (count: number, wordCount: number) => ({ count, wordCount, turnStartPoints: [] });
+
+	testFile('A/B/C transitions -> matrix');
+	const cells = buildTransitionMatrix(
+		new Map([
+			[
+				'A',
+				new Map([
+					['B', entry(8, 40)],
+					['C', entry(2, 6)]
+				])
+			],
+			['B', new Map([['A', entry(7, 21)]])],
+			['C', new Map([['A', entry(3, 9)]])]
+		]),
+		['C', 'B', 'A']
+	);
+	assert(cells.length === 9, `should fill the full 3x3 matrix (got ${cells.length})`);
+	assert(cells[0].from === 'C' && cells[0].to === 'C', 'speakers should follow the given order');
+	const expectedTotal = cells.reduce((sum, cell) => sum + cell.expected, 0);
+	assert(Math.abs(expectedTotal - 20) < 1e-9, `expected counts should sum to the observed total (got ${expectedTotal})`);
+	const ab = cells.find((cell) => cell.from === 'A' && cell.to === 'B')!;
+	assert(ab.observed === 8 && ab.wordCount === 40 && ab.z > 0, 'A->B should keep its counts and a positive residual');
+	const aa = cells.find((cell) => cell.from === 'A' && cell.to === 'A')!;
+	assert(aa.observed === 0 && aa.z < 0, 'unseen self-transition should have a negative residual');
+
+	testFile('p-values and CSV table');
+	assert(Math.abs(twoTailedP(1.96) - 0.05) < 1e-4, `p for z = 1.96 should be about .05 (got ${twoTailedP(1.96)})`);
+	assert(twoTailedP(0) === 1, 'p for z = 0 should be 1');
+	assert(buildTransitionMatrix(new Map()).length === 0, 'no transitions should give no cells');
+	const table = buildTransitionTable(cells);
+	assert(table.columns.join(',') === 'from,to,observed,expected,word_weighted,z,p', `unexpected columns (${table.columns.join(',')})`);
+	assert(table.rows.length === cells.length, 'table should have one row per cell');
+}
+
+// ============ Snapshot diff ============
+
+function runSnapshotDiffTests() {
+	section('SNAPSHOT DIFF');
+	const turns = (...rows: [string, string, string[]?][]) =>
+		rows.flatMap(([speaker, text, codes], i) => text.split(' ').map((word) => ({ speaker, turnNumber: i + 1, word, codes })));
+	const before = turns(
+		['A', 'hello there everyone'],
+		['B', 'so what is the plan today'],
+		['A', 'we start with the survey'],
+		['B', 'okay sounds good']
+	);
+
+	testFile('identical word arrays');
+	const same = diffSnapshots(before, before);
+	assert(same.unchanged === 4 && same.added + same.removed + same.edited === 0, 'identical snapshots should have no changes');
+
+	testFile('added, removed, edited turns');
+	const after = turns(
+		['A', 'hello there everyone'],
+		['B', 'so what is the plan for today'],
+		['C', 'sorry I am late'],
+		['A', 'we start with the survey', ['method']],
+		['A', 'okay sounds good']
+	);
+	const diff = diffSnapshots(before, after);
+	assert(
+		diff.added === 1 && diff.removed === 0 && diff.edited === 3 && diff.unchanged === 1,
+		`unexpected counts (${JSON.stringify({ ...diff, turns: undefined })})`
+	);
+	const kinds = diff.turns.map((turn) => turn.kind).join(',');
+	assert(kinds === 'unchanged,edited,added,edited,edited', `turns should stay in transcript order (got ${kinds})`);
+	assert(diff.turns[1].textChanged && !diff.turns[1].speakerChanged, 'reworded turn should be an edit, not a remove and add');
+	assert(diff.turns[2].after?.speaker === 'C' && diff.turns[2].before === null, 'new turn should be added');
+	assert(diff.turns[3].codesAdded.join() === 'method' && !diff.turns[3].textChanged, 'code change should be reported on its turn');
+	assert(
+		diff.turns[4].speakerChanged && diff.turns[4].before?.turnNumber === 4 && diff.turns[4].after?.turnNumber === 5,
+		'speaker change should keep both turn numbers'
+	);
+
+	testFile('rewritten turn');
+	const rewritten = diffSnapshots(before, turns(['A', 'hello there everyone'], ['B', 'completely different words here']));
+	assert(rewritten.removed === 3 && rewritten.added === 1 && rewritten.edited === 0, 'unrelated text should count as removed and added');
+}
+
+// ============ Split and merge turns ============
+
+function runTurnSplitMergeTests() {
+	section('SPLIT AND MERGE TURNS');
+	const word = (speaker: string, turnNumber: number, text: string, startTime: number, endTime: number, codes: string[] = []) => {
+		const dp = new DataPoint(speaker, turnNumber, text, startTime, endTime);
+		dp.codes = codes;
+		return dp;
+	};
+	const describe = (wordArray: DataPoint[]) => wordArray.map((dp) => `${dp.turnNumber}:${dp.speaker}:${dp.word}`).join(' ');
+	const wordArray = [
+		word('A', 0, 'hello', 0, 4),
+		word('A', 0, 'there', 0, 4, ['greeting']),
+		word('A', 0, 'so', 0, 4),
+		word('A', 0, 'anyway', 0, 4),
+		word('B', 1, 'right', 4, 6)
+	];
+
+	testFile('split a turn timed as a whole');
+	const split = splitTurn(wordArray, 0, 2)!;
+	assert(describe(split) === '0:A:hello 0:A:there 1:A:so 1:A:anyway 2:B:right', `split should renumber later turns (got ${describe(split)})`);
+	assert(split[1].endTime === 2 && split[2].startTime === 2 && split[3].endTime === 4, 'split time should divide the turn by word count');
+	assert(split[1].codes.join() === 'greeting', 'split should keep word codes');
+	assert(splitTurn(wordArray, 0, 0) === null && splitTurn(wordArray, 0, 4) === null, 'split should need words on both sides');
+
+	testFile('split individually timed words');
+	const timed = [word('A', 0, 'one', 0, 1), word('A', 0, 'two', 1.5, 2), word('A', 0, 'three', 3, 4)];
+	const timedSplit = splitTurn(timed, 0, 2)!;
+	assert(
+		timedSplit.map((dp) => `${dp.startTime}-${dp.endTime}`).join() === '0-1,1.5-2,3-4',
+		'split should keep the times of individually timed words'
+	);
+
+	testFile('split at the cursor while editing');
+	const atCursor = splitTurnAtText(wordArray, 0, 'hello there ', 'so anyway')!;
+	assert(describe(atCursor) === describe(split) && atCursor[1].codes.join() === 'greeting', 'unedited text should split like splitTurn');
+	const midWord = splitTurnAtText(wordArray, 0, 'hello the', 're so anyway')!;
+	assert(
+		describe(midWord) === '0:A:hello 0:A:the 1:A:re 1:A:so 1:A:anyway 2:B:right',
+		`a cursor inside a word should cut the word (got ${describe(midWord)})`
+	);
+	assert(midWord[1].codes.join() === 'greeting' && midWord[2].codes.join() === 'greeting', 'both halves of a cut word should keep its codes');
+	const edited = splitTurnAtText(wordArray, 0, 'oh hello there ', 'anyway')!;
+	assert(describe(edited) === '0:A:oh 0:A:hello 0:A:there 1:A:anyway 2:B:right', `edits should apply with the split (got ${describe(edited)})`);
+	assert(edited[2].codes.join() === 'greeting' && edited[0].codes.length === 0, 'kept words should keep their codes through an edit');
+	assert(splitTurnAtText(wordArray, 0, '', 'hello there') === null, 'a cursor at the start should not split');
+
+	testFile('merge with next turn');
+	const merged = mergeTurnWithNext(split, 1)!;
+	assert(describe(merged) === '0:A:hello 0:A:there 1:A:so 1:A:anyway 1:A:right', `merge should take this turn's speaker (got ${describe(merged)})`);
+	assert(
+		merged.slice(2).every((dp) => dp.startTime === 2 && dp.endTime === 6),
+		'merge should span both turns'
+	);
+	assert(describe(mergeTurnWithNext(split, 0)!) === describe(wordArray), 'merging a split turn should restore it');
+	assert(mergeTurnWithNext(split, 2) === null, 'the last turn has nothing to merge with');
+}
+
+// ============ Project schema ============
+
+function runProjectSchemaTests() {
+	section('PROJECT SCHEMA');
+	const word = { speaker: 'A', turnNumber: 1, word: 'hi', startTime: 0, endTime: 1, count: 1 };
+	const transcript = { wordArray: [word], timingMode: 'startEnd' };
+	const users = [{ name: 'A', color: '#000000', enabled: true }];
+	const failure = (data: unknown) => {
+		try {
+			checkProjectData(data);
+			return null;
+		} catch (err) {
+			return err instanceof ProjectDataError ? err : null;
+		}
+	};
+
+	testFile('legacy autosave -> current version');
+	const legacy = migrateProjectData({ transcript, users, codeColorMode: true, savedAt: 0 });
+	assert(legacy.version === PROJECT_SCHEMA_VERSION, `legacy autosave should migrate to version ${PROJECT_SCHEMA_VERSION}`);
+	assert((legacy.filters as { codeColorMode: boolean }).codeColorMode === true, 'legacy code filters should move into filters');
+	assert(legacy.savedAt === '1970-01-01T00:00:00.000Z', 'numeric savedAt should become an ISO date');
+
+	testFile('rejected data');
+	const current = { format: 'transcript-explorer-project', version: PROJECT_SCHEMA_VERSION, transcript, users };
+	assert(failure(current) === null, 'valid project should pass');
+	assert(
+		failure({ ...current, version: PROJECT_SCHEMA_VERSION + 1 })?.message.includes('newer version') === true,
+		'newer versions should be refused'
+	);
+	assert(failure({ hello: 'world' })?.problems[0].startsWith('format') === true, 'unrelated JSON should not be a project');
+	const broken = { ...current, transcript: { ...transcript, wordArray: [word, { ...word, turnNumber: 'two' }] }, users: 'A' };
+	const error = failure(broken);
+	assert(error?.problems.includes('transcript.wordArray[1].turnNumber: expected a number, found "two"') === true, 'bad word field should be named');
+	assert(error?.problems.includes('users: expected a list') === true, 'bad speakers should be named');
+	assert(error?.data === broken, 'error should carry the raw data for download');
+	const many = failure({ ...current, transcript: { ...transcript, wordArray: Array.from({ length: 30 }, () => ({})) } });
+	assert(many?.problems.length === 11 && many.problems[10].includes('more'), 'long problem lists should be summarized');
+}
+
+// ============ Compact transcript storage ============
+
+async function runCompactTranscriptTests() {
+	section('COMPACT TRANSCRIPT STORAGE');
+	const filePath = path.join(__dirname, 'srt', 'speakers.vtt');
+	const { transcript } = createTranscriptFromSubtitle(parseSubtitleText(fs.readFileSync(filePath, 'utf-8')), '#6a3d9a');
+	transcript.wordArray[1].codes = ['greeting', 'opening'];
+	transcript.wordArray[2].count = 3;
+	const persisted = {
+		...transcript,
+		wordArray: transcript.wordArray.map(({ speaker, turnNumber, startTime, endTime, word, count, codes }) => ({
+			speaker,
+			turnNumber,
+			startTime,
+			endTime,
+			word,
+			count,
+			codes: codes.length > 0 ? codes : undefined
+		}))
+	};
+
+	testFile('speakers.vtt -> compact -> transcript');
+	const { wordArray, ...meta } = persisted;
+	const compact = encodeCompactWords(wordArray);
+	const turnCount = new Set(wordArray.map((dp) => dp.turnNumber)).size;
+	assert(compact.turns.length === turnCount * 3, `each turn should be one run (got ${compact.turns.length / 3} runs for ${turnCount} turns)`);
+	assert(compact.speakers.length === new Set(wordArray.map((dp) => dp.speaker)).size, 'speakers should be stored once');
+	assert(compact.wordCodes.length === 1 && compact.codes.length === 2, 'only coded words should carry codes');
+	const decoded = decodeCompactWords(JSON.parse(JSON.stringify(compact)));
+	assert(JSON.stringify(decoded) === JSON.stringify(wordArray), 'decoding should give back the same words');
+	const relative = encodeCompactWords(wordArray, wordArray[0].turnNumber);
+	assert(relative.turns[0] === 0, 'turn numbers should be stored relative to the first turn');
+	assert(
+		JSON.stringify(decodeCompactWords(relative, wordArray[0].turnNumber)) === JSON.stringify(wordArray),
+		'relative turn numbers should decode back'
+	);
+
+	testFile('gzip round trip');
+	const json = JSON.stringify(compact);
+	const stored = await packTranscriptJSON(json);
+	assert(stored.encoding === 'compact-gzip', 'compression should be used when available');
+	assert(stored.encoding === 'compact-gzip' && stored.bytes.byteLength < JSON.stringify(persisted).length / 2, 'stored form should be much smaller');
+	const manifest = { encoding: 'compact-parts' as const, parts: [{ key: contentHash(json), firstTurn: 0 }], meta };
+	const unpacked = await unpackTranscript(manifest, new Map([[contentHash(json), stored]]));
+	assert(JSON.stringify(unpacked) === JSON.stringify(persisted), 'unpacking should give back the same transcript');
+	assert((await unpackTranscript(persisted)) === persisted, 'plain records from before compact storage should still load');
+
+	testFile('transcript parts');
+	const speakers = ['TEACHER', 'STUDENT'];
+	const longWords = Array.from({ length: 80 }, (_, turn) =>
+		Array.from({ length: 3 }, (_, k) => ({
+			speaker: speakers[turn % 2],
+			turnNumber: turn,
+			startTime: turn,
+			endTime: turn + 1,
+			word: `w${turn}-${k}`,
+			count: 1
+		}))
+	).flat();
+	const storeParts = (words: typeof longWords) =>
+		splitTranscriptParts(words, 4).map((part) => {
+			const partJSON = JSON.stringify(encodeCompactWords(part, part[0].turnNumber));
+			return { key: contentHash(partJSON), firstTurn: part[0].turnNumber, json: partJSON };
+		});
+	const parts = splitTranscriptParts(longWords, 4);
+	assert(
+		parts.length > 1 && parts.every((part) => new Set(part.map((dp) => dp.turnNumber)).size <= 16),
+		`parts should be bounded (got ${parts.length} parts)`
+	);
+	assert(
+		parts.every((part, i) => i === 0 || part[0].turnNumber !== parts[i - 1][parts[i - 1].length - 1].turnNumber),
+		'a turn should not be split across parts'
+	);
+	assert(JSON.stringify(parts.flat()) === JSON.stringify(longWords), 'parts should hold every word in order');
+
+	const original = storeParts(longWords);
+	const renumbered = storeParts(
+		longWords.filter((dp) => dp.turnNumber !== 1).map((dp) => (dp.turnNumber > 1 ? { ...dp, turnNumber: dp.turnNumber - 1 } : dp))
+	);
+	const rewritten = renumbered.filter((part) => !original.some((o) => o.key === part.key));
+	assert(
+		rewritten.length <= 2 && renumbered.slice(2).every((part) => !rewritten.includes(part)),
+		`deleting a turn should rewrite only the parts around it, not every later one (rewrote ${rewritten.length} of ${renumbered.length})`
+	);
+
+	const packedParts = new Map(await Promise.all(original.map(async (part) => [part.key, await packTranscriptJSON(part.json)] as const)));
+	const partsManifest = { encoding: 'compact-parts' as const, parts: original.map(({ key, firstTurn }) => ({ key, firstTurn })), meta };
+	const longUnpacked = await unpackTranscript(partsManifest, packedParts);
+	assert(JSON.stringify(longUnpacked?.wordArray) === JSON.stringify(longWords), 'parts should unpack to the same transcript');
+	let missing = false;
+	packedParts.delete(original[1].key);
+	await unpackTranscript(partsManifest, packedParts).catch(() => (missing = true));
+	assert(missing, 'a missing part should fail to unpack');
+}
+
+// ============ Tab lock tests ============
+
+/** Tabs on a fake channel: messages wait in a queue until deliver(), so claims can cross */
+function createFakeTabs() {
+	const queue: TabMessage[] = [];
+	const tabs: ReturnType<typeof addTab>[] = [];
+	function addTab(id: string, projectId: string) {
+		const tab = {
+			id,
+			activeId: projectId as string | null,
+			conflict: null as ProjectConflict | null,
+			yields: 0,
+			time: 0,
+			lock: null as unknown as TabLock
+		};
+		tab.lock = createTabLock(
+			id,
+			{ postMessage: (message) => queue.push(message) },
+			{
+				activeProjectId: () => tab.activeId,
+				conflict: () => tab.conflict,
+				raiseConflict: (conflict) => (tab.conflict = conflict),
+				yielded: () => tab.yields++,
+				now: () => tab.time
+			}
+		);
+		tabs.push(tab);
+		return tab;
+	}
+	function deliver() {
+		while (queue.length) {
+			const message = queue.shift()!;
+			for (const tab of tabs) tab.lock.receive(message);
+		}
+	}
+	return { addTab, deliver, queue };
+}
+
+function runTabLockTests() {
+	section('TAB LOCK');
+
+	testFile('claim on first edit');
+	let fake = createFakeTabs();
+	let a = fake.addTab('tab-a', 'p1');
+	let b = fake.addTab('tab-b', 'p1');
+	a.lock.opened('p1');
+	b.lock.opened('p1');
+	assert(!a.lock.maySave('p1') && !b.lock.maySave('p1'), 'opening a project should not let a tab save it');
+	assert(fake.queue.length === 0, 'opening a project should send nothing');
+	a.time = 1;
+	a.lock.noteEdit('p1');
+	fake.deliver();
+	assert(a.lock.maySave('p1') && !b.lock.maySave('p1'), 'the first edit should let only that tab save');
+	assert(b.conflict === null, 'a tab that has not edited should not be asked anything on a claim');
+	b.time = 2;
+	b.lock.noteEdit('p1');
+	fake.deliver();
+	assert(b.lock.maySave('p1') && !a.lock.maySave('p1'), 'a later edit in another tab should take the project');
+	assert(
+		a.conflict?.reason === 'claimed' && a.conflict.projectId === 'p1',
+		`the tab that lost the project should be asked (got ${JSON.stringify(a.conflict)})`
+	);
+	assert(b.yields === 1 && a.yields === 0, 'only the claiming tab should hear that the other yielded');
+	assert(b.lock.maySave(null), 'unsaved projects should always be saveable');
+
+	testFile('release');
+	a.lock.claim('p1');
+	fake.deliver();
+	a.lock.opened('p1');
+	assert(a.lock.held === null && !a.lock.maySave('p1'), 'reopening a project should release it');
+	a.lock.claim('p2');
+	assert(a.lock.held === 'p2', 'claiming another project should move the lock');
+
+	testFile('saves from another tab');
+	fake = createFakeTabs();
+	a = fake.addTab('tab-a', 'p1');
+	b = fake.addTab('tab-b', 'p1');
+	a.lock.noteEdit('p1');
+	fake.deliver();
+	a.lock.announceSave('p1');
+	fake.deliver();
+	assert(b.conflict === null, 'a save should not interrupt a tab that has not edited');
+	b.lock.noteEdit('p1');
+	assert(b.conflict?.reason === 'saved' && fake.queue.length === 0, 'editing an out-of-date copy should ask first, without claiming');
+	assert(!b.lock.maySave('p1') && a.lock.maySave('p1'), 'asking should leave the lock where it was');
+	b.lock.noteEdit('p1');
+	assert(fake.queue.length === 0, 'edits while paused should not claim');
+
+	testFile('reload handoff');
+	fake = createFakeTabs();
+	a = fake.addTab('tab-a', 'p1');
+	b = fake.addTab('tab-b', 'p1');
+	a.time = 1;
+	a.lock.noteEdit('p1');
+	fake.deliver();
+	b.time = 2;
+	b.lock.noteEdit('p1');
+	fake.deliver();
+	b.lock.announceSave('p1');
+	fake.deliver();
+	// Tab A's user chooses to reload tab B's version
+	a.lock.opened('p1');
+	a.conflict = null;
+	fake.deliver();
+	assert(b.lock.maySave('p1') && b.conflict === null, 'reloading the other version should leave the other tab saving');
+	assert(!a.lock.maySave('p1'), 'the reloading tab should not save until it edits');
+	a.time = 3;
+	a.lock.noteEdit('p1');
+	assert(a.conflict === null, 'the reloaded copy should be current, so editing it claims without asking');
+	fake.deliver();
+	assert(a.lock.maySave('p1') && !b.lock.maySave('p1'), 'editing the reloaded copy should take the project back');
+	assert(b.conflict?.reason === 'claimed', 'the other tab should then be asked');
+
+	testFile('two tabs claiming at once');
+	fake = createFakeTabs();
+	a = fake.addTab('tab-a', 'p1');
+	b = fake.addTab('tab-b', 'p1');
+	a.time = 5;
+	b.time = 4;
+	a.lock.noteEdit('p1');
+	b.lock.noteEdit('p1');
+	fake.deliver();
+	assert(a.lock.maySave('p1') && !b.lock.maySave('p1'), 'the later of two crossing claims should win');
+	assert(a.conflict === null && b.conflict?.reason === 'claimed', 'only the earlier claimer should be asked');
+	fake = createFakeTabs();
+	a = fake.addTab('tab-a', 'p1');
+	b = fake.addTab('tab-b', 'p1');
+	a.lock.noteEdit('p1');
+	b.lock.noteEdit('p1');
+	fake.deliver();
+	assert([a, b].filter((tab) => tab.lock.maySave('p1')).length === 1, 'claims made at the same moment should leave exactly one tab saving');
+	assert(b.lock.maySave('p1') && a.conflict?.reason === 'claimed', 'a tie should go to the higher tab id');
+
+	testFile('other projects');
+	fake = createFakeTabs();
+	a = fake.addTab('tab-a', 'p1');
+	b = fake.addTab('tab-b', 'p2');
+	a.lock.noteEdit('p1');
+	b.lock.noteEdit('p2');
+	fake.deliver();
+	assert(a.lock.maySave('p1') && b.lock.maySave('p2'), 'tabs editing different projects should both save');
+	assert(a.conflict === null && b.conflict === null, 'claims on other projects should not ask anything');
+}
+
 // ============ Cross-format consistency checks ============
 
 function runConsistencyChecks() {
@@ -414,6 +1373,25 @@ try {
 	runCSVTests();
 	runTXTTests();
 	runSubtitleTests();
+	runSubtitleSpeakerTests();
+	runEAFTests();
+	runTextGridTests();
+	runCHATTests();
+	runWordTimingTests();
+	await runSpreadsheetTests();
+	await runQDATests();
+	runSessionTests();
+	runTabLockTests();
+	runChatExportTests();
+	runSubtitleExportTests();
+	runTierExportTests();
+	runTidyExportTests();
+	runDocumentExportTests();
+	runTransitionMatrixTests();
+	runSnapshotDiffTests();
+	runTurnSplitMergeTests();
+	runProjectSchemaTests();
+	await runCompactTranscriptTests();
 	runConsistencyChecks();
 } catch (e) {
 	console.error('\nFATAL ERROR:', e);